@@ -1,9 +1,36 @@
-import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { BatchImageResizer, BatchImageResizerState } from './components/BatchImageResizer';
-import { VideoFrameExtractor, VideoFrameExtractorState } from './components/VideoFrameExtractor';
-import { GitManager, GitManagerState } from './components/GitManager';
-import { ScreenSizeChecker, ScreenSizeCheckerState } from './components/ScreenSizeChecker';
-import { QuickNote } from './components/QuickNote';
+import React, { useRef, useEffect, useLayoutEffect, useState, useCallback, useMemo } from 'react';
+import { QuickNote, NoteState } from './components/QuickNote';
+import { MarkdownView } from './components/MarkdownView';
+import { ChecklistStatus } from './components/ChecklistStatus';
+import { NotesIndex } from './components/NotesIndex';
+import { NoteHistory } from './components/NoteHistory';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { ThemeEditor } from './components/ThemeEditor';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { ActivityDashboard, DashboardNote, DashboardOutput, DashboardJob } from './components/ActivityDashboard';
+import { FileDestinationChooser, FileDestination } from './components/FileDestinationChooser';
+import { JobToasts, JobToast } from './components/JobToasts';
+import { LanguagePicker } from './components/LanguagePicker';
+import { ToolState, ToolStateUpdate, ToolDefinition, RegisteredTool, HandoffItem, toolRegistry, getHandoffTargets, getToolDefinition, getFileTargetTool, restoreToolState, isTransientUpdate, getLinkState, applyLinkState, getToolOutputs } from './tools/registry';
+import { UndoHistory, createHistory, recordChange, undo, redo } from './utils/history';
+import { PersistedWorkspace, WorkspaceIndex, WorkspaceSummary, defaultWorkspaceIndex, createWorkspaceId, loadWorkspaceIndex, saveWorkspaceIndex, loadWorkspace, saveWorkspace, deleteWorkspace } from './utils/workspaceStore';
+import { exportWorkspaceArchive, importWorkspaceArchive, ArchivedWorkspace } from './utils/workspaceArchive';
+import { isTextFile, noteFromTextFile, isEditableTarget, describeFiles } from './utils/fileRouting';
+import { markdownToPlainText } from './utils/markdown';
+import { toggleChecklistItem, moveChecklistItem } from './utils/checklist';
+import { NoteEntry, defaultNoteColor, hasNoteContent } from './utils/notes';
+import { noteToMarkdown, noteFileName, exportNotesArchive, readNoteFiles, findTitleCollisions } from './utils/noteFiles';
+import { NoteRevision, NoteRevisions, NoteHistoryPrefs, noteSnapshotIdleMs, loadNoteHistoryPrefs, saveNoteHistoryPrefs, pruneAllRevisions, snapshotNotes, parseNoteRevisions } from './utils/noteHistory';
+import { Job, JobContext, JobFailure, JobRunner, JobStatus, JobWork, errorMessage, pruneJobs } from './utils/jobs';
+import { isAbortError } from './utils/mediaPipeline';
+import { EncodeError } from './utils/imageEncoding';
+import { ShortcutMap, comboFromEvent, matchesCombo, loadShortcuts, saveShortcuts } from './utils/shortcuts';
+import { Route, parseRoute, buildRoute, isSameToolList } from './utils/deepLinks';
+import { getContrastingTextColor, generateActiveTabShade } from './utils/color';
+import { useI18n, Locale, localeNames } from './utils/i18n';
+import { Theme, presetThemes, defaultTheme, parseTheme, themeFromAccent, loadSavedThemes, saveSavedThemes } from './utils/themes';
+import { PanelTiling, PanelLayoutPrefs, panelTilingLabels, minPanelWidthPx, clampPanelWidth, loadPanelLayoutPrefs, savePanelLayoutPrefs } from './utils/panelLayout';
+import { TabLayout, itemsPerColumn, parseKey, slotNumberOfKey, keyForSlot, createDefaultLayout, getTabAt, getSlotOfTab, getToolTabId, getToolInstanceIds, addToolInstance, removeToolInstance, setTabLabel, swapSlots, migrateLegacyKeys, parseTabLayout } from './utils/tabLayout';
 
 // Define types for our data structures
 type SmartSwitchItem = {
@@ -15,13 +42,13 @@ type Column = {
   items: SmartSwitchItem[];
 };
 
-// --- Tool Specific Types ---
-type NoteState = { title: string; body: string };
-type ToolState = BatchImageResizerState | VideoFrameExtractorState | GitManagerState | ScreenSizeCheckerState;
+const workspaceSaveDelayMs = 500;
 
-const itemsPerColumn = 3;
+const dashboardNoteLimit = 5;
+const dashboardOutputLimit = 12;
 const initialColumnsCount = 8; // Start with a reasonable number of columns
 const columnsToAdd = 4; // How many columns to add at a time
+const overscanCount = 2; // Columns (desktop) or rows (mobile) rendered beyond each edge of the viewport
 
 // Helper to generate a batch of new columns
 const generateColumns = (count: number, startIndex: number): Column[] => {
@@ -36,18 +63,58 @@ const generateColumns = (count: number, startIndex: number): Column[] => {
   });
 };
 
-const parseKey = (key: string): { col: number; row: number } | null => {
-  const parts = key.split('-');
-  if (parts.length === 3 && parts[0] === 'item') {
-    const col = parseInt(parts[1], 10);
-    const row = parseInt(parts[2], 10);
-    if (!isNaN(col) && !isNaN(row)) {
-      return { col, row };
-    }
-  }
-  return null;
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+const tabDragType = 'application/x-toolbox-tab-slot';
+// Chooser entry for routing dropped files to a fresh tool instance
+const newInstanceDestination = 'new-instance';
+
+type HistorySnapshot = {
+  toolStates: Record<string, ToolState>;
+  noteStates: Record<string, NoteState>;
 };
 
+const createEmptyWorkspace = (): ArchivedWorkspace => ({
+  toolStates: {},
+  noteStates: {},
+  theme: defaultTheme,
+  layout: createDefaultLayout(),
+});
+
+// Records saved before tabs could move still key their states by grid slot
+const fromPersistedWorkspace = (workspace: PersistedWorkspace | null): ArchivedWorkspace => {
+  if (!workspace) return createEmptyWorkspace();
+  const layout = parseTabLayout(workspace.layout);
+  const toolStates = workspace.toolStates as Record<string, ToolState>;
+  const noteStates = workspace.noteStates as Record<string, NoteState>;
+  return {
+    toolStates: layout ? toolStates : migrateLegacyKeys(toolStates),
+    noteStates: layout ? noteStates : migrateLegacyKeys(noteStates),
+    noteRevisions: parseNoteRevisions(workspace.noteRevisions),
+    theme: parseTheme(workspace.theme) ?? (workspace.baseColor ? themeFromAccent(workspace.baseColor) : defaultTheme),
+    layout: layout ?? createDefaultLayout(),
+  };
+};
+
+// --- Keyboard Shortcuts ---
+const paletteShortcut = 'Mod+K';
+const undoShortcut = 'Mod+Z';
+const redoShortcut = 'Mod+Shift+Z';
+const toolShortcutId = (toolId: string) => `toggle-tool:${toolId}`;
+const defaultShortcuts: ShortcutMap = Object.fromEntries(
+  toolRegistry.map((tool, index) => [toolShortcutId(tool.id), `Alt+${index + 1}`])
+);
+
+const remToPx = (rem: number) => rem * parseFloat(getComputedStyle(document.documentElement).fontSize);
+
 // Hook to detect if the screen is in a mobile-like (vertical) orientation
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
@@ -63,99 +130,50 @@ const useIsMobile = () => {
   return isMobile;
 };
 
-// --- Color Theming ---
-const colorOptions = [
-  { name: 'Yellow', hex: '#FBBF24' },
-  { name: 'Blue', hex: '#3B82F6' },
-  { name: 'Green', hex: '#22C55E' },
-  { name: 'Pink', hex: '#EC4899' },
-  { name: 'Purple', hex: '#8B5CF6' },
-];
-
-// Helper to determine if black or white text should be used on a given hex background
-const getContrastingTextColor = (hex: string): string => {
-  if (!hex.startsWith('#')) return '#000000'; // Default to black
-  let color = hex.substring(1);
-  if (color.length === 3) {
-    color = color.split('').map(char => char + char).join('');
-  }
-  const r = parseInt(color.substring(0, 2), 16);
-  const g = parseInt(color.substring(2, 4), 16);
-  const b = parseInt(color.substring(4, 6), 16);
-  // Calculate luminance
-  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-  return luminance > 0.6 ? '#000000' : '#FFFFFF'; // Use black on light, white on dark
-};
-
-// Generates a moderately light shade for active tabs
-const generateActiveTabShade = (hex: string): string => {
-  if (!hex.startsWith('#')) return '#FFFFFF';
-  let color = hex.substring(1);
-  if (color.length === 3) {
-    color = color.split('').map(char => char + char).join('');
-  }
-  const r = parseInt(color.substring(0, 2), 16);
-  const g = parseInt(color.substring(2, 4), 16);
-  const b = parseInt(color.substring(4, 6), 16);
-  const add = 80;
-  const newR = Math.min(255, r + add).toString(16).padStart(2, '0');
-  const newG = Math.min(255, g + add).toString(16).padStart(2, '0');
-  const newB = Math.min(255, b + add).toString(16).padStart(2, '0');
-  return `#${newR}${newG}${newB}`;
-};
-
-// Generates a very light shade for inactive tabs
-const generateEvenLighterShade = (hex: string): string => {
-  if (!hex.startsWith('#')) return '#FFFFFF';
-  let color = hex.substring(1);
-  if (color.length === 3) {
-    color = color.split('').map(char => char + char).join('');
-  }
-  const r = parseInt(color.substring(0, 2), 16);
-  const g = parseInt(color.substring(2, 4), 16);
-  const b = parseInt(color.substring(4, 6), 16);
-  const add = 130;
-  const newR = Math.min(255, r + add).toString(16).padStart(2, '0');
-  const newG = Math.min(255, g + add).toString(16).padStart(2, '0');
-  const newB = Math.min(255, b + add).toString(16).padStart(2, '0');
-  return `#${newR}${newG}${newB}`;
-};
-
-
 const App: React.FC = () => {
   const isMobile = useIsMobile();
+  const { t, dir, locale, setLocale } = useI18n();
+  // Right-to-left locales lay the desktop grid out from the right edge. Browsers then count
+  // scrollLeft down from 0, so positions along the strip are read as distances from its start.
+  const isRtl = dir === 'rtl';
   const [columns, setColumns] = useState<Column[]>(() => generateColumns(initialColumnsCount, 0));
+  // Active, open, visible and closing entries are tab ids (see utils/tabLayout), not grid slot keys
   const [activeSwitches, setActiveSwitches] = useState<Set<string>>(new Set());
-  const [gearRotation, setGearRotation] = useState(0);
+  // Scroll position and size along the scrolling axis, used to window the rendered grid
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const [viewportSize, setViewportSize] = useState(() => window.innerWidth);
+  // Distance from the start of the scrollable content to the first grid column/row
+  const [gridOffset, setGridOffset] = useState(0);
   
   const [openTools, setOpenTools] = useState<string[]>([]);
   const [visibleTools, setVisibleTools] = useState<string[]>([]);
   const [closingTools, setClosingTools] = useState<string[]>([]);
+  const [panelPrefs, setPanelPrefs] = useState<PanelLayoutPrefs>(() => loadPanelLayoutPrefs());
+  // Tab id of the panel filling the viewport, if any; other panels are hidden meanwhile
+  const [maximizedPanel, setMaximizedPanel] = useState<string | null>(null);
+  // Tab id of the panel whose splitter is being dragged; its width follows the pointer without easing
+  const [resizingPanel, setResizingPanel] = useState<string | null>(null);
 
   const [toolStates, setToolStates] = useState<Record<string, ToolState>>({});
   const [noteStates, setNoteStates] = useState<Record<string, NoteState>>({});
+  const [noteRevisions, setNoteRevisions] = useState<NoteRevisions>({});
+  const [noteHistoryPrefs, setNoteHistoryPrefs] = useState<NoteHistoryPrefs>(() => loadNoteHistoryPrefs());
+  const [tabLayout, setTabLayout] = useState<TabLayout>(() => createDefaultLayout());
+  const [dragOverSlot, setDragOverSlot] = useState<string | null>(null);
+  // The one grid slot in the tab order
+  const [focusedSlot, setFocusedSlot] = useState('item-0-0');
+  const [isWorkspaceRestored, setIsWorkspaceRestored] = useState(false);
+  const [workspaceIndex, setWorkspaceIndex] = useState<WorkspaceIndex>(defaultWorkspaceIndex);
 
-  const toolInfo: Record<number, { title: string; description: string; }> = {
-    1: {
-        title: 'Batch Image Resizer',
-        description: "Resize, rename, and compress multiple images. Convert to JPG/PNG."
-    },
-    2: {
-        title: 'Video Frame Grabber',
-        description: "Quickly extract multiple still frames from video files. Batch rename or resize extracted frames."
-    },
-    3: {
-        title: 'Git Manager',
-        description: "Preview files and copy links of any public GitHub Pages repository."
-    },
-    4: {
-        title: 'Screen Size Checker',
-        description: "Test website responsiveness across a variety of device screen sizes."
-    }
-  };
-
-  const [baseColor, setBaseColor] = useState(colorOptions[0].hex);
-  const [tabColors, setTabColors] = useState<Record<string, { inactive: string; active: string }>>({});
+  const [theme, setTheme] = useState<Theme>(defaultTheme);
+  const [savedThemes, setSavedThemes] = useState<Theme[]>(() => loadSavedThemes());
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
+  const [isNotesIndexOpen, setIsNotesIndexOpen] = useState(false);
+  // Tab id of the note whose revision history is shown
+  const [historyNoteTab, setHistoryNoteTab] = useState<string | null>(null);
+  // Dialogs whose own text fields keep native undo and paste
+  const isDialogOpen = isThemeEditorOpen || isNotesIndexOpen || historyNoteTab !== null;
+  const baseColor = theme.accent;
   const [contextMenu, setContextMenu] = useState<{ visible: boolean; x: number; y: number }>({ visible: false, x: 0, y: 0 });
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -163,14 +181,51 @@ const App: React.FC = () => {
   const isLoadingRef = useRef(false);
   const nextColumnIdRef = useRef(initialColumnsCount);
   const itemRefs = useRef(new Map<string, HTMLButtonElement | null>());
+  const gridRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const notesImportInputRef = useRef<HTMLInputElement>(null);
+  const toolPanelRefs = useRef(new Map<string, HTMLDivElement | null>());
+  const sidebarContentRef = useRef<HTMLDivElement>(null);
+
+  // Dropped or pasted files waiting for the user to pick between several tabs that could take them
+  const [pendingFileChoices, setPendingFileChoices] = useState<{ toolId: string; files: File[] }[]>([]);
+  const [isFileDragActive, setIsFileDragActive] = useState(false);
+  // dragenter/dragleave also fire when crossing child elements, so nesting is counted
+  const fileDragDepthRef = useRef(0);
+
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(() => loadShortcuts(defaultShortcuts));
+  const [capturingShortcutFor, setCapturingShortcutFor] = useState<string | null>(null);
+
+  const [isRouteReady, setIsRouteReady] = useState(false);
+  // Bumped to remount a tool panel when a deep link replaces state it only reads on mount
+  const [panelRevisions, setPanelRevisions] = useState<Record<string, number>>({});
+  const isApplyingRouteRef = useRef(false);
+
+  const tabAt = (slotKey: string) => getTabAt(tabLayout, slotKey);
+  const toolForTab = (tabId: string): RegisteredTool | undefined => {
+    const toolId = tabLayout.tools[tabId];
+    return toolId ? getToolDefinition(toolId) : undefined;
+  };
+  const slotNumberOfTab = (tabId: string) => {
+    const slotKey = getSlotOfTab(tabLayout, tabId);
+    return slotKey ? slotNumberOfKey(slotKey) : 0;
+  };
+  // Tool title plus the instance label, if the user gave it one
+  const toolTabTitle = (tabId: string) => {
+    const tool = toolForTab(tabId);
+    const title = tool ? t(tool.title) : '';
+    const label = tabLayout.labels[tabId];
+    return label ? `${title} (${label})` : title;
+  };
+  // The open instance of a tool if there is one, otherwise its first instance
+  const findToolTab = (toolId: string) => {
+    return openTools.find(key => tabLayout.tools[key] === toolId) ?? getToolTabId(tabLayout, toolId);
+  };
 
   const handleTabClick = (key: string) => {
     const isCurrentlyActive = activeSwitches.has(key);
-
-    const pos = parseKey(key);
-    const switchNumber = pos ? (pos.col * itemsPerColumn + pos.row + 1) : 0;
-    const currentToolInfo = toolInfo[switchNumber];
-    const isNoteTab = !currentToolInfo;
+    const isNoteTab = !toolForTab(key);
 
     if (isCurrentlyActive) {
       setActiveSwitches(new Set());
@@ -183,49 +238,365 @@ const App: React.FC = () => {
     }
   };
 
-  const handleOpenTool = (key: string) => {
+  // Keyboard focus follows the panel: into it on open, back to its tab on close.
+  // Route changes pass `moveFocus = false` so navigating history doesn't steal focus.
+  const handleOpenTool = (key: string, moveFocus = true) => {
     if (openTools.includes(key) || closingTools.includes(key)) return;
-    setVisibleTools(prev => [...prev, key]);
+    setVisibleTools(prev => (prev.includes(key) ? prev : [...prev, key]));
+    setMaximizedPanel(null);
     setTimeout(() => {
-      setOpenTools(prev => [...prev, key]);
+      setOpenTools(prev => (prev.includes(key) ? prev : [...prev, key]));
+      if (moveFocus) requestAnimationFrame(() => toolPanelRefs.current.get(key)?.focus({ preventScroll: true }));
     }, 50);
     setActiveSwitches(new Set());
   };
 
-  const handleCloseTool = (keyToClose: string) => {
+  const handleCloseTool = (keyToClose: string, moveFocus = true) => {
     setClosingTools(prev => [...prev, keyToClose]);
     setOpenTools(prev => prev.filter(key => key !== keyToClose));
+    setMaximizedPanel((current: string | null) => (current === keyToClose ? null : current));
     setActiveSwitches(new Set([keyToClose]));
     setTimeout(() => {
       setVisibleTools(prev => prev.filter(key => key !== keyToClose));
       setClosingTools(prev => prev.filter(key => key !== keyToClose));
+      if (moveFocus) focusTabButton(keyToClose);
     }, 500);
   };
   
+  // --- Undo / Redo ---
+  // Snapshots are taken from the last render; updates arriving in between come from the
+  // same source and are coalesced into the same step anyway.
+  const historyRef = useRef<UndoHistory<HistorySnapshot>>(createHistory());
+  const latestStatesRef = useRef<HistorySnapshot>({ toolStates, noteStates });
+  latestStatesRef.current = { toolStates, noteStates };
+
+  const recordHistory = (source: string) => {
+    historyRef.current = recordChange(historyRef.current, latestStatesRef.current, source);
+  };
+
+  // Object URLs in older snapshots may have been revoked since, so changed tool states
+  // are rebuilt like freshly loaded ones and their open panels remounted
+  const applyHistorySnapshot = (snapshot: HistorySnapshot) => {
+    const current = latestStatesRef.current;
+    const changedTools = Object.keys({ ...current.toolStates, ...snapshot.toolStates })
+      .filter(key => current.toolStates[key] !== snapshot.toolStates[key]);
+    const restoredTools = { ...snapshot.toolStates };
+    changedTools.forEach(key => {
+      if (restoredTools[key]) restoredTools[key] = restoreToolState(restoredTools[key]);
+    });
+    setToolStates(restoredTools);
+    setNoteStates(snapshot.noteStates);
+    setPanelRevisions((prev: Record<string, number>) => {
+      const next = { ...prev };
+      changedTools.filter(key => openTools.includes(key)).forEach(key => { next[key] = (next[key] ?? 0) + 1; });
+      return next;
+    });
+  };
+
+  const handleUndo = () => {
+    const result = undo(historyRef.current, latestStatesRef.current);
+    if (!result) return;
+    historyRef.current = result.history;
+    applyHistorySnapshot(result.state);
+  };
+
+  const handleRedo = () => {
+    const result = redo(historyRef.current, latestStatesRef.current);
+    if (!result) return;
+    historyRef.current = result.history;
+    applyHistorySnapshot(result.state);
+  };
+
+  // A note is created when it first gets content; notes saved before creation times were tracked keep theirs unknown
   const updateNoteState = (key: string, newNote: NoteState) => {
-    setNoteStates(prev => ({
+    recordHistory(`note:${key}`);
+    const now = Date.now();
+    setNoteStates(prev => {
+        const isNew = !hasNoteContent(prev[key]) && newNote.createdAt === undefined;
+        return {
+            ...prev,
+            [key]: { ...newNote, ...(isNew && { createdAt: now }), editedAt: now },
+        };
+    });
+  };
+  
+  // Hiding ticked checklist items is a view setting, so it skips undo history and the edit time
+  const setNoteHidesCompleted = (key: string, hideCompleted: boolean) => {
+    setNoteStates((prev: Record<string, NoteState>) => ({
         ...prev,
-        [key]: newNote,
+        [key]: { ...(prev[key] ?? { title: '', body: '' }), hideCompleted },
     }));
   };
-  
-  const updateToolState = (key: string, newState: Partial<ToolState>) => {
+
+  // Function updates can't be checked for transient fields up front, so they always record history
+  const updateToolState = (key: string, newState: ToolStateUpdate<ToolState>) => {
+    const toolId = typeof newState === 'function' ? undefined : newState.type ?? toolStates[key]?.type;
+    if (typeof newState === 'function' || !toolId || !isTransientUpdate(toolId, newState)) recordHistory(`tool:${key}`);
     setToolStates(prev => {
         const existingState = prev[key] || {};
         return {
             ...prev,
             [key]: {
                 ...existingState,
-                ...newState,
+                ...(typeof newState === 'function' ? newState(existingState) : newState),
             } as ToolState
         };
     });
   };
 
+  // --- Workspace Persistence ---
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspaceIndex()
+      .then(async index => {
+        const workspace = await loadWorkspace(index.activeId);
+        if (cancelled) return;
+        setWorkspaceIndex(index);
+        if (workspace) applyWorkspace(fromPersistedWorkspace(workspace), workspace.openTools);
+      })
+      .catch(error => console.error('Failed to restore workspace:', error))
+      .finally(() => {
+        if (!cancelled) setIsWorkspaceRestored(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    // Don't overwrite the stored workspace with the empty initial state before it has been restored
+    if (!isWorkspaceRestored) return;
+    const timer = setTimeout(() => {
+      saveWorkspace(workspaceIndex.activeId, currentWorkspaceSnapshot())
+        .catch(error => console.error('Failed to save workspace:', error));
+    }, workspaceSaveDelayMs);
+    return () => clearTimeout(timer);
+  }, [toolStates, noteStates, noteRevisions, theme, tabLayout, openTools, workspaceIndex.activeId, isWorkspaceRestored]);
+
+  useEffect(() => {
+    if (!isWorkspaceRestored) return;
+    saveWorkspaceIndex(workspaceIndex).catch(error => console.error('Failed to save workspace list:', error));
+  }, [workspaceIndex, isWorkspaceRestored]);
+
+  // The first-run workspace has no stored name until it is renamed
+  const namedWorkspaces: WorkspaceSummary[] = workspaceIndex.workspaces.map(workspace => (
+    workspace.name ? workspace : { ...workspace, name: t('workspace.firstName') }
+  ));
+
+  const currentWorkspaceSnapshot = () => ({ toolStates, noteStates, noteRevisions, theme, layout: tabLayout, openTools });
+
+  // Bumped whenever the workspace is replaced. Tool panels' state updates carry the value
+  // they were rendered with, so cancelled jobs finishing late can't write into the next workspace.
+  const workspaceGenerationRef = useRef(0);
+
+  // Replaces the current workspace wholesale; used when restoring, switching, importing and clearing
+  const applyWorkspace = (workspace: ArchivedWorkspace, openToolKeys: string[] = []) => {
+    workspaceGenerationRef.current++;
+    historyRef.current = createHistory();
+    cancelJobs(() => true);
+    jobs.forEach(job => forgetJob(job.id));
+    setJobs([]);
+    setToastJobIds([]);
+    const reopenedTools = openToolKeys.filter(key => workspace.layout.tools[key]);
+    setOpenTools(reopenedTools);
+    setVisibleTools(reopenedTools);
+    setClosingTools([]);
+    setMaximizedPanel(null);
+    setActiveSwitches(new Set());
+    const restoredTools: Record<string, ToolState> = {};
+    Object.entries(workspace.toolStates).forEach(([key, state]) => {
+      restoredTools[key] = restoreToolState(state);
+    });
+    setToolStates(restoredTools);
+    setNoteStates(workspace.noteStates);
+    setNoteRevisions(pruneAllRevisions(workspace.noteRevisions ?? {}, noteHistoryPrefs));
+    setHistoryNoteTab(null);
+    setTabLayout(workspace.layout);
+    if (workspace.theme) setTheme(workspace.theme);
+  };
+
+  const handleClearWorkspace = () => {
+    setContextMenu({ ...contextMenu, visible: false });
+    if (!window.confirm(t('workspace.clearConfirm'))) return;
+    applyWorkspace(createEmptyWorkspace());
+    deleteWorkspace(workspaceIndex.activeId).catch(error => console.error('Failed to clear workspace:', error));
+  };
+
+  // --- Note Revisions ---
+  // Restarted by every note change, so a snapshot is only taken once typing pauses
+  useEffect(() => {
+    if (!isWorkspaceRestored) return;
+    const timer = setTimeout(() => {
+      setNoteRevisions((prev: NoteRevisions) => snapshotNotes(prev, noteStates, noteHistoryPrefs));
+    }, noteSnapshotIdleMs);
+    return () => clearTimeout(timer);
+  }, [noteStates, noteHistoryPrefs, isWorkspaceRestored]);
+
+  const handleNoteHistoryPrefsChange = (prefs: NoteHistoryPrefs) => {
+    const pruned = pruneAllRevisions(noteRevisions, prefs);
+    const countOf = (revisions: NoteRevisions) => Object.values(revisions).reduce((total, list) => total + list.length, 0);
+    const removed = countOf(noteRevisions) - countOf(pruned);
+    if (removed > 0 && !window.confirm(t('noteHistory.pruneConfirm', { count: removed }))) return;
+    setNoteHistoryPrefs(prefs);
+    saveNoteHistoryPrefs(prefs);
+    setNoteRevisions(pruned);
+  };
+
+  // Unsaved edits are snapshotted first, so restoring never loses the note as it was
+  const handleRestoreRevision = (tabId: string, revision: NoteRevision) => {
+    const note = noteStates[tabId] ?? { title: '', body: '' };
+    setNoteRevisions((prev: NoteRevisions) => snapshotNotes(prev, { [tabId]: note }, noteHistoryPrefs));
+    updateNoteState(tabId, { ...note, title: revision.title, body: revision.body });
+  };
+
+  // --- Named Workspaces ---
+  // The current workspace is saved before anything else so edits still waiting on the
+  // save delay aren't lost; state is only swapped once every storage call has finished.
+  const handleSwitchWorkspace = async (id: string) => {
+    if (id === workspaceIndex.activeId) return;
+    try {
+      await saveWorkspace(workspaceIndex.activeId, currentWorkspaceSnapshot());
+      const workspace = await loadWorkspace(id);
+      applyWorkspace(fromPersistedWorkspace(workspace), workspace?.openTools);
+      setWorkspaceIndex((prev: WorkspaceIndex) => ({ ...prev, activeId: id }));
+    } catch (error) {
+      console.error('Failed to switch workspace:', error);
+      window.alert(t('workspace.switchFailed'));
+    }
+  };
+
+  const handleCreateWorkspace = async () => {
+    const name = window.prompt(t('workspace.newPrompt'), t('workspace.defaultName', { number: workspaceIndex.workspaces.length + 1 }))?.trim();
+    if (!name) return;
+    const id = createWorkspaceId();
+    try {
+      await saveWorkspace(workspaceIndex.activeId, currentWorkspaceSnapshot());
+      applyWorkspace(createEmptyWorkspace());
+      setWorkspaceIndex((prev: WorkspaceIndex) => ({ activeId: id, workspaces: [...prev.workspaces, { id, name }] }));
+    } catch (error) {
+      console.error('Failed to create workspace:', error);
+      window.alert(t('workspace.createFailed'));
+    }
+  };
+
+  const handleRenameWorkspace = (id: string) => {
+    const target = namedWorkspaces.find(workspace => workspace.id === id);
+    if (!target) return;
+    const name = window.prompt(t('workspace.renamePrompt'), target.name)?.trim();
+    if (!name) return;
+    setWorkspaceIndex((prev: WorkspaceIndex) => ({
+      ...prev,
+      workspaces: prev.workspaces.map(workspace => (workspace.id === id ? { ...workspace, name } : workspace)),
+    }));
+  };
+
+  const handleDuplicateWorkspace = async (id: string) => {
+    const source = namedWorkspaces.find(workspace => workspace.id === id);
+    if (!source) return;
+    const copy = { id: createWorkspaceId(), name: t('workspace.copyName', { name: source.name }) };
+    try {
+      await saveWorkspace(workspaceIndex.activeId, currentWorkspaceSnapshot());
+      const workspace = await loadWorkspace(id);
+      if (workspace) await saveWorkspace(copy.id, workspace);
+      setWorkspaceIndex((prev: WorkspaceIndex) => ({ ...prev, workspaces: [...prev.workspaces, copy] }));
+    } catch (error) {
+      console.error('Failed to duplicate workspace:', error);
+      window.alert(t('workspace.duplicateFailed'));
+    }
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const target = namedWorkspaces.find(workspace => workspace.id === id);
+    const remaining = workspaceIndex.workspaces.filter(workspace => workspace.id !== id);
+    if (!target || remaining.length === 0) return;
+    if (!window.confirm(t('workspace.deleteConfirm', { name: target.name }))) return;
+    const isActive = id === workspaceIndex.activeId;
+    try {
+      const fallback = isActive ? await loadWorkspace(remaining[0].id) : null;
+      await deleteWorkspace(id);
+      if (isActive) applyWorkspace(fromPersistedWorkspace(fallback), fallback?.openTools);
+      setWorkspaceIndex((prev: WorkspaceIndex) => ({
+        activeId: prev.activeId === id ? remaining[0].id : prev.activeId,
+        workspaces: prev.workspaces.filter(workspace => workspace.id !== id),
+      }));
+    } catch (error) {
+      console.error('Failed to delete workspace:', error);
+      window.alert(t('workspace.deleteFailed'));
+    }
+  };
+
+  const handleExportWorkspace = async () => {
+    setContextMenu({ ...contextMenu, visible: false });
+    try {
+      const archive = await exportWorkspaceArchive({ toolStates, noteStates, noteRevisions, theme, layout: tabLayout });
+      downloadBlob(archive, `workspace-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      console.error('Workspace export failed:', error);
+      window.alert(t('workspace.exportFailed'));
+    }
+  };
+
+  const handleImportWorkspace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { workspace, failures } = await importWorkspaceArchive(file, t);
+      if (!window.confirm(t('workspace.importConfirm'))) return;
+      applyWorkspace(workspace);
+      if (failures.length > 0) {
+        window.alert(t('workspace.importPartial', { failures: failures.join('\n') }));
+      }
+    } catch (error) {
+      console.error('Workspace import failed:', error);
+      window.alert(t('workspace.importFailed', { error: errorMessage(error) }));
+    }
+  };
+
+  // --- Markdown Notes ---
+  const untitledNoteName = (tabId: string) => t('note.untitled', { number: String(slotNumberOfTab(tabId)) });
+
+  const handleExportNote = (tabId: string) => {
+    const note = noteStates[tabId];
+    if (!hasNoteContent(note)) return;
+    downloadBlob(new Blob([noteToMarkdown(note)], { type: 'text/markdown' }), noteFileName(note, untitledNoteName(tabId)));
+  };
+
+  const handleExportNotes = async () => {
+    setContextMenu({ ...contextMenu, visible: false });
+    if (noteEntries.length === 0) {
+      window.alert(t('notes.exportEmpty'));
+      return;
+    }
+    try {
+      const archive = await exportNotesArchive(noteEntries, untitledNoteName);
+      downloadBlob(archive, `notes-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      console.error('Notes export failed:', error);
+      window.alert(t('notes.exportFailed'));
+    }
+  };
+
+  const handleImportNotes = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const notes = await readNoteFiles(files);
+      if (notes.length === 0) {
+        window.alert(t('notes.importEmpty'));
+        return;
+      }
+      addNotes(notes);
+    } catch (error) {
+      console.error('Notes import failed:', error);
+      window.alert(t('notes.importFailed', { error: errorMessage(error) }));
+    }
+  };
+
   const handleScroll = useCallback(() => {
     const container = scrollContainerRef.current;
     if (!container) return;
-    setGearRotation((isMobile ? container.scrollTop : container.scrollLeft) / 5);
+    setScrollOffset(isMobile ? container.scrollTop : Math.abs(container.scrollLeft));
+    setViewportSize(isMobile ? container.clientHeight : container.clientWidth);
     if (isLoadingRef.current) return;
     let shouldLoadMore = false;
     if (isMobile) {
@@ -233,7 +604,8 @@ const App: React.FC = () => {
       const buffer = clientHeight;
       if (scrollHeight > 0 && scrollTop + clientHeight >= scrollHeight - buffer) shouldLoadMore = true;
     } else {
-      const { scrollWidth, clientWidth, scrollLeft } = container;
+      const { scrollWidth, clientWidth } = container;
+      const scrollLeft = Math.abs(container.scrollLeft);
       const buffer = clientWidth;
       if (scrollWidth > 0 && scrollLeft + clientWidth >= scrollWidth - buffer) shouldLoadMore = true;
     }
@@ -310,8 +682,781 @@ const App: React.FC = () => {
     const container = scrollContainerRef.current;
     if (container) container.scrollTo(isMobile ? { top: 0, behavior: 'smooth' } : { left: 0, behavior: 'smooth' });
   };
+
+  // Appends columns until `col` exists, for navigating to tabs that haven't been scrolled into existence yet
+  const ensureColumnLoaded = (col: number) => {
+    if (col < nextColumnIdRef.current) return;
+    const count = Math.ceil((col + 1 - nextColumnIdRef.current) / columnsToAdd) * columnsToAdd;
+    const newColumns = generateColumns(count, nextColumnIdRef.current);
+    nextColumnIdRef.current += count;
+    setColumns(prev => [...prev, ...newColumns]);
+  };
+
+  // Tabs outside the rendered window aren't in the DOM, so scroll by computed position rather than scrollIntoView
+  const scrollToTab = (tabId: string) => {
+    const container = scrollContainerRef.current;
+    const slotKey = getSlotOfTab(tabLayout, tabId);
+    const pos = slotKey ? parseKey(slotKey) : null;
+    if (!container || !pos) return;
+    const index = isMobile ? pos.col * itemsPerColumn + pos.row : pos.col;
+    const itemSize = remToPx(isMobile ? itemHeightRem : columnWidthRem);
+    const target = gridOffset + index * gridPitchPx - (viewportSize - itemSize) / 2;
+    container.scrollTo(isMobile ? { top: Math.max(0, target), behavior: 'smooth' } : { left: Math.max(0, target) * (isRtl ? -1 : 1), behavior: 'smooth' });
+  };
+
+  const focusTab = (tabId: string) => {
+    const slotKey = getSlotOfTab(tabLayout, tabId);
+    const pos = slotKey ? parseKey(slotKey) : null;
+    if (pos) ensureColumnLoaded(pos.col);
+    setActiveSwitches(new Set([tabId]));
+    requestAnimationFrame(() => scrollToTab(tabId));
+  };
+
+  // --- Keyboard Navigation ---
+  // The grid is a single tab stop: only the tab at `focusedSlot` is in the tab order and
+  // the arrow keys move between tabs (roving tabindex).
+  const focusSlot = (slotKey: string) => {
+    setFocusedSlot(slotKey);
+    const pos = parseKey(slotKey);
+    if (pos) ensureColumnLoaded(pos.col);
+    requestAnimationFrame(() => itemRefs.current.get(slotKey)?.focus());
+  };
+
+  // Tabs of open panels are collapsed out of the desktop grid, so navigation skips them
+  const isSlotHidden = (slotKey: string) => {
+    const tabId = tabAt(slotKey);
+    return !isMobile && visibleTools.includes(tabId) && !closingTools.includes(tabId);
+  };
+
+  const moveTabFocus = (slotKey: string, step: number) => {
+    let slotNumber = slotNumberOfKey(slotKey) + step;
+    while (slotNumber >= 1 && isSlotHidden(keyForSlot(slotNumber))) slotNumber += step;
+    if (slotNumber >= 1) focusSlot(keyForSlot(slotNumber));
+  };
+
+  // Returns focus to a tab, scrolling it into the rendered window first if it isn't there
+  const focusTabButton = (tabId: string) => {
+    const slotKey = getSlotOfTab(tabLayout, tabId);
+    if (!slotKey) return;
+    setFocusedSlot(slotKey);
+    const button = itemRefs.current.get(slotKey);
+    if (button) {
+      button.focus();
+      return;
+    }
+    const pos = parseKey(slotKey);
+    if (pos) ensureColumnLoaded(pos.col);
+    scrollToTab(tabId);
+    setTimeout(() => itemRefs.current.get(slotKey)?.focus({ preventScroll: true }), 550);
+  };
+
+  const handleTabKeyDown = (e: React.KeyboardEvent, slotKey: string, tabId: string) => {
+    const steps: Record<string, number> = isMobile
+      ? { ArrowUp: -1, ArrowDown: 1 }
+      : { ArrowUp: -1, ArrowDown: 1, ArrowLeft: isRtl ? itemsPerColumn : -itemsPerColumn, ArrowRight: isRtl ? -itemsPerColumn : itemsPerColumn };
+    if (steps[e.key]) {
+      e.preventDefault();
+      moveTabFocus(slotKey, steps[e.key]);
+      return;
+    }
+    // Enter/Space on an inactive tab activates it (the button's own click); on an active tool tab it opens the tool
+    if ((e.key === 'Enter' || e.key === ' ') && toolForTab(tabId) && activeSwitches.has(tabId)) {
+      e.preventDefault();
+      handleOpenTool(tabId);
+    }
+  };
+
+  // Escape closes the panel holding focus, else collapses the expanded tab, else closes the last opened panel
+  const handleEscape = () => {
+    if (contextMenu.visible) {
+      setContextMenu({ ...contextMenu, visible: false });
+      return;
+    }
+    const focusedPanel = openTools.find(key => toolPanelRefs.current.get(key)?.contains(document.activeElement));
+    const expandedTab = [...activeSwitches].find(key => key !== 'sidebar');
+    if (focusedPanel) {
+      handleCloseTool(focusedPanel);
+    } else if (expandedTab) {
+      setActiveSwitches(new Set());
+      focusTabButton(expandedTab);
+    } else if (openTools.length > 0) {
+      handleCloseTool(openTools[openTools.length - 1]);
+    }
+  };
+
+  const toggleSidebar = () => {
+    const willOpen = !activeSwitches.has('sidebar');
+    handleTabClick('sidebar');
+    requestAnimationFrame(() => (willOpen ? sidebarContentRef.current : itemRefs.current.get('sidebar'))?.focus({ preventScroll: true }));
+  };
+
+  // Waits for the panel's open transition before scrolling it into view
+  const scrollToToolPanel = (key: string) => {
+    setTimeout(() => {
+      toolPanelRefs.current.get(key)?.scrollIntoView({ behavior: 'smooth', block: 'start', inline: 'start' });
+    }, 550);
+  };
+
+  // Opens a tool panel if needed and brings it into view
+  const showToolPanel = (key: string) => {
+    if (openTools.includes(key)) {
+      toolPanelRefs.current.get(key)?.scrollIntoView({ behavior: 'smooth', block: 'start', inline: 'start' });
+    } else {
+      handleOpenTool(key);
+      scrollToToolPanel(key);
+    }
+  };
+
+  // --- Tool Instances ---
+  // A new instance takes the first slot holding an empty, inactive note. A cleared note
+  // still has its revisions to restore from, so its slot isn't free.
+  const isFreeSlot = (slotKey: string) => {
+    const tabId = tabAt(slotKey);
+    const note = noteStates[tabId];
+    return !tabLayout.tools[tabId] && !activeSwitches.has(tabId) && !hasNoteContent(note) && !noteRevisions[tabId]?.length;
+  };
+
+  const findFreeSlots = (count: number) => {
+    const slots: string[] = [];
+    for (let slotNumber = 1; slots.length < count; slotNumber++) {
+      if (isFreeSlot(keyForSlot(slotNumber))) slots.push(keyForSlot(slotNumber));
+    }
+    return slots;
+  };
+
+  const handleNewInstance = (toolId: string) => {
+    const [slotKey] = findFreeSlots(1);
+    const { layout, tabId } = addToolInstance(tabLayout, toolId, slotKey);
+    setTabLayout(layout);
+    const pos = parseKey(slotKey);
+    if (pos) ensureColumnLoaded(pos.col);
+    handleOpenTool(tabId);
+    scrollToToolPanel(tabId);
+    return tabId;
+  };
+
+  const handleRemoveInstance = (tabId: string) => {
+    if (!window.confirm(t('instance.removeConfirm', { title: toolTabTitle(tabId) }))) return;
+    handleCloseTool(tabId);
+    cancelJobs(jobTabId => jobTabId === tabId);
+    // Removed once the panel's close transition has finished
+    setTimeout(() => {
+      setTabLayout((prev: TabLayout) => removeToolInstance(prev, tabId));
+      setToolStates((prev: Record<string, ToolState>) => {
+        const next = { ...prev };
+        delete next[tabId];
+        return next;
+      });
+      setActiveSwitches(new Set());
+    }, 500);
+  };
+
+  const handleInstanceLabelChange = (tabId: string, label: string) => {
+    setTabLayout((prev: TabLayout) => setTabLabel(prev, tabId, label));
+  };
+
+  // Label field and instance actions shown in a tool panel's header
+  const renderInstanceLabel = (tabId: string) => (
+    <input
+      type="text"
+      value={tabLayout.labels[tabId] ?? ''}
+      onChange={(e) => handleInstanceLabelChange(tabId, e.target.value)}
+      placeholder={t('instance.labelPlaceholder')}
+      className="mt-1 w-full bg-transparent text-black text-sm font-mono border-b border-black/20 focus:border-black focus:outline-none"
+      spellCheck="false"
+      aria-label={t('instance.label')}
+    />
+  );
+
+  const renderInstanceActions = (tabId: string, tool: RegisteredTool) => (
+    <>
+      <button onClick={() => handleNewInstance(tool.id)} className="px-2 py-1 rounded-full bg-black/10 text-black text-xs font-bold hover:bg-black/20 transition-colors flex-shrink-0" title={t('instance.addTitle', { tool: t(tool.title) })}>
+        {t('instance.add')}
+      </button>
+      {getToolInstanceIds(tabLayout, tool.id).length > 1 && (
+        <button onClick={() => handleRemoveInstance(tabId)} className="px-2 py-1 rounded-full bg-black/10 text-red-700 text-xs font-bold hover:bg-black/20 transition-colors flex-shrink-0" title={t('instance.removeTitle')}>
+          {t('instance.remove')}
+        </button>
+      )}
+    </>
+  );
+
+  // --- Job Center ---
+  // Jobs belong to the shell, not to the panel that started them: controllers, work and
+  // retries are kept here so cancel and retry still work after the panel has closed.
+  const [jobs, setJobs] = useState<Job[]>([]);
+  // Finished jobs whose panel wasn't in view, newest last
+  const [toastJobIds, setToastJobIds] = useState<string[]>([]);
+  const nextJobIdRef = useRef(1);
+  const jobControllersRef = useRef(new Map<string, { tabId: string; controller: AbortController }>());
+  // Work of jobs that failed as a whole, for rerunning them
+  const jobWorkRef = useRef(new Map<string, JobWork>());
+  const failureRetriesRef = useRef(new Map<string, () => Promise<void>>());
+
+  // Drops the work and retries kept for a job that has been dismissed or pruned
+  const forgetJob = (id: string) => {
+    jobWorkRef.current.delete(id);
+    failureRetriesRef.current.forEach((_retry, failureId) => {
+      if (failureId.startsWith(`${id}:`)) failureRetriesRef.current.delete(failureId);
+    });
+  };
+
+  const updateJob = (id: string, update: (job: Job) => Partial<Job>) => {
+    setJobs((prev: Job[]) => prev.map(job => (job.id === id ? { ...job, ...update(job) } : job)));
+  };
+
+  const updateJobFailure = (jobId: string, failureId: string, update: Partial<JobFailure>) => {
+    updateJob(jobId, job => ({ failures: job.failures.map(failure => (failure.id === failureId ? { ...failure, ...update } : failure)) }));
+  };
+
+  // Whether a tool panel is open and at least partly on screen
+  const isToolPanelInView = (tabId: string) => {
+    const panel = toolPanelRefs.current.get(tabId);
+    if (!panel?.isConnected) return false;
+    const rect = panel.getBoundingClientRect();
+    return rect.width > 0 && rect.right > 0 && rect.left < window.innerWidth && rect.bottom > 0 && rect.top < window.innerHeight;
+  };
+
+  // Encoder failures come with a message key, as they may have been raised inside a worker
+  const jobErrorMessage = (error: unknown): string => (error instanceof EncodeError ? t(error.key) : errorMessage(error));
+
+  const executeJob = async (id: string, tabId: string, title: string, work: JobWork) => {
+    const controller = new AbortController();
+    jobControllersRef.current.set(id, { tabId, controller });
+    let hasFailures = false;
+    const context: JobContext = {
+      signal: controller.signal,
+      setProgress: progress => updateJob(id, () => ({ progress })),
+      reportFailure: (item, error, retry) => {
+        hasFailures = true;
+        const failureId = `${id}:${nextJobIdRef.current++}`;
+        if (retry) failureRetriesRef.current.set(failureId, retry);
+        const failure: JobFailure = { id: failureId, item, message: jobErrorMessage(error), canRetry: !!retry, isRetrying: false };
+        updateJob(id, job => ({ failures: [...job.failures, failure] }));
+      },
+    };
+
+    let status: JobStatus = 'done';
+    let error: string | undefined;
+    try {
+      await work(context);
+      if (controller.signal.aborted) status = 'cancelled';
+      else if (hasFailures) status = 'failed';
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) {
+        status = 'cancelled';
+      } else {
+        console.error(`Job "${title}" failed:`, err);
+        status = 'failed';
+        error = jobErrorMessage(err);
+        jobWorkRef.current.set(id, work);
+      }
+    }
+    jobControllersRef.current.delete(id);
+    updateJob(id, () => ({ status, error, finishedAt: Date.now() }));
+    // Failures are always raised; other outcomes only if the panel can't show them
+    if (status === 'failed' || (status === 'done' && !isToolPanelInView(tabId))) {
+      setToastJobIds((prev: string[]) => [...prev.filter(toastId => toastId !== id), id]);
+    }
+  };
+
+  const jobRunnerFor = (tabId: string): JobRunner => ({
+    run: (title, work) => {
+      const id = `job-${nextJobIdRef.current++}`;
+      setJobs((prev: Job[]) => {
+        const next = pruneJobs([{ id, tabId, title, status: 'running', progress: null, failures: [] }, ...prev]);
+        prev.filter(job => !next.includes(job)).forEach(job => forgetJob(job.id));
+        return next;
+      });
+      return executeJob(id, tabId, title, work);
+    },
+    cancel: () => cancelJobs(jobTabId => jobTabId === tabId),
+  });
+
+  const cancelJobs = (matchesTab: (tabId: string) => boolean) => {
+    jobControllersRef.current.forEach(({ tabId, controller }) => {
+      if (matchesTab(tabId)) controller.abort();
+    });
+  };
+
+  const handleCancelJob = (id: string) => {
+    jobControllersRef.current.get(id)?.controller.abort();
+  };
+
+  const handleRetryJob = (id: string) => {
+    const job = jobs.find(candidate => candidate.id === id);
+    const work = jobWorkRef.current.get(id);
+    if (!job || !work) return;
+    forgetJob(id);
+    dismissJobToast(id);
+    updateJob(id, () => ({ status: 'running', progress: null, failures: [], error: undefined, finishedAt: undefined }));
+    executeJob(id, job.tabId, job.title, work);
+  };
+
+  const handleRetryJobFailure = async (jobId: string, failureId: string) => {
+    const retry = failureRetriesRef.current.get(failureId);
+    if (!retry) return;
+    updateJobFailure(jobId, failureId, { isRetrying: true });
+    try {
+      await retry();
+      failureRetriesRef.current.delete(failureId);
+      updateJob(jobId, job => {
+        const failures = job.failures.filter(failure => failure.id !== failureId);
+        return { failures, status: job.status === 'failed' && failures.length === 0 && !job.error ? 'done' : job.status };
+      });
+    } catch (error) {
+      console.error('Retry failed:', error);
+      updateJobFailure(jobId, failureId, { isRetrying: false, message: jobErrorMessage(error) });
+    }
+  };
+
+  const dismissJobToast = (id: string) => {
+    setToastJobIds((prev: string[]) => prev.filter(toastId => toastId !== id));
+  };
+
+  // Showing a tool's panel answers every toast it raised
+  const handleShowJobTool = (tabId: string) => {
+    const toolJobIds = jobs.filter(job => job.tabId === tabId).map(job => job.id);
+    setToastJobIds((prev: string[]) => prev.filter(toastId => !toolJobIds.includes(toastId)));
+    if (toolForTab(tabId)) showToolPanel(tabId);
+  };
+
+  const handleDismissJob = (id: string) => {
+    if (jobControllersRef.current.has(id)) return;
+    forgetJob(id);
+    setJobs((prev: Job[]) => prev.filter(job => job.id !== id));
+    dismissJobToast(id);
+  };
+
+  // --- Cross-Tool Handoff ---
+  // Blobs sent from one tool are added to the target tool's inputs and its panel is brought into view
+  // Merges prepared inputs into a tool tab's latest state. `reveal` is false when the
+  // panel is already being opened (a new instance).
+  const deliverToTool = async (
+    key: string,
+    itemNames: string[],
+    prepare: () => Promise<(state: Partial<ToolState>) => Partial<ToolState>>,
+    reveal = true
+  ) => {
+    const tool = toolForTab(key);
+    if (!tool) return;
+    try {
+      const merge = await prepare();
+      recordHistory(`tool:${key}`);
+      setToolStates((prev: Record<string, ToolState>) => ({
+        ...prev,
+        [key]: { ...prev[key], ...merge(prev[key] ?? {}), type: tool.id } as ToolState,
+      }));
+      if (reveal) showToolPanel(key);
+    } catch (error) {
+      console.error('Handoff failed:', error);
+      window.alert(t('handoff.failed', { items: itemNames.length === 1 ? itemNames[0] : t('files.count', { count: itemNames.length }), tool: t(tool.title) }));
+    }
+  };
+
+  const handleHandoff = (targetToolId: string, items: HandoffItem[]) => {
+    const tool = getToolDefinition(targetToolId) as ToolDefinition<ToolState> | undefined;
+    const key = findToolTab(targetToolId);
+    if (!tool?.acceptHandoff || !key || items.length === 0) return;
+    deliverToTool(key, items.map(item => item.name), () => tool.acceptHandoff!(items));
+  };
+
+  // --- Dropped & Pasted Files ---
+  const deliverFiles = (key: string, files: File[], reveal = true) => {
+    const tool = toolForTab(key) as ToolDefinition<ToolState> | undefined;
+    if (!tool?.acceptFiles) return;
+    deliverToTool(key, files.map(file => file.name), () => tool.acceptFiles!(files), reveal);
+  };
+
+  // Fills the first empty note tabs, as one undo step, and expands the last of them. Notes
+  // keep any times they were imported with. Titles already in use are confirmed first.
+  const addNotes = (notes: NoteState[]) => {
+    if (notes.length === 0) return;
+    const collisions = findTitleCollisions(notes, Object.values(noteStates) as NoteState[]);
+    if (collisions.length > 0 && !window.confirm(t('notes.importCollisions', { count: collisions.length, titles: collisions.join('\n') }))) return;
+    const tabIds = findFreeSlots(notes.length).map(tabAt);
+    const now = Date.now();
+    recordHistory('notes:added');
+    setNoteStates((prev: Record<string, NoteState>) => ({
+      ...prev,
+      ...Object.fromEntries(tabIds.map((tabId, index) => [tabId, { createdAt: now, editedAt: now, ...notes[index] }])),
+    }));
+    focusTab(tabIds[tabIds.length - 1]);
+  };
+
+  // Each file goes to the tool declaring its type, or becomes a note. A tool with several
+  // instances gets a chooser; single-file tools keep only the first file.
+  const routeFiles = async (files: File[]) => {
+    const groups = new Map<string, File[]>();
+    const unsupported: File[] = [];
+    const skipped: File[] = [];
+    files.filter(file => !isTextFile(file)).forEach(file => {
+      const tool = getFileTargetTool(file);
+      if (tool) groups.set(tool.id, [...(groups.get(tool.id) ?? []), file]);
+      else unsupported.push(file);
+    });
+
+    const choices: { toolId: string; files: File[] }[] = [];
+    groups.forEach((groupFiles, toolId) => {
+      const tool = getToolDefinition(toolId) as ToolDefinition<ToolState>;
+      const accepted = tool.singleFile ? groupFiles.slice(0, 1) : groupFiles;
+      skipped.push(...groupFiles.slice(accepted.length));
+      const instances = getToolInstanceIds(tabLayout, toolId);
+      if (instances.length === 1) deliverFiles(instances[0], accepted);
+      else choices.push({ toolId, files: accepted });
+    });
+    if (choices.length > 0) setPendingFileChoices((prev: { toolId: string; files: File[] }[]) => [...prev, ...choices]);
+
+    const textFiles = files.filter(isTextFile);
+    if (textFiles.length > 0) {
+      try {
+        addNotes(await Promise.all(textFiles.map(noteFromTextFile)));
+      } catch (error) {
+        console.error('Failed to read dropped text files:', error);
+        window.alert(t('files.readFailed', { files: describeFiles(textFiles, t) }));
+      }
+    }
+
+    if (unsupported.length > 0) window.alert(t('files.unsupported', { files: describeFiles(unsupported, t) }));
+    if (skipped.length > 0) window.alert(t('files.skipped', { count: skipped.length, files: describeFiles(skipped, t) }));
+  };
+
+  const resolveFileChoice = (destinationId: string | null) => {
+    const [choice, ...rest] = pendingFileChoices;
+    setPendingFileChoices(rest);
+    if (!choice || destinationId === null) return;
+    if (destinationId === newInstanceDestination) {
+      deliverFiles(handleNewInstance(choice.toolId), choice.files, false);
+    } else {
+      deliverFiles(destinationId, choice.files);
+    }
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  // Spread on the app root; tab drags carry no files and pass through untouched
+  const fileDropProps = {
+    onDragEnter: (e: React.DragEvent) => {
+      if (!hasDraggedFiles(e)) return;
+      fileDragDepthRef.current += 1;
+      setIsFileDragActive(true);
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!hasDraggedFiles(e)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!hasDraggedFiles(e)) return;
+      fileDragDepthRef.current = Math.max(0, fileDragDepthRef.current - 1);
+      if (fileDragDepthRef.current === 0) setIsFileDragActive(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!hasDraggedFiles(e)) return;
+      e.preventDefault();
+      fileDragDepthRef.current = 0;
+      setIsFileDragActive(false);
+      routeFiles(Array.from(e.dataTransfer.files));
+    },
+  };
+
+  // Registered once like the key listener, reading the latest handlers through a ref
+  const pasteHandlerRef = useRef<(e: ClipboardEvent) => void>(() => {});
+  pasteHandlerRef.current = (e: ClipboardEvent) => {
+    if (isEditableTarget(e.target) || isPaletteOpen || isDialogOpen || pendingFileChoices.length > 0) return;
+    const files = Array.from(e.clipboardData?.files ?? []);
+    const text = e.clipboardData?.getData('text/plain') ?? '';
+    if (files.length > 0) {
+      e.preventDefault();
+      routeFiles(files);
+    } else if (text.trim()) {
+      e.preventDefault();
+      addNotes([{ title: '', body: text }]);
+    }
+  };
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => pasteHandlerRef.current(e);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleCloseAllTools = () => {
+    openTools.forEach(key => handleCloseTool(key));
+  };
+
+  const toggleTool = (toolId: string) => {
+    const key = getToolTabId(tabLayout, toolId);
+    if (!key) return;
+    if (openTools.includes(key)) {
+      handleCloseTool(key);
+    } else {
+      handleOpenTool(key);
+      scrollToToolPanel(key);
+    }
+  };
+
+  const updateShortcut = (commandId: string, combo: string) => {
+    const next = { ...shortcuts, [commandId]: combo };
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  const buildPaletteCommands = (): PaletteCommand[] => {
+    const toolCommands: PaletteCommand[] = toolRegistry.map(tool => {
+      const key = getToolTabId(tabLayout, tool.id);
+      const isOpen = !!key && openTools.includes(key);
+      return {
+        id: `tool-${tool.id}`,
+        group: 'Tools',
+        title: t(isOpen ? 'palette.closeTool' : 'palette.openTool', { title: key ? toolTabTitle(key) : t(tool.title) }),
+        subtitle: t(tool.description),
+        shortcut: shortcuts[toolShortcutId(tool.id)],
+        run: () => toggleTool(tool.id),
+      };
+    });
+
+    // Shortcuts always toggle a tool's first instance; the others are listed separately
+    const instanceCommands: PaletteCommand[] = toolRegistry.flatMap(tool =>
+      getToolInstanceIds(tabLayout, tool.id).slice(1).map(key => {
+        const isOpen = openTools.includes(key);
+        return {
+          id: `tool-instance-${key}`,
+          group: 'Tools' as const,
+          title: t(isOpen ? 'palette.closeTool' : 'palette.openTool', { title: toolTabTitle(key) }),
+          subtitle: t('tab.slot', { number: slotNumberOfTab(key).toString().padStart(2, '0') }),
+          run: () => (isOpen ? handleCloseTool(key) : showToolPanel(key)),
+        };
+      })
+    );
+
+    const newInstanceCommands: PaletteCommand[] = toolRegistry.map(tool => ({
+      id: `new-instance-${tool.id}`,
+      group: 'Tools',
+      title: t('palette.newInstance', { tool: t(tool.title) }),
+      run: () => handleNewInstance(tool.id),
+    }));
+
+    const noteCommands: PaletteCommand[] = (Object.entries(noteStates) as [string, NoteState][])
+      .filter(([, note]) => hasNoteContent(note))
+      .map(([key, note]) => {
+        const switchNumber = slotNumberOfTab(key);
+        return {
+          id: `note-${key}`,
+          group: 'Notes',
+          title: note.title || t('note.untitled', { number: String(switchNumber) }),
+          subtitle: markdownToPlainText(note.body).split('\n')[0],
+          keywords: [note.body, ...(note.tags ?? []).map(tag => `#${tag}`)].join(' '),
+          run: () => focusTab(key),
+        };
+      });
+
+    const actionCommands: PaletteCommand[] = [
+      { id: 'notes-index', group: 'Notes', title: t('palette.notesIndex'), run: () => setIsNotesIndexOpen(true) },
+      { id: 'export-notes', group: 'Notes', title: t('palette.exportNotes'), run: handleExportNotes },
+      { id: 'import-notes', group: 'Notes', title: t('palette.importNotes'), run: () => notesImportInputRef.current?.click() },
+      ...[...presetThemes, ...savedThemes].map((option, index) => ({
+        id: `theme-${index}-${option.name}`,
+        group: 'Actions' as const,
+        title: t('palette.applyTheme', { name: option.name }),
+        run: () => setTheme(option),
+      })),
+      { id: 'edit-theme', group: 'Actions', title: t('palette.editTheme'), subtitle: t('palette.editThemeSubtitle'), run: () => setIsThemeEditorOpen(true) },
+      { id: 'undo', group: 'Actions', title: t('palette.undo'), shortcut: undoShortcut, run: handleUndo },
+      { id: 'redo', group: 'Actions', title: t('palette.redo'), shortcut: redoShortcut, run: handleRedo },
+      { id: 'close-all-tools', group: 'Actions', title: t('palette.closeAllTools'), run: handleCloseAllTools },
+      ...(Object.keys(panelTilingLabels) as PanelTiling[])
+        .filter(tiling => tiling !== panelPrefs.tiling)
+        .map(tiling => ({
+          id: `panel-tiling-${tiling}`,
+          group: 'Actions' as const,
+          title: t('palette.panelLayout', { layout: t(panelTilingLabels[tiling]) }),
+          run: () => setPanelTiling(tiling),
+        })),
+      { id: 'scroll-to-start', group: 'Actions', title: t('app.scrollToStart'), run: handleStarButtonPress },
+      ...namedWorkspaces
+        .filter(workspace => workspace.id !== workspaceIndex.activeId)
+        .map(workspace => ({
+          id: `workspace-${workspace.id}`,
+          group: 'Actions' as const,
+          title: t('palette.switchWorkspace', { name: workspace.name }),
+          run: () => { handleSwitchWorkspace(workspace.id); },
+        })),
+      { id: 'new-workspace', group: 'Actions', title: t('palette.newWorkspace'), run: () => { handleCreateWorkspace(); } },
+      // Also matched by "language" in English, so the switch can be found from any locale
+      ...(Object.keys(localeNames) as Locale[])
+        .filter(code => code !== locale)
+        .map(code => ({
+          id: `locale-${code}`,
+          group: 'Actions' as const,
+          title: t('palette.language', { language: localeNames[code] }),
+          keywords: `language ${code}`,
+          run: () => setLocale(code),
+        })),
+    ];
+
+    const shortcutCommands: PaletteCommand[] = toolRegistry.map(tool => ({
+      id: `rebind-${tool.id}`,
+      group: 'Shortcuts',
+      title: t('palette.changeShortcut', { tool: t(tool.title) }),
+      shortcut: shortcuts[toolShortcutId(tool.id)],
+      run: () => setCapturingShortcutFor(toolShortcutId(tool.id)),
+    }));
+
+    return [...toolCommands, ...instanceCommands, ...newInstanceCommands, ...noteCommands, ...actionCommands, ...shortcutCommands];
+  };
+
+  // The global key listener is registered once, so it reads the latest handlers through a ref
+  const keyDownHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyDownHandlerRef.current = (e: KeyboardEvent) => {
+    if (capturingShortcutFor) {
+      e.preventDefault();
+      if (e.key === 'Escape') {
+        setCapturingShortcutFor(null);
+        return;
+      }
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      updateShortcut(capturingShortcutFor, combo);
+      setCapturingShortcutFor(null);
+      return;
+    }
+    if (matchesCombo(e, paletteShortcut)) {
+      e.preventDefault();
+      setIsPaletteOpen(open => !open);
+      return;
+    }
+    if (isPaletteOpen) return;
+    // Text fields keep their native undo; edits to notes and tools still reach app history through their change events
+    const isAppUndoTarget = !isDialogOpen && !isEditableTarget(e.target);
+    if (isAppUndoTarget && matchesCombo(e, undoShortcut)) {
+      e.preventDefault();
+      handleUndo();
+      return;
+    }
+    if (isAppUndoTarget && matchesCombo(e, redoShortcut)) {
+      e.preventDefault();
+      handleRedo();
+      return;
+    }
+    if (e.key === 'Escape' && !isDialogOpen && !e.defaultPrevented) {
+      handleEscape();
+      return;
+    }
+    // Shortcuts without Ctrl, Cmd or Alt would swallow typed characters
+    if (isEditableTarget(e.target) && !e.ctrlKey && !e.metaKey && !e.altKey) return;
+    const shortcutTool = toolRegistry.find(tool => {
+      const combo = shortcuts[toolShortcutId(tool.id)];
+      return combo && matchesCombo(e, combo);
+    });
+    if (shortcutTool) {
+      e.preventDefault();
+      toggleTool(shortcutTool.id);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyDownHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
   
+  // --- Deep Links ---
+  const applyRoute = (route: Route) => {
+    isApplyingRouteRef.current = true;
+    setTimeout(() => { isApplyingRouteRef.current = false; }, 600);
+
+    const targetKeys: string[] = [];
+    route.tools.forEach(toolId => {
+      const tool = getToolDefinition(toolId);
+      const key = findToolTab(toolId);
+      if (!tool || !key) return;
+      targetKeys.push(key);
+
+      const linked = route.state[toolId] ?? {};
+      const currentLinked = getLinkState(tool, toolStates[key]);
+      const isUnchanged = Object.keys({ ...linked, ...currentLinked }).every(field => linked[field] === currentLinked[field]);
+      if (isUnchanged) return;
+      updateToolState(key, applyLinkState(tool, linked));
+      if (openTools.includes(key)) {
+        setPanelRevisions(prev => ({ ...prev, [key]: (prev[key] ?? 0) + 1 }));
+      }
+    });
+
+    // Links carry one instance per tool; other open instances of a linked tool stay open
+    openTools.filter(key => !route.tools.includes(tabLayout.tools[key])).forEach(key => handleCloseTool(key, false));
+    targetKeys.filter(key => !openTools.includes(key)).forEach(key => handleOpenTool(key, false));
+  };
+
+  const currentRoute = (): Route => {
+    const route: Route = { tools: [], state: {} };
+    openTools.forEach(key => {
+      const tool = toolForTab(key);
+      if (!tool || route.tools.includes(tool.id)) return;
+      route.tools.push(tool.id);
+      route.state[tool.id] = getLinkState(tool, toolStates[key]);
+    });
+    return route;
+  };
+
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  // Deep-linked state wins over the restored workspace, so apply the initial route once restoring finishes
+  useEffect(() => {
+    if (!isWorkspaceRestored || isRouteReady) return;
+    if (window.location.hash) applyRouteRef.current(parseRoute(window.location.hash));
+    setIsRouteReady(true);
+  }, [isWorkspaceRestored, isRouteReady]);
+
+  useEffect(() => {
+    const handlePopState = () => applyRouteRef.current(parseRoute(window.location.hash));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Keep the address bar in sync: opening/closing tools adds a history entry, state edits replace it
+  useEffect(() => {
+    if (!isRouteReady) return;
+    const route = currentRoute();
+    const hash = buildRoute(route);
+    if (hash === window.location.hash) return;
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    const isNavigation = !isSameToolList(route, parseRoute(window.location.hash));
+    if (isNavigation && !isApplyingRouteRef.current) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [openTools, toolStates, isRouteReady]);
+
   const isSidebarOn = activeSwitches.has('sidebar');
+  // --- Side Bar Dashboard ---
+  const dashboardTools = openTools
+    .map(key => ({ tabId: key, title: toolTabTitle(key) }))
+    .filter(tool => tool.title);
+  const noteEntries: NoteEntry[] = (Object.entries(noteStates) as [string, NoteState][])
+    .filter(([, note]) => hasNoteContent(note))
+    .map(([tabId, note]) => ({ tabId, note }));
+  const dashboardNotes: DashboardNote[] = (Object.entries(noteStates) as [string, NoteState][])
+    .filter(([, note]) => hasNoteContent(note))
+    .sort(([, a], [, b]) => (b.editedAt ?? 0) - (a.editedAt ?? 0))
+    .slice(0, dashboardNoteLimit)
+    .map(([key, note]) => ({ tabId: key, title: note.title || t('note.untitled', { number: String(slotNumberOfTab(key)) }), editedAt: note.editedAt }));
+  const dashboardOutputs: DashboardOutput[] = [];
+  (Object.entries(toolStates) as [string, ToolState][]).forEach(([key, state]) => {
+    const tool = toolForTab(key);
+    if (!tool) return;
+    getToolOutputs(state).forEach(output => dashboardOutputs.push({ tabId: key, toolTitle: toolTabTitle(key), output }));
+  });
+  // Newest first; outputs made before creation times were tracked go last, in tab order
+  dashboardOutputs.sort((a, b) => (b.output.createdAt ?? 0) - (a.output.createdAt ?? 0));
+  const dashboardJobs: DashboardJob[] = jobs.map(job => ({ job, toolTitle: toolTabTitle(job.tabId) || t('dashboard.removedTool') }));
+  const jobToasts: JobToast[] = toastJobIds
+    .map(id => dashboardJobs.find(({ job }) => job.id === id))
+    .filter((toast): toast is JobToast => !!toast);
+
+  const activeWorkspaceName = namedWorkspaces.find(workspace => workspace.id === workspaceIndex.activeId)?.name ?? '';
 
   // --- Data Preparation for Rendering ---
   const { gridColumns, allItems } = useMemo(() => {
@@ -330,17 +1475,12 @@ const App: React.FC = () => {
     return { gridColumns: finalGridColumns, allItems: allItemsList };
   }, [columns, isMobile]);
   
-  // --- Color Theming Effects ---
-  useEffect(() => {
-    const newTabColors: Record<string, { inactive: string; active: string }> = {};
-    allItems.forEach(item => {
-      newTabColors[item.key] = {
-        inactive: generateEvenLighterShade(baseColor),
-        active: generateActiveTabShade(baseColor)
-      };
-    });
-    setTabColors(newTabColors);
-  }, [baseColor, allItems]);
+  // --- Color Theming ---
+  // Every tab shares the same palette, so it's derived once per theme rather than per item
+  const tabColors = useMemo(() => ({
+    inactive: theme.surface,
+    active: generateActiveTabShade(theme.accent),
+  }), [theme]);
 
   const handleContextMenu = (e: React.MouseEvent) => {
     if (isSidebarOn) return;
@@ -348,11 +1488,24 @@ const App: React.FC = () => {
     setContextMenu({ visible: true, x: e.clientX, y: e.clientY });
   };
   
-  const handleColorSelect = (color: string) => {
-    setBaseColor(color);
+  const handleThemeSelect = (option: Theme) => {
+    setTheme(option);
     setContextMenu({ ...contextMenu, visible: false });
   };
 
+  const handleSaveTheme = (themeToSave: Theme) => {
+    const next = [...savedThemes.filter(saved => saved.name !== themeToSave.name), themeToSave];
+    setSavedThemes(next);
+    saveSavedThemes(next);
+    setTheme(themeToSave);
+  };
+
+  const handleDeleteTheme = (name: string) => {
+    const next = savedThemes.filter(saved => saved.name !== name);
+    setSavedThemes(next);
+    saveSavedThemes(next);
+  };
+
   useEffect(() => {
     const handleClickOutside = () => {
       if (contextMenu.visible) setContextMenu({ ...contextMenu, visible: false });
@@ -367,106 +1520,525 @@ const App: React.FC = () => {
 
   // --- Layout & Sizing Configs ---
   const desktopSizeConfig = { gapClass: 'gap-4', sidebarOff: '18rem', sidebarOn: '50rem', gapValue: '1rem' };
-  const mobileSizeConfig = { gapClass: 'gap-4', sidebarOff: '6rem', sidebarOn: '20rem', gapValue: '1rem', itemHeight: '8rem' };
+  const mobileSizeConfig = { gapClass: 'gap-4', sidebarOff: '6rem', sidebarOn: '20rem', gapValue: '1rem', itemHeight: '8rem', activeItemHeight: '16rem' };
   const gapClass = isMobile ? mobileSizeConfig.gapClass : desktopSizeConfig.gapClass;
   const currentSidebarWidth = isSidebarOn ? desktopSizeConfig.sidebarOn : desktopSizeConfig.sidebarOff;
   const gapRem = parseFloat(desktopSizeConfig.gapValue);
   const columnWidthRem = parseFloat(desktopSizeConfig.sidebarOff) * 2;
-  const toolPanelWidthCss = `(100vh - ${gapRem * 2}rem)`;
-  
-  const openToolsCount = openTools.length;
-  const closingToolsCount = closingTools.length;
-  const visibleToolsCount = visibleTools.length;
+  const gapPx = remToPx(gapRem);
+  // The scroll container's width minus its padding, and the old fixed `100vh - 2rem` panel width as the default
+  const fullPanelWidthPx = Math.max(minPanelWidthPx, viewportSize - gapPx * 2);
+  const defaultPanelWidthPx = clampPanelWidth(window.innerHeight - gapPx * 2, fullPanelWidthPx);
+  const isStacked = panelPrefs.tiling === 'stacked';
 
-  const openToolsWidth = `calc(${openToolsCount} * (${toolPanelWidthCss} + ${desktopSizeConfig.gapValue}))`;
+  const panelWidthPx = (tabId: string): number => {
+    if (tabId === maximizedPanel || isStacked) return fullPanelWidthPx;
+    if (panelPrefs.tiling === 'side-by-side') return (fullPanelWidthPx - gapPx) / 2;
+    const storedWidth = panelPrefs.widths[tabLayout.tools[tabId]];
+    return storedWidth === undefined ? defaultPanelWidthPx : clampPanelWidth(storedWidth, fullPanelWidthPx);
+  };
+
+  // Stacked panels share one column; otherwise each open panel (or just the maximized one) adds its own width
+  const stripPanels = maximizedPanel && openTools.includes(maximizedPanel) ? [maximizedPanel] : openTools;
+  const openToolsWidthPx = isStacked
+    ? (openTools.length > 0 ? fullPanelWidthPx + gapPx : 0)
+    : stripPanels.reduce((total: number, key: string) => total + panelWidthPx(key) + gapPx, 0);
   const gridContainerWidthRem = gridColumns.length > 0 ? (gridColumns.length * columnWidthRem) + ((gridColumns.length - 1) * gapRem) : 0;
-  const totalContentWidth = `calc(${currentSidebarWidth} + ${desktopSizeConfig.gapValue} + ${openToolsWidth} + ${gridContainerWidthRem}rem)`;
+  const totalContentWidth = `calc(${currentSidebarWidth} + ${desktopSizeConfig.gapValue} + ${openToolsWidthPx}px + ${gridContainerWidthRem}rem)`;
   
-  const allMobileItems = columns.flatMap(c => c.items);
-  const numRows = allMobileItems.length; // Single column layout
+  const numRows = allItems.length; // Single column layout
   const itemHeightRem = parseFloat(mobileSizeConfig.itemHeight);
   const mobileGapRem = parseFloat(mobileSizeConfig.gapValue);
-  const totalGridHeightRem = (numRows * itemHeightRem) + (Math.max(0, numRows - 1) * mobileGapRem);
+  // The active row on mobile is taller; rows after it shift down by the difference
+  const activeRowIndex = allItems.findIndex(item => activeSwitches.has(tabAt(item.key)));
+  const activeRowExtraRem = activeRowIndex === -1 ? 0 : parseFloat(mobileSizeConfig.activeItemHeight) - itemHeightRem;
+  const rowTopRem = (index: number) => index * (itemHeightRem + mobileGapRem) + (activeRowIndex !== -1 && index > activeRowIndex ? activeRowExtraRem : 0);
+  const totalGridHeightRem = (numRows * itemHeightRem) + (Math.max(0, numRows - 1) * mobileGapRem) + activeRowExtraRem;
   const currentSidebarHeight = isSidebarOn ? mobileSizeConfig.sidebarOn : mobileSizeConfig.sidebarOff;
   const totalContentHeight = `calc(${currentSidebarHeight} + ${mobileSizeConfig.gapValue} + ${totalGridHeightRem}rem)`;
   
+  // --- Grid Windowing ---
+  // Only columns (desktop) or rows (mobile) near the viewport are mounted; the rest of the
+  // grid is empty space of the same size, so scroll position and infinite loading are unaffected.
+  const gridPitchPx = remToPx(isMobile ? itemHeightRem + mobileGapRem : columnWidthRem + gapRem);
+  const gridItemCount = isMobile ? allItems.length : gridColumns.length;
+  const firstRenderedIndex = Math.max(0, Math.floor((scrollOffset - gridOffset) / gridPitchPx) - overscanCount);
+  const lastRenderedIndex = Math.min(gridItemCount - 1, Math.ceil((scrollOffset + viewportSize - gridOffset) / gridPitchPx) + overscanCount);
+  const renderedColumns = gridColumns.slice(firstRenderedIndex, lastRenderedIndex + 1);
+  const renderedItems = allItems.slice(firstRenderedIndex, lastRenderedIndex + 1);
+
+  // Re-measured after layout changes (sidebar toggle, panels opening) and when their transitions settle
+  const measureGridOffset = useCallback(() => {
+    const container = scrollContainerRef.current;
+    const grid = gridRef.current;
+    if (!container || !grid) return;
+    const containerRect = container.getBoundingClientRect();
+    const gridRect = grid.getBoundingClientRect();
+    setGridOffset(isMobile
+      ? gridRect.top - containerRect.top + container.scrollTop
+      : isRtl
+        ? containerRect.right - gridRect.right + Math.abs(container.scrollLeft)
+        : gridRect.left - containerRect.left + container.scrollLeft);
+    setViewportSize(isMobile ? container.clientHeight : container.clientWidth);
+  }, [isMobile, isRtl]);
+
+  useLayoutEffect(() => {
+    measureGridOffset();
+  }, [measureGridOffset, isSidebarOn, visibleTools, openTools, panelPrefs, maximizedPanel]);
+
+  useEffect(() => {
+    window.addEventListener('resize', measureGridOffset);
+    return () => window.removeEventListener('resize', measureGridOffset);
+  }, [measureGridOffset]);
+
+  // --- Panel Resizing & Tiling ---
+  // Saved once a drag ends rather than on every pointer move
+  useEffect(() => {
+    if (!resizingPanel) savePanelLayoutPrefs(panelPrefs);
+  }, [panelPrefs, resizingPanel]);
+
+  const setPanelWidth = (tabId: string, width: number | null) => {
+    const toolId = tabLayout.tools[tabId];
+    if (!toolId) return;
+    setPanelPrefs((prev: PanelLayoutPrefs) => {
+      const widths = { ...prev.widths };
+      if (width === null) delete widths[toolId];
+      else widths[toolId] = clampPanelWidth(width, fullPanelWidthPx);
+      return { ...prev, widths };
+    });
+  };
+
+  const startPanelResize = (e: React.PointerEvent, tabId: string) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = panelWidthPx(tabId);
+    setResizingPanel(tabId);
+    // Splitters sit after their panel, which is to its left in right-to-left layouts
+    const direction = isRtl ? -1 : 1;
+    const handlePointerMove = (moveEvent: PointerEvent) => setPanelWidth(tabId, startWidth + (moveEvent.clientX - startX) * direction);
+    const handlePointerUp = () => {
+      setResizingPanel(null);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+  };
+
+  const handleSplitterKeyDown = (e: React.KeyboardEvent, tabId: string) => {
+    const step = e.shiftKey ? 128 : 32;
+    const width = panelWidthPx(tabId);
+    const grow = isRtl ? 'ArrowLeft' : 'ArrowRight';
+    const shrink = isRtl ? 'ArrowRight' : 'ArrowLeft';
+    const targets: Record<string, number> = { [shrink]: width - step, [grow]: width + step, Home: minPanelWidthPx, End: fullPanelWidthPx };
+    if (targets[e.key] === undefined) return;
+    e.preventDefault();
+    setPanelWidth(tabId, targets[e.key]);
+  };
+
+  const toggleMaximizePanel = (tabId: string) => {
+    setMaximizedPanel((current: string | null) => (current === tabId ? null : tabId));
+    scrollToToolPanel(tabId);
+  };
+
+  const setPanelTiling = (tiling: PanelTiling) => {
+    setPanelPrefs((prev: PanelLayoutPrefs) => ({ ...prev, tiling }));
+    setMaximizedPanel(null);
+    if (openTools.length > 0) scrollToToolPanel(openTools[0]);
+  };
+
   const primaryButtonTextColor = getContrastingTextColor(baseColor);
+
+  // --- Tab Drag & Drop ---
+  // Dropping a tab on another slot swaps the two. The active (expanded) tab isn't
+  // draggable so its note editor and Open button behave normally.
+  const tabDragProps = (slotKey: string, isCurrentlyActive: boolean) => ({
+    draggable: !isCurrentlyActive,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData(tabDragType, slotKey);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!Array.from(e.dataTransfer.types).includes(tabDragType)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dragOverSlot !== slotKey) setDragOverSlot(slotKey);
+    },
+    onDragLeave: () => setDragOverSlot((current: string | null) => (current === slotKey ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDragOverSlot(null);
+      const sourceSlot = e.dataTransfer.getData(tabDragType);
+      if (sourceSlot && sourceSlot !== slotKey) {
+        setTabLayout((layout: TabLayout) => swapSlots(layout, sourceSlot, slotKey));
+      }
+    },
+    onDragEnd: () => setDragOverSlot(null),
+  });
+
+  // Falls back to the first rendered tab when the focused one has been scrolled out of the DOM
+  const renderedSlotKeys = (isMobile ? renderedItems : renderedColumns.flatMap(column => column.items))
+    .map(item => item.key)
+    .filter(slotKey => !isSlotHidden(slotKey));
+  const rovingSlot = renderedSlotKeys.includes(focusedSlot) ? focusedSlot : renderedSlotKeys[0];
+
+  // --- Tab Cells ---
+  // A cell holds a full-size toggle button with only passive content inside. The Open
+  // button, a collapsed note's preview and the note editor of an expanded tab are siblings
+  // of the toggle, not children.
+  const renderTabCell = (slotKey: string, tabId: string, isHidden: boolean) => {
+    const isCurrentlyActive = activeSwitches.has(tabId);
+    const slotLabel = slotNumberOfKey(slotKey).toString().padStart(2, '0');
+    const currentToolInfo = toolForTab(tabId);
+    const isToolTab = !!currentToolInfo;
+    const tabTitle = toolTabTitle(tabId);
+    const note = noteStates[tabId];
+    const isEditingNote = !isToolTab && isCurrentlyActive;
+
+    const tabTextColor = getContrastingTextColor(isCurrentlyActive ? baseColor : theme.surface);
+    const noteTextColor = getContrastingTextColor(isCurrentlyActive ? baseColor : note?.color ?? defaultNoteColor);
+    const baseTextColorStyle = isToolTab || isCurrentlyActive ? { color: tabTextColor } : {};
+    const textColorClass = isToolTab ? '' : 'text-black/30';
+    const separatorColor = isToolTab ? (tabTextColor === '#FFFFFF' ? 'bg-white/30' : 'bg-black/20') : 'bg-black/10';
+    const contentStyle = isCurrentlyActive ? { ...baseTextColorStyle, paddingBottom: '20%' } : baseTextColorStyle;
+    const text = isMobile
+      ? { padding: 'px-4', title: 'text-2xl', noteTitle: 'text-lg', noteBody: 'text-sm' }
+      : { padding: 'px-16', title: 'text-3xl', noteTitle: 'text-xl', noteBody: 'text-base' };
+
+    return (
+      <>
+        <button
+          ref={el => { itemRefs.current.set(slotKey, el); }}
+          onClick={() => handleTabClick(tabId)}
+          onKeyDown={(e) => handleTabKeyDown(e, slotKey, tabId)}
+          onFocus={() => setFocusedSlot(slotKey)}
+          tabIndex={!isHidden && slotKey === rovingSlot ? 0 : -1}
+          aria-pressed={isCurrentlyActive}
+          aria-label={isToolTab ? `${slotLabel}# ${tabTitle}` : note?.title ? t('tab.noteLabelWithTitle', { number: slotLabel, title: note.title }) : t('note.untitled', { number: slotLabel })}
+          aria-describedby="tab-grid-hint"
+          className="absolute inset-0 w-full h-full flex justify-center items-center rounded-xl focus:outline-none"
+        >
+          <span className="absolute top-2 end-3 text-xs font-mono text-black">{slotLabel}#</span>
+          {isToolTab && (
+            <span className={`flex flex-col items-center justify-center w-full h-full ${text.padding} py-4 text-center transition-all duration-500 ${textColorClass}`} style={contentStyle}>
+              <span className={`font-bold ${text.title}`}>{tabTitle}</span>
+              <span className={`block w-full h-[1.5px] my-2 transition-colors duration-500 ${separatorColor}`}></span>
+              <span className="font-mono text-xl">{t(currentToolInfo.description)}</span>
+            </span>
+          )}
+        </button>
+        {!isToolTab && !isEditingNote && hasNoteContent(note) && (
+          // Laid over the toggle rather than inside it, so checklist items can be ticked without
+          // opening the note; everything else lets clicks through to the toggle
+          <div className="absolute inset-0 p-4 overflow-hidden text-start pointer-events-none" style={{ color: noteTextColor }}>
+            <div className="flex items-center gap-3 mb-2 empty:hidden">
+              {note.pinned && <span role="img" aria-label={t('note.pinned')} className="text-xs">📌</span>}
+              <ChecklistStatus
+                body={note.body}
+                hideCompleted={!!note.hideCompleted}
+                onHideCompletedChange={(hideCompleted) => setNoteHidesCompleted(tabId, hideCompleted)}
+                className="pointer-events-auto"
+              />
+            </div>
+            {note.title && <p className={`font-bold whitespace-pre-wrap break-words mb-2 ${text.noteTitle}`}>{note.title}</p>}
+            {note.tags && note.tags.length > 0 && (
+              <p className="flex flex-wrap gap-x-2 mb-2 text-xs font-mono opacity-70">
+                {note.tags.map(tag => <span key={tag}>#{tag}</span>)}
+              </p>
+            )}
+            {note.body && (
+              <MarkdownView
+                source={note.body}
+                textColor={noteTextColor}
+                passive
+                hideCompleted={note.hideCompleted}
+                onToggleItem={(line) => updateNoteState(tabId, { ...note, body: toggleChecklistItem(note.body, line) })}
+                onMoveItem={(from, to) => updateNoteState(tabId, { ...note, body: moveChecklistItem(note.body, from, to) })}
+                className={text.noteBody}
+              />
+            )}
+          </div>
+        )}
+        {isToolTab && (
+          <button
+            onClick={() => handleOpenTool(tabId)}
+            tabIndex={isCurrentlyActive && !isHidden ? 0 : -1}
+            aria-hidden={!isCurrentlyActive}
+            className={`absolute bottom-0 left-0 right-0 h-1/5 bg-white flex items-center justify-center transition-all duration-500 ease-in-out focus:outline-none focus-visible:underline ${isCurrentlyActive ? 'translate-y-0 opacity-100' : 'translate-y-full opacity-0 pointer-events-none'}`}
+            aria-label={t('tab.openLabel', { title: tabTitle })}
+          >
+            <span className="text-black font-bold text-lg">{t('tab.open')}</span>
+          </button>
+        )}
+        {isEditingNote && (
+          <div className="absolute inset-0">
+            <QuickNote
+              value={note || { title: '', body: '' }}
+              onChange={(newNote) => updateNoteState(tabId, newNote)}
+              textColor={noteTextColor}
+              onHideCompletedChange={(hideCompleted) => setNoteHidesCompleted(tabId, hideCompleted)}
+              onShowHistory={() => setHistoryNoteTab(tabId)}
+            />
+            <button
+              onClick={() => handleTabClick(tabId)}
+              className="absolute top-2 end-3 text-xs font-mono text-black hover:underline focus:outline-none focus-visible:underline"
+              aria-label={t('tab.collapseNote', { number: slotLabel })}
+            >
+              {t('tab.done', { number: slotLabel })}
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const fileChoice = pendingFileChoices[0];
+  const fileChoiceTool = fileChoice ? getToolDefinition(fileChoice.toolId) : undefined;
+  const fileDestinations: FileDestination[] = fileChoice && fileChoiceTool ? [
+    ...getToolInstanceIds(tabLayout, fileChoice.toolId).map(tabId => ({
+      id: tabId,
+      label: toolTabTitle(tabId),
+      detail: t(openTools.includes(tabId) ? 'fileChooser.openTab' : 'tab.slot', { number: slotNumberOfTab(tabId).toString().padStart(2, '0') }),
+    })),
+    { id: newInstanceDestination, label: t('fileChooser.newInstance', { tool: t(fileChoiceTool.title) }) },
+  ] : [];
+  const fileDropTools = (toolRegistry as ToolDefinition<ToolState>[]).filter(tool => tool.acceptFiles);
+
+  const renderToolComponent = (key: string, tool: RegisteredTool) => {
+    const ToolComponent = (tool as ToolDefinition<ToolState>).component;
+    const generation = workspaceGenerationRef.current;
+    const handleChangeState = (newState: ToolStateUpdate<ToolState>) => {
+      if (generation !== workspaceGenerationRef.current) return;
+      updateToolState(key, typeof newState === 'function'
+        ? (state: Partial<ToolState>) => ({ ...newState(state), type: tool.id } as Partial<ToolState>)
+        : { ...newState, type: tool.id } as Partial<ToolState>);
+    };
+    return (
+      <ToolComponent
+        key={panelRevisions[key] ?? 0}
+        state={toolStates[key]}
+        onChangeState={handleChangeState}
+        accentColor={baseColor}
+        primaryButtonTextColor={primaryButtonTextColor}
+        handoffTargets={getHandoffTargets(t).filter(target => target.id !== tool.id)}
+        onHandoff={handleHandoff}
+        jobs={jobRunnerFor(key)}
+      />
+    );
+  };
   
   return (
-    <div className="h-screen w-screen bg-black text-white overflow-hidden">
+    <div {...fileDropProps} className="h-screen w-screen text-white overflow-hidden transition-colors duration-500" style={{ backgroundColor: theme.background }}>
+      <input type="file" accept=".zip,application/zip" ref={importInputRef} onChange={handleImportWorkspace} className="hidden" />
+      <input type="file" accept=".md,.markdown,.txt,.zip,text/markdown,text/plain,application/zip" multiple ref={notesImportInputRef} onChange={handleImportNotes} className="hidden" />
+      {isPaletteOpen && (
+        <CommandPalette
+          commands={buildPaletteCommands()}
+          onClose={() => setIsPaletteOpen(false)}
+          accentColor={baseColor}
+          primaryButtonTextColor={primaryButtonTextColor}
+        />
+      )}
+      {isThemeEditorOpen && (
+        <ThemeEditor
+          theme={theme}
+          onChange={setTheme}
+          savedThemes={savedThemes}
+          onSaveTheme={handleSaveTheme}
+          onDeleteTheme={handleDeleteTheme}
+          onClose={() => setIsThemeEditorOpen(false)}
+        />
+      )}
+      {isNotesIndexOpen && (
+        <NotesIndex
+          notes={noteEntries}
+          untitledLabel={untitledNoteName}
+          onSelect={focusTab}
+          onExportNote={handleExportNote}
+          onExportAll={handleExportNotes}
+          onImport={() => notesImportInputRef.current?.click()}
+          onClose={() => setIsNotesIndexOpen(false)}
+        />
+      )}
+      {historyNoteTab !== null && (
+        <NoteHistory
+          name={noteStates[historyNoteTab]?.title || untitledNoteName(historyNoteTab)}
+          note={noteStates[historyNoteTab] ?? { title: '', body: '' }}
+          revisions={noteRevisions[historyNoteTab] ?? []}
+          prefs={noteHistoryPrefs}
+          onPrefsChange={handleNoteHistoryPrefsChange}
+          onRestore={(revision) => handleRestoreRevision(historyNoteTab, revision)}
+          onClose={() => setHistoryNoteTab(null)}
+        />
+      )}
+      {fileChoice && (
+        <FileDestinationChooser
+          fileSummary={describeFiles(fileChoice.files, t)}
+          destinations={fileDestinations}
+          onChoose={resolveFileChoice}
+          onCancel={() => resolveFileChoice(null)}
+        />
+      )}
+      <JobToasts toasts={jobToasts} onShow={handleShowJobTool} onDismiss={dismissJobToast} />
+      {isFileDragActive && (
+        // Doesn't take pointer events, so the drop still lands on (and bubbles from) the app below
+        <div className="fixed inset-0 z-[55] bg-black/60 flex items-center justify-center p-4 pointer-events-none">
+          <div className="border-4 border-dashed border-white rounded-2xl px-10 py-8 text-center">
+            <p className="text-2xl font-bold">{t('drop.title')}</p>
+            <ul className="mt-3 text-white/80 font-mono text-sm">
+              {fileDropTools.map(tool => (
+                <li key={tool.id}>{(tool.fileTypes ?? []).join(', ')} → {t(tool.title)}</li>
+              ))}
+              <li>{t('drop.notes')}</li>
+            </ul>
+          </div>
+        </div>
+      )}
+      {capturingShortcutFor && (
+        <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center" onClick={() => setCapturingShortcutFor(null)}>
+          <div className="bg-white text-black rounded-xl shadow-2xl p-6 text-center">
+            <p className="font-bold text-lg">{t('shortcut.prompt')}</p>
+            <p className="text-sm text-black/70 mt-1">{t('shortcut.cancelHint')}</p>
+          </div>
+        </div>
+      )}
       {contextMenu.visible && (
         <div style={{ top: contextMenu.y, left: contextMenu.x }} className="fixed z-50 bg-gray-800 border border-gray-600 rounded-md shadow-lg p-2">
           <ul className="flex flex-col gap-1">
-            {colorOptions.map(color => (
-              <li key={color.name}>
-                <button onClick={() => handleColorSelect(color.hex)} className="w-full text-left px-3 py-1 rounded text-white hover:bg-gray-700 flex items-center gap-3">
-                  <span className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: color.hex }}></span>
-                  {color.name}
+            {[...presetThemes, ...savedThemes].map((option, index) => (
+              <li key={`${index}-${option.name}`}>
+                <button onClick={() => handleThemeSelect(option)} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700 flex items-center gap-3">
+                  <span className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: option.accent }}></span>
+                  {option.name}
                 </button>
               </li>
             ))}
+            <li>
+              <button onClick={() => { setContextMenu({ ...contextMenu, visible: false }); setIsNotesIndexOpen(true); }} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700">
+                {t('menu.notesIndex')}
+              </button>
+            </li>
+            <li>
+              <button onClick={() => { setContextMenu({ ...contextMenu, visible: false }); setIsThemeEditorOpen(true); }} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700">
+                {t('menu.editTheme')}
+              </button>
+            </li>
           </ul>
+          <div className="h-px bg-gray-600 my-2"></div>
+          <button onClick={handleExportWorkspace} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700">
+            {t('menu.exportWorkspace')}
+          </button>
+          <button onClick={() => { setContextMenu({ ...contextMenu, visible: false }); importInputRef.current?.click(); }} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700">
+            {t('menu.importWorkspace')}
+          </button>
+          <button onClick={handleExportNotes} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700">
+            {t('menu.exportNotes')}
+          </button>
+          <button onClick={() => { setContextMenu({ ...contextMenu, visible: false }); notesImportInputRef.current?.click(); }} className="w-full text-start px-3 py-1 rounded text-white hover:bg-gray-700">
+            {t('menu.importNotes')}
+          </button>
+          <button onClick={handleClearWorkspace} className="w-full text-start px-3 py-1 rounded text-red-400 hover:bg-gray-700">
+            {t('menu.clearWorkspace')}
+          </button>
         </div>
       )}
-      <button onClick={handleStarButtonPress} className="fixed bottom-4 left-4 sm:bottom-8 sm:left-8 z-50 p-4 bg-black rounded-full text-white hover:bg-gray-800 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-black focus:ring-white" aria-label="Scroll to start">
-        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="h-8 w-8 sm:h-10 sm:w-10" style={{ transform: `rotate(${gearRotation}deg)` }}>
+      <button onClick={handleStarButtonPress} className="fixed bottom-4 start-4 sm:bottom-8 sm:start-8 z-50 p-4 bg-black rounded-full text-white hover:bg-gray-800 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-black focus:ring-white" aria-label={t('app.scrollToStart')}>
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="h-8 w-8 sm:h-10 sm:w-10" style={{ transform: `rotate(${scrollOffset / 5}deg)` }}>
           <path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z" />
         </svg>
       </button>
 
+      <p id="tab-grid-hint" className="sr-only">{t('app.gridHint')}</p>
       <div ref={scrollContainerRef} className={`h-full w-full p-4 hide-scrollbar ${isMobile ? 'overflow-y-auto' : 'overflow-x-auto cursor-grab'}`}>
         <div className={`relative ${isMobile ? 'w-full' : 'h-full'}`} style={isMobile ? { height: totalContentHeight } : { width: totalContentWidth }}>
-          <div ref={mainContentRef} className={`relative z-10 w-full h-full ${isMobile ? 'flex flex-col' : 'flex'} ${gapClass}`}>
-            <button
-              ref={el => { itemRefs.current.set('sidebar', el); }}
-              onClick={() => handleTabClick('sidebar')}
+          <div ref={mainContentRef} onTransitionEnd={measureGridOffset} className={`relative z-10 w-full h-full ${isMobile ? 'flex flex-col' : 'flex'} ${gapClass}`}>
+            <div
               onContextMenu={handleContextMenu}
               style={isMobile ? { height: currentSidebarHeight, flexShrink: 0, ...(!isSidebarOn && { backgroundColor: baseColor }) } : { width: currentSidebarWidth, flexShrink: 0, ...(!isSidebarOn && { backgroundColor: baseColor })}}
-              className={`relative flex justify-center p-4 shadow-lg transition-all duration-500 ease-in-out rounded-xl focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 ${isSidebarOn ? 'items-start bg-red-500 focus:ring-red-400' : 'items-center focus:ring-white'}`}
-              role="switch"
-              aria-checked={isSidebarOn}
-              aria-label="Side bar"
+              className={`relative flex justify-center shadow-lg transition-all duration-500 ease-in-out rounded-xl focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-gray-900 ${isSidebarOn ? 'items-start p-4 bg-red-500 focus-within:ring-red-400' : 'items-center focus-within:ring-white'}`}
             >
               {isSidebarOn ? (
                 <>
-                  <button onClick={(e) => { e.stopPropagation(); handleTabClick('sidebar'); }} className="absolute top-4 right-4 p-2 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white z-20" aria-label="Close Side bar">
+                  <div
+                    id="sidebar-content"
+                    ref={sidebarContentRef}
+                    tabIndex={-1}
+                    role="region"
+                    aria-label={t('app.sidebar')}
+                    className="w-full h-full flex flex-col gap-6 overflow-y-auto custom-scrollbar pe-12 focus:outline-none"
+                  >
+                    <WorkspaceSwitcher
+                      workspaces={namedWorkspaces}
+                      activeId={workspaceIndex.activeId}
+                      onSwitch={handleSwitchWorkspace}
+                      onCreate={handleCreateWorkspace}
+                      onRename={handleRenameWorkspace}
+                      onDuplicate={handleDuplicateWorkspace}
+                      onDelete={handleDeleteWorkspace}
+                    />
+                    <LanguagePicker />
+                    <ActivityDashboard
+                      openTools={dashboardTools}
+                      recentNotes={dashboardNotes}
+                      outputs={dashboardOutputs.slice(0, dashboardOutputLimit)}
+                      jobs={dashboardJobs}
+                      onSelectTool={showToolPanel}
+                      onSelectNote={focusTab}
+                      onShowAllNotes={() => setIsNotesIndexOpen(true)}
+                      onCancelJob={handleCancelJob}
+                      onRetryJob={handleRetryJob}
+                      onRetryFailure={handleRetryJobFailure}
+                      onDismissJob={handleDismissJob}
+                    />
+                  </div>
+                  <button onClick={toggleSidebar} className="absolute top-4 end-4 p-2 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white z-20" aria-label={t('app.closeSidebar')} aria-controls="sidebar-content" aria-expanded={true}>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
                     </svg>
                   </button>
                 </>
               ) : (
-                <span className="text-black font-mono text-xl font-bold">Side bar</span>
+                <button
+                  ref={el => { itemRefs.current.set('sidebar', el); }}
+                  onClick={toggleSidebar}
+                  className="w-full h-full p-4 flex flex-col justify-center items-center rounded-xl text-black font-mono focus:outline-none"
+                  aria-expanded={false}
+                  aria-label={t('app.openSidebar', { name: activeWorkspaceName })}
+                >
+                  <span className="text-xl font-bold">{t('app.sidebar')}</span>
+                  <span className="text-sm opacity-70 truncate max-w-full">{activeWorkspaceName}</span>
+                </button>
               )}
-            </button>
+            </div>
 
             {isMobile ? (
               // --- MOBILE LAYOUT ---
               visibleTools.length > 0 ? (
                 // --- MOBILE: TOOL VIEW ---
                 visibleTools.map(itemKey => {
-                  const item = allItems.find(i => i.key === itemKey);
-                  if (!item) return null;
-
                   const isVisible = openTools.includes(itemKey);
-                  const pos = parseKey(item.key);
-                  const switchNumber = pos ? (pos.col * itemsPerColumn + pos.row + 1) : 0;
-                  const currentToolInfo = toolInfo[switchNumber];
+                  const switchNumber = slotNumberOfTab(itemKey);
+                  const currentToolInfo = toolForTab(itemKey);
                   const isToolTab = !!currentToolInfo;
 
-                  const baseToolTitle = isToolTab ? (currentToolInfo.title) : `Tab ${switchNumber.toString().padStart(2, '0')}`;
-                  const prefixedToolTitle = `${switchNumber.toString().padStart(2, '0')}# ${baseToolTitle}`;
-                  const toolDescription = isToolTab ? currentToolInfo.description : null;
+                  const baseToolTitle = isToolTab ? toolTabTitle(itemKey) : t('tab.slot', { number: switchNumber.toString().padStart(2, '0') });
+                  const prefixedToolTitle = `${switchNumber.toString().padStart(2, '0')}# ${isToolTab ? t(currentToolInfo.title) : baseToolTitle}`;
+                  const toolDescription = isToolTab ? t(currentToolInfo.description) : null;
 
                   return (
                     <div
                       key={`tool-wrapper-${itemKey}`}
+                      ref={el => { toolPanelRefs.current.set(itemKey, el); }}
+                      tabIndex={-1}
+                      role="region"
+                      aria-label={baseToolTitle}
                       style={{
                         height: isVisible ? '80vh' : '0px',
                         transition: 'height 500ms ease-in-out',
                         flexShrink: 0,
                       }}
-                      className="w-full overflow-hidden"
+                      className="w-full overflow-hidden focus:outline-none"
                     >
                       <div
                         style={{
@@ -477,22 +2049,23 @@ const App: React.FC = () => {
                         className="h-full w-full bg-white rounded-xl p-4 flex flex-col items-start gap-4 shadow-2xl"
                       >
                         <div className="flex justify-between items-start w-full flex-shrink-0">
-                          <div>
+                          <div className="min-w-0 flex-grow">
                             <h2 className="text-black font-mono text-xl font-bold">{prefixedToolTitle}</h2>
                             {toolDescription && <p className="text-black/70 text-sm mt-1">{toolDescription}</p>}
+                            {isToolTab && renderInstanceLabel(itemKey)}
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0 ms-2">
+                            {isToolTab && renderInstanceActions(itemKey, currentToolInfo)}
+                            <button onClick={() => handleCloseTool(itemKey)} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white flex-shrink-0" aria-label={t('panel.closeLabel', { title: baseToolTitle })}>
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            </button>
                           </div>
-                          <button onClick={() => handleCloseTool(item.key)} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white flex-shrink-0" aria-label={`Close ${baseToolTitle}`}>
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
-                            </svg>
-                          </button>
                         </div>
                         <div className="w-full h-[1.5px] bg-black bg-opacity-30 flex-shrink-0"></div>
                         <div className="w-full flex-grow relative min-h-0">
-                          {switchNumber === 1 && <BatchImageResizer state={toolStates[item.key] as BatchImageResizerState | undefined} onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'image-resizer' })} accentColor={baseColor} primaryButtonTextColor={primaryButtonTextColor} />}
-                          {switchNumber === 2 && <VideoFrameExtractor state={toolStates[item.key] as VideoFrameExtractorState | undefined} onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'video-extractor' })} accentColor={baseColor} primaryButtonTextColor={primaryButtonTextColor} />}
-                          {switchNumber === 3 && <GitManager state={toolStates[item.key] as GitManagerState | undefined} onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'git-manager' })} accentColor={baseColor} primaryButtonTextColor={primaryButtonTextColor} />}
-                          {switchNumber === 4 && <ScreenSizeChecker state={toolStates[item.key] as ScreenSizeCheckerState | undefined} onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'screen-size-checker' })} accentColor={baseColor} primaryButtonTextColor={primaryButtonTextColor} />}
+                          {isToolTab && renderToolComponent(itemKey, currentToolInfo)}
                         </div>
                       </div>
                     </div>
@@ -500,78 +2073,27 @@ const App: React.FC = () => {
                 })
               ) : (
                 // --- MOBILE: TAB LIST VIEW ---
-                <div className={`flex flex-col ${gapClass} flex-grow`}>
-                  {allItems.map((item) => {
-                    const isCurrentlyActive = activeSwitches.has(item.key);
-                    const pos = parseKey(item.key);
-                    const switchNumber = pos ? (pos.col * itemsPerColumn + pos.row + 1) : 0;
-                    const currentToolInfo = toolInfo[switchNumber];
-                    const isToolTab = !!currentToolInfo;
-                    
-                    const tabTitle = currentToolInfo?.title ?? '';
-                    const tabDescription = currentToolInfo?.description ?? null;
-                    
-                    const colors = tabColors[item.key];
-                    
-                    let backgroundColor;
-                    if (isCurrentlyActive) {
-                        backgroundColor = baseColor;
-                    } else {
-                        backgroundColor = isToolTab ? colors?.inactive : '#FFFFFF';
-                    }
-
-                    const baseTextColorStyle = isCurrentlyActive ? { color: getContrastingTextColor(baseColor) } : {};
-                    const textColorClass = isToolTab ? (isCurrentlyActive ? '' : 'text-black') : 'text-black/30';
-                    const separatorColor = isToolTab && isCurrentlyActive ? (getContrastingTextColor(baseColor) === '#FFFFFF' ? 'bg-white/30' : 'bg-black/20') : isToolTab ? 'bg-black/20' : 'bg-black/10';
-                    
-                    const contentStyle = isCurrentlyActive ? { ...baseTextColorStyle, paddingBottom: '20%'} : baseTextColorStyle;
+                <div ref={gridRef} role="group" aria-label={t('app.tabs')} className="relative w-full flex-shrink-0" style={{ height: `${totalGridHeightRem}rem` }}>
+                  {renderedItems.map((item, renderedIndex) => {
+                    const rowIndex = firstRenderedIndex + renderedIndex;
+                    const tabId = tabAt(item.key);
+                    const isCurrentlyActive = activeSwitches.has(tabId);
+                    const isToolTab = !!toolForTab(tabId);
+                    const backgroundColor = isCurrentlyActive ? baseColor : (isToolTab ? tabColors?.inactive : noteStates[tabId]?.color ?? defaultNoteColor);
 
                     return (
-                      <button
+                      <div
                         key={item.key}
-                        ref={el => { itemRefs.current.set(item.key, el); }}
-                        onClick={() => handleTabClick(item.key)}
-                        style={{ backgroundColor: backgroundColor || '#FFFFFF', minHeight: mobileSizeConfig.itemHeight }}
-                        className={`flex justify-center items-center relative z-10 rounded-xl shadow-lg transition-all duration-500 ease-in-out transform hover:scale-105 hover:shadow-2xl focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-900 overflow-hidden`}
-                        role="switch"
-                        aria-checked={isCurrentlyActive}
-                        aria-label={isToolTab ? tabTitle : `Note Tab #${switchNumber}`}
+                        {...tabDragProps(item.key, isCurrentlyActive)}
+                        style={{
+                          backgroundColor: backgroundColor || '#FFFFFF',
+                          top: `${rowTopRem(rowIndex)}rem`,
+                          height: isCurrentlyActive ? mobileSizeConfig.activeItemHeight : mobileSizeConfig.itemHeight,
+                        }}
+                        className={`absolute inset-x-0 z-10 rounded-xl shadow-lg transition-all duration-500 ease-in-out transform hover:scale-105 hover:shadow-2xl focus-within:ring-2 focus-within:ring-white focus-within:ring-offset-2 focus-within:ring-offset-gray-900 overflow-hidden ${dragOverSlot === item.key ? 'ring-4 ring-white' : ''}`}
                       >
-                        <span className="absolute top-2 right-3 text-xs font-mono text-black">{switchNumber.toString().padStart(2, '0')}#</span>
-                        {isToolTab ? (
-                          <div className={`flex flex-col items-center justify-center px-4 py-4 text-center transition-all duration-500 ${textColorClass}`} style={contentStyle}>
-                            <h3 className="font-bold text-2xl">{tabTitle}</h3>
-                            <div className={`w-full h-[1.5px] my-2 transition-colors duration-500 ${separatorColor}`}></div>
-                            <p className={`text-xl font-mono`}>{tabDescription}</p>
-                            <div
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleOpenTool(item.key);
-                              }}
-                              className={`absolute bottom-0 left-0 right-0 h-1/5 bg-white flex items-center justify-center transition-all duration-500 ease-in-out cursor-pointer ${isCurrentlyActive ? 'translate-y-0 opacity-100' : 'translate-y-full opacity-0'}`}
-                             >
-                                <span className="text-black font-bold text-lg">Open</span>
-                            </div>
-                          </div>
-                        ) : (
-                           isCurrentlyActive ? (
-                                <QuickNote
-                                    value={noteStates[item.key] || { title: '', body: '' }}
-                                    onChange={(newNote) => updateNoteState(item.key, newNote)}
-                                    textColor={getContrastingTextColor(baseColor)}
-                                />
-                           ) : (
-                                noteStates[item.key] && (noteStates[item.key].title || noteStates[item.key].body) && (
-                                    <div className="w-full h-full p-4 overflow-y-auto text-left custom-scrollbar">
-                                        {noteStates[item.key].title && <h4 className="text-black font-bold whitespace-pre-wrap break-words text-lg mb-2">{noteStates[item.key].title}</h4>}
-                                        {noteStates[item.key].body && <p className="text-black whitespace-pre-wrap break-words text-sm">
-                                            {noteStates[item.key].body}
-                                        </p>}
-                                    </div>
-                                )
-                           )
-                        )}
-                      </button>
+                        {renderTabCell(item.key, tabId, false)}
+                      </div>
                     );
                   })}
                 </div>
@@ -579,29 +2101,37 @@ const App: React.FC = () => {
             ) : (
               // --- DESKTOP LAYOUT ---
               <>
+                {/* Stacked panels share a column; otherwise the panels are direct items of the strip */}
+                <div className={isStacked ? (visibleTools.length > 0 ? 'h-full flex flex-col gap-4 flex-shrink-0' : 'hidden') : 'contents'} style={isStacked ? { width: openTools.length > 0 ? fullPanelWidthPx : 0, transition: 'width 500ms ease-in-out' } : undefined}>
                 {visibleTools.map(itemKey => {
-                  const item = allItems.find(i => i.key === itemKey);
-                  if (!item) return null;
-
                   const isVisible = openTools.includes(itemKey);
-                  const pos = parseKey(item.key);
-                  const switchNumber = pos ? (pos.col * itemsPerColumn + pos.row + 1) : 0;
-                  const currentToolInfo = toolInfo[switchNumber];
+                  const switchNumber = slotNumberOfTab(itemKey);
+                  const currentToolInfo = toolForTab(itemKey);
                   const isToolTab = !!currentToolInfo;
 
-                  const baseToolTitle = isToolTab ? (currentToolInfo.title) : `Tab ${switchNumber.toString().padStart(2, '0')}`;
-                  const prefixedToolTitle = `${switchNumber.toString().padStart(2, '0')}# ${baseToolTitle}`;
-                  const toolDescription = isToolTab ? currentToolInfo.description : null;
+                  const baseToolTitle = isToolTab ? toolTabTitle(itemKey) : t('tab.slot', { number: switchNumber.toString().padStart(2, '0') });
+                  const prefixedToolTitle = `${switchNumber.toString().padStart(2, '0')}# ${isToolTab ? t(currentToolInfo.title) : baseToolTitle}`;
+                  const toolDescription = isToolTab ? t(currentToolInfo.description) : null;
+                  const isMaximized = itemKey === maximizedPanel;
+                  const isHiddenByMaximized = !!maximizedPanel && !isMaximized;
+                  const width = panelWidthPx(itemKey);
+                  const canResize = isToolTab && isVisible && !maximizedPanel && panelPrefs.tiling === 'strip';
+                  const easing = resizingPanel === itemKey ? 'none' : '500ms ease-in-out';
 
                   return (
                     <div
                       key={`tool-wrapper-${itemKey}`}
+                      ref={el => { toolPanelRefs.current.set(itemKey, el); }}
+                      tabIndex={-1}
+                      role="region"
+                      aria-label={baseToolTitle}
                       style={{
-                        width: isVisible ? `calc(${toolPanelWidthCss})` : '0px',
-                        transition: 'width 500ms ease-in-out',
-                        flexShrink: 0,
+                        ...(isStacked
+                          ? { flexGrow: isVisible ? 1 : 0, flexBasis: 0, minHeight: 0, transition: `flex-grow ${easing}` }
+                          : { width: isVisible ? `${width}px` : '0px', flexShrink: 0, transition: `width ${easing}` }),
+                        ...(isHiddenByMaximized && { display: 'none' }),
                       }}
-                      className="h-full"
+                      className={`relative focus:outline-none ${isStacked ? 'w-full' : 'h-full'}`}
                     >
                       <div
                         style={{
@@ -612,154 +2142,107 @@ const App: React.FC = () => {
                         className="h-full w-full bg-white rounded-xl p-4 flex flex-col items-start gap-4 shadow-2xl"
                       >
                           <div className="flex justify-between items-start w-full flex-shrink-0">
-                            <div>
+                            <div className="min-w-0 flex-grow">
                                 <h2 className="text-black font-mono text-xl font-bold">{prefixedToolTitle}</h2>
                                 {toolDescription && <p className="text-black/70 text-sm mt-1">{toolDescription}</p>}
+                                {isToolTab && renderInstanceLabel(itemKey)}
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0 ms-2">
+                              {isToolTab && renderInstanceActions(itemKey, currentToolInfo)}
+                              <button
+                                onClick={() => toggleMaximizePanel(itemKey)}
+                                className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white flex-shrink-0"
+                                aria-label={t(isMaximized ? 'panel.restoreLabel' : 'panel.maximizeLabel', { title: baseToolTitle })}
+                                aria-pressed={isMaximized}
+                                title={isMaximized ? t('panel.restore') : t('panel.maximize')}
+                              >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  {isMaximized ? (
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M9 4v5H4m11-5v5h5M9 20v-5H4m11 5v-5h5" />
+                                  ) : (
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 9V4h5m6 0h5v5M4 15v5h5m6 0h5v-5" />
+                                  )}
+                                </svg>
+                              </button>
+                              <button onClick={() => handleCloseTool(itemKey)} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white flex-shrink-0" aria-label={t('panel.closeLabel', { title: baseToolTitle })}>
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              </button>
                             </div>
-                            <button onClick={() => handleCloseTool(item.key)} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white flex-shrink-0" aria-label={`Close ${baseToolTitle}`}>
-                              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
-                              </svg>
-                            </button>
                           </div>
                           <div className="w-full h-[1.5px] bg-black bg-opacity-30 flex-shrink-0"></div>
                           <div className="w-full flex-grow relative min-h-0">
-                             {switchNumber === 1 && (
-                                <BatchImageResizer 
-                                    state={toolStates[item.key] as BatchImageResizerState | undefined}
-                                    onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'image-resizer'})}
-                                    accentColor={baseColor}
-                                    primaryButtonTextColor={primaryButtonTextColor}
-                                />
-                             )}
-                             {switchNumber === 2 && (
-                                <VideoFrameExtractor
-                                    state={toolStates[item.key] as VideoFrameExtractorState | undefined}
-                                    onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'video-extractor'})}
-                                    accentColor={baseColor}
-                                    primaryButtonTextColor={primaryButtonTextColor}
-                                />
-                             )}
-                             {switchNumber === 3 && (
-                                <GitManager
-                                    state={toolStates[item.key] as GitManagerState | undefined}
-                                    onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'git-manager'})}
-                                    accentColor={baseColor}
-                                    primaryButtonTextColor={primaryButtonTextColor}
-                                />
-                             )}
-                             {switchNumber === 4 && (
-                                <ScreenSizeChecker
-                                    state={toolStates[item.key] as ScreenSizeCheckerState | undefined}
-                                    onChangeState={(newState) => updateToolState(item.key, { ...newState, type: 'screen-size-checker'})}
-                                    accentColor={baseColor}
-                                    primaryButtonTextColor={primaryButtonTextColor}
-                                />
-                             )}
+                             {isToolTab && renderToolComponent(itemKey, currentToolInfo)}
                           </div>
                       </div>
+                      {canResize && (
+                        // Sits in the gap after the panel; double-click returns to the default width
+                        <div
+                          role="separator"
+                          aria-orientation="vertical"
+                          aria-label={t('panel.resizeLabel', { title: baseToolTitle })}
+                          aria-valuenow={Math.round(width)}
+                          aria-valuemin={minPanelWidthPx}
+                          aria-valuemax={Math.round(fullPanelWidthPx)}
+                          tabIndex={0}
+                          onPointerDown={(e) => startPanelResize(e, itemKey)}
+                          onKeyDown={(e) => handleSplitterKeyDown(e, itemKey)}
+                          onDoubleClick={() => setPanelWidth(itemKey, null)}
+                          className="absolute top-0 bottom-0 -end-3 w-2 rounded-full cursor-col-resize touch-none hover:bg-white/40 focus:outline-none focus-visible:bg-white/60 z-20"
+                        ></div>
+                      )}
                     </div>
                   );
                 })}
-                {gridColumns.map((column) => {
-                  const visibleItemsInColumn = column.items.filter(item => !(visibleTools.includes(item.key) && !closingTools.includes(item.key)));
-                  const lastVisibleItemKey = visibleItemsInColumn.length > 0 ? visibleItemsInColumn[visibleItemsInColumn.length - 1].key : null;
+                </div>
+                <div ref={gridRef} role="group" aria-label={t('app.tabs')} className="relative h-full flex-shrink-0" style={{ width: `${gridContainerWidthRem}rem` }}>
+                  {renderedColumns.map((column) => {
+                    const visibleItemsInColumn = column.items.filter(item => !isSlotHidden(item.key));
+                    const lastVisibleItemKey = visibleItemsInColumn.length > 0 ? visibleItemsInColumn[visibleItemsInColumn.length - 1].key : null;
                   
-                  return (
-                  <div key={column.id} className={`flex flex-col h-full`} style={{ width: `${columnWidthRem}rem`, flexShrink: 0 }}>
-                    {column.items.map((item) => {
-                      const isCurrentlyActive = activeSwitches.has(item.key);
-                      const pos = parseKey(item.key);
-                      const switchNumber = pos ? (pos.col * itemsPerColumn + pos.row + 1) : 0;
-                      const currentToolInfo = toolInfo[switchNumber];
-                      const isToolTab = !!currentToolInfo;
-
-                      const isToolOpenOrOpening = visibleTools.includes(item.key) && !closingTools.includes(item.key);
-                      const isLastVisible = item.key === lastVisibleItemKey;
-
-                      const tabTitle = currentToolInfo?.title ?? '';
-                      const tabDescription = currentToolInfo?.description ?? '';
-                      
-                      const expandedTabHeightClass = 'flex-[1.5_1_0%]';
-                      
-                      const colors = tabColors[item.key];
-                      let backgroundColor;
-                      if (isCurrentlyActive) {
-                          backgroundColor = baseColor;
-                      } else {
-                          backgroundColor = isToolTab ? colors?.inactive : '#FFFFFF';
-                      }
-
-                      const baseTextColorStyle = isCurrentlyActive ? { color: getContrastingTextColor(baseColor) } : {};
-                      const textColorClass = isToolTab ? (isCurrentlyActive ? '' : 'text-black') : 'text-black/30';
-                      const separatorColor = isToolTab && isCurrentlyActive ? (getContrastingTextColor(baseColor) === '#FFFFFF' ? 'bg-white/30' : 'bg-black/20') : isToolTab ? 'bg-black/20' : 'bg-black/10';
-
-                      const contentStyle = isCurrentlyActive ? { ...baseTextColorStyle, paddingBottom: '20%' } : baseTextColorStyle;
-
-                      return (
-                        <button
-                          key={item.key}
-                          ref={el => { itemRefs.current.set(item.key, el); }}
-                          onClick={() => handleTabClick(item.key)}
-                           style={{
-                              backgroundColor: backgroundColor || '#FFFFFF',
-                              ...(isToolOpenOrOpening && {
-                                  flexBasis: 0,
-                                  height: 0,
-                                  minHeight: 0,
-                                  opacity: 0,
-                                  pointerEvents: 'none',
-                                  margin: 0,
-                                  padding: 0,
-                                  border: 0,
-                              })
-                          }}
-                          className={`flex justify-center items-center relative z-10 rounded-xl shadow-lg transition-all duration-500 ease-in-out transform hover:scale-103 hover:shadow-2xl focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-900 overflow-hidden ${
-                              isToolOpenOrOpening ? '' : (isCurrentlyActive ? expandedTabHeightClass : 'flex-1')
-                          } ${!isToolOpenOrOpening && !isLastVisible ? 'mb-4' : ''}`}
-                          role="switch"
-                          aria-checked={isCurrentlyActive}
-                          aria-label={isToolTab ? tabTitle : `Note Tab #${switchNumber}`}
-                        >
-                          <span className="absolute top-2 right-3 text-xs font-mono text-black">{switchNumber.toString().padStart(2, '0')}#</span>
-                          {isToolTab ? (
-                            <div className={`flex flex-col items-center justify-center w-full h-full px-16 py-4 text-center transition-all duration-500 ${textColorClass}`} style={contentStyle}>
-                                <h3 className="font-bold text-3xl">{tabTitle}</h3>
-                                <div className={`w-full h-[1.5px] my-2 transition-colors duration-500 ${separatorColor}`}></div>
-                                <p className="font-mono text-xl">{tabDescription}</p>
-                                <div
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleOpenTool(item.key);
-                                    }}
-                                    className={`absolute bottom-0 left-0 right-0 h-1/5 bg-white flex items-center justify-center transition-all duration-500 ease-in-out cursor-pointer ${isCurrentlyActive ? 'translate-y-0 opacity-100' : 'translate-y-full opacity-0'}`}
-                                >
-                                  <span className="text-black font-bold text-lg">Open</span>
-                                </div>
-                            </div>
-                           ) : (
-                               isCurrentlyActive ? (
-                                    <QuickNote
-                                        value={noteStates[item.key] || { title: '', body: '' }}
-                                        onChange={(newNote) => updateNoteState(item.key, newNote)}
-                                        textColor={getContrastingTextColor(baseColor)}
-                                    />
-                               ) : (
-                                   noteStates[item.key] && (noteStates[item.key].title || noteStates[item.key].body) && (
-                                       <div className="w-full h-full p-4 overflow-y-auto text-left custom-scrollbar">
-                                           {noteStates[item.key].title && <h4 className="text-black font-bold whitespace-pre-wrap break-words text-xl mb-2">{noteStates[item.key].title}</h4>}
-                                           {noteStates[item.key].body && <p className="text-black whitespace-pre-wrap break-words text-base">
-                                               {noteStates[item.key].body}
-                                           </p>}
-                                       </div>
-                                   )
-                               )
-                           )}
-                        </button>
-                      );
-                    })}
-                  </div>
-                )})}
+                    return (
+                    <div key={column.id} className="absolute top-0 flex flex-col h-full" style={{ insetInlineStart: `${column.id * (columnWidthRem + gapRem)}rem`, width: `${columnWidthRem}rem` }}>
+                      {column.items.map((item) => {
+                        const tabId = tabAt(item.key);
+                        const isCurrentlyActive = activeSwitches.has(tabId);
+                        const isToolTab = !!toolForTab(tabId);
+
+                        const isToolOpenOrOpening = isSlotHidden(item.key);
+                        const isLastVisible = item.key === lastVisibleItemKey;
+
+                        const expandedTabHeightClass = 'flex-[1.5_1_0%]';
+                        const backgroundColor = isCurrentlyActive ? baseColor : (isToolTab ? tabColors?.inactive : noteStates[tabId]?.color ?? defaultNoteColor);
+
+                        return (
+                          <div
+                            key={item.key}
+                            {...tabDragProps(item.key, isCurrentlyActive)}
+                            aria-hidden={isToolOpenOrOpening || undefined}
+                            style={{
+                                backgroundColor: backgroundColor || '#FFFFFF',
+                                ...(isToolOpenOrOpening && {
+                                    flexBasis: 0,
+                                    height: 0,
+                                    minHeight: 0,
+                                    opacity: 0,
+                                    pointerEvents: 'none',
+                                    margin: 0,
+                                    padding: 0,
+                                    border: 0,
+                                })
+                            }}
+                            className={`relative z-10 rounded-xl shadow-lg transition-all duration-500 ease-in-out transform hover:scale-103 hover:shadow-2xl focus-within:ring-2 focus-within:ring-white focus-within:ring-offset-2 focus-within:ring-offset-gray-900 overflow-hidden ${
+                                isToolOpenOrOpening ? '' : (isCurrentlyActive ? expandedTabHeightClass : 'flex-1')
+                            } ${!isToolOpenOrOpening && !isLastVisible ? 'mb-4' : ''} ${dragOverSlot === item.key ? 'ring-4 ring-white' : ''}`}
+                          >
+                            {renderTabCell(item.key, tabId, isToolOpenOrOpening)}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )})}
+                </div>
               </>
             )}
           </div>
@@ -0,0 +1,168 @@
+import React from 'react';
+import type { ToolOutput } from '../tools/registry';
+import { Job, describeJobStatus } from '../utils/jobs';
+import { useI18n } from '../utils/i18n';
+
+// --- Types ---
+export type DashboardTool = { tabId: string; title: string };
+export type DashboardNote = { tabId: string; title: string; editedAt?: number };
+export type DashboardOutput = { tabId: string; toolTitle: string; output: ToolOutput };
+export type DashboardJob = { job: Job; toolTitle: string };
+
+const downloadOutput = (output: ToolOutput) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(output.blob);
+  link.download = output.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+const Section: React.FC<{ title: string; isEmpty: boolean; emptyText: string; action?: React.ReactNode; children: React.ReactNode }> = ({ title, isEmpty, emptyText, action, children }) => (
+  <section className="flex flex-col gap-2">
+    <div className="flex items-center justify-between gap-3">
+      <h3 className="text-black font-mono text-sm font-bold uppercase tracking-wide">{title}</h3>
+      {action}
+    </div>
+    {isEmpty ? <p className="text-black/60 text-sm">{emptyText}</p> : <ul className="flex flex-col gap-2">{children}</ul>}
+  </section>
+);
+
+const entryClassName = 'w-full flex items-center gap-3 rounded-lg px-3 py-2 bg-white/80 hover:bg-white text-black text-start transition-colors';
+
+// --- Component ---
+export const ActivityDashboard: React.FC<{
+  openTools: DashboardTool[];
+  recentNotes: DashboardNote[];
+  outputs: DashboardOutput[];
+  jobs: DashboardJob[];
+  onSelectTool: (tabId: string) => void;
+  onSelectNote: (tabId: string) => void;
+  onShowAllNotes: () => void;
+  onCancelJob: (jobId: string) => void;
+  onRetryJob: (jobId: string) => void;
+  onRetryFailure: (jobId: string, failureId: string) => void;
+  onDismissJob: (jobId: string) => void;
+}> = ({ openTools, recentNotes, outputs, jobs, onSelectTool, onSelectNote, onShowAllNotes, onCancelJob, onRetryJob, onRetryFailure, onDismissJob }) => {
+  const i18n = useI18n();
+  const { t, formatBytes, formatRelativeTime } = i18n;
+  return (
+    <div className="flex flex-col gap-6 text-start">
+      <Section title={t('dashboard.jobs')} isEmpty={jobs.length === 0} emptyText={t('dashboard.noJobs')}>
+        {jobs.map(({ job, toolTitle }) => (
+          <li key={job.id} className="flex flex-col gap-2 rounded-lg px-3 py-2 bg-white/80 text-black">
+            <div className="flex items-center gap-2 text-sm">
+              <button onClick={() => onSelectTool(job.tabId)} className="flex-grow min-w-0 text-start hover:underline focus:outline-none focus:underline">
+                <span className="block font-bold truncate">{job.title}</span>
+                <span className="block text-xs text-black/60 truncate">{toolTitle}</span>
+              </button>
+              <span className={`flex-shrink-0 text-xs ${job.status === 'failed' ? 'text-red-700 font-bold' : 'text-black/70'}`}>{describeJobStatus(job, i18n)}</span>
+              {job.status === 'running' ? (
+                <button onClick={() => onCancelJob(job.id)} className="text-xs hover:underline flex-shrink-0" aria-label={t('jobs.cancelLabel', { title: job.title })}>
+                  {t('common.cancel')}
+                </button>
+              ) : (
+                <>
+                  {job.error && (
+                    <button onClick={() => onRetryJob(job.id)} className="text-xs hover:underline flex-shrink-0" aria-label={t('jobs.retryLabel', { title: job.title })}>
+                      {t('jobs.retry')}
+                    </button>
+                  )}
+                  <button onClick={() => onDismissJob(job.id)} className="text-xs hover:underline flex-shrink-0" aria-label={t('jobs.dismissLabel', { title: job.title })}>
+                    {t('jobs.dismiss')}
+                  </button>
+                </>
+              )}
+            </div>
+            {job.status === 'running' && (
+              <span className="block h-2 w-full bg-black/10 rounded-full overflow-hidden">
+                {job.progress === null ? (
+                  <span className="block h-full w-1/3 bg-black/60 rounded-full animate-pulse"></span>
+                ) : (
+                  <span className="block h-full bg-black rounded-full transition-all duration-300" style={{ width: `${Math.round(job.progress * 100)}%` }}></span>
+                )}
+              </span>
+            )}
+            {job.error && <p className="text-xs text-red-700 break-words">{job.error}</p>}
+            {job.failures.length > 0 && (
+              <ul className="flex flex-col gap-1 text-xs" aria-label={t('jobs.failedItems', { title: job.title })}>
+                {job.failures.map(failure => (
+                  <li key={failure.id} className="flex items-start gap-2">
+                    <span className="flex-grow min-w-0 break-words">
+                      <span className="font-bold">{failure.item}</span>
+                      <span className="text-red-700"> · {failure.message}</span>
+                    </span>
+                    {failure.canRetry && (
+                      <button
+                        onClick={() => onRetryFailure(job.id, failure.id)}
+                        disabled={failure.isRetrying}
+                        className="hover:underline flex-shrink-0 disabled:opacity-50 disabled:no-underline"
+                        aria-label={t('jobs.retryLabel', { title: failure.item })}
+                      >
+                        {failure.isRetrying ? t('jobs.retrying') : t('jobs.retry')}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </Section>
+
+      <Section title={t('dashboard.openTools')} isEmpty={openTools.length === 0} emptyText={t('dashboard.noOpenTools')}>
+        {openTools.map(tool => (
+          <li key={tool.tabId}>
+            <button onClick={() => onSelectTool(tool.tabId)} className={`${entryClassName} font-bold`}>
+              {tool.title}
+            </button>
+          </li>
+        ))}
+      </Section>
+
+      <Section
+        title={t('dashboard.recentNotes')}
+        isEmpty={recentNotes.length === 0}
+        emptyText={t('dashboard.noNotes')}
+        action={recentNotes.length > 0 && (
+          <button onClick={onShowAllNotes} className="text-xs font-mono text-black hover:underline focus:outline-none focus-visible:underline">
+            {t('dashboard.allNotes')}
+          </button>
+        )}
+      >
+        {recentNotes.map(note => (
+          <li key={note.tabId}>
+            <button onClick={() => onSelectNote(note.tabId)} className={entryClassName}>
+              <span className="flex-grow min-w-0 truncate font-bold">{note.title}</span>
+              <span className="text-xs text-black/60 flex-shrink-0">{note.editedAt === undefined ? '' : formatRelativeTime(note.editedAt)}</span>
+            </button>
+          </li>
+        ))}
+      </Section>
+
+      <Section title={t('dashboard.recentOutputs')} isEmpty={outputs.length === 0} emptyText={t('dashboard.noOutputs')}>
+        {outputs.map(({ tabId, toolTitle, output }) => (
+          <li key={`${tabId}-${output.id}`} className="flex items-center gap-2">
+            <button onClick={() => onSelectTool(tabId)} className={`${entryClassName} min-w-0`}>
+              {output.previewUrl && <img src={output.previewUrl} alt="" className="w-10 h-10 object-cover rounded flex-shrink-0" />}
+              <span className="flex-grow min-w-0">
+                <span className="block truncate font-bold text-sm">{output.name}</span>
+                <span className="block truncate text-xs text-black/60">{toolTitle} · {formatBytes(output.blob.size)}</span>
+              </span>
+            </button>
+            <button
+              onClick={() => downloadOutput(output)}
+              className="p-2 rounded-full bg-black text-white hover:bg-gray-700 transition-colors flex-shrink-0"
+              aria-label={t('common.downloadFile', { name: output.name })}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </Section>
+    </div>
+  );
+};
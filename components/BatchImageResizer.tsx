@@ -1,6 +1,10 @@
 import React, { useRef, useEffect } from 'react';
-
-declare var JSZip: any;
+import JSZip from 'jszip';
+import type { ToolOutput, ToolStateUpdate, HandoffItem } from '../tools/registry';
+import type { JobRunner } from '../utils/jobs';
+import { outputExtension } from '../utils/imageEncoding';
+import { encodeImage, runBatch } from '../utils/mediaPipeline';
+import { useI18n } from '../utils/i18n';
 
 // --- Tool Specific Types ---
 type ResizerFile = {
@@ -15,6 +19,7 @@ type ResizerFile = {
   processedWidth?: number;
   processedHeight?: number;
   processedSize?: number;
+  processedAt?: number;
 };
 
 export interface BatchImageResizerState {
@@ -25,6 +30,8 @@ export interface BatchImageResizerState {
   outputFormat: 'jpeg' | 'png';
   compression: boolean;
   isProcessing: boolean;
+  // Share of the current batch that has been processed, 0 to 1
+  progress: number;
 }
 
 export const defaultResizerState: Omit<BatchImageResizerState, 'type'> = {
@@ -34,16 +41,76 @@ export const defaultResizerState: Omit<BatchImageResizerState, 'type'> = {
   outputFormat: 'jpeg',
   compression: true,
   isProcessing: false,
+  progress: 0,
+};
+
+// Rebuilds runtime-only fields for a state restored from storage: object URLs
+// don't survive a reload, and an interrupted batch is no longer processing.
+export const restoreResizerState = (state: Partial<BatchImageResizerState>): Partial<BatchImageResizerState> => ({
+  ...state,
+  files: (state.files ?? []).map(file => ({ ...file, previewUrl: URL.createObjectURL(file.originalFile) })),
+  isProcessing: false,
+  progress: 0,
+});
+
+// Reads an image's dimensions and creates its preview URL
+const readResizerFile = (file: File): Promise<ResizerFile> => {
+  return new Promise((resolve, reject) => {
+    const previewUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({
+        id: `${file.name}-${file.lastModified}-${Math.random()}`,
+        originalFile: file,
+        previewUrl,
+        displayName: file.name,
+        originalWidth: img.width,
+        originalHeight: img.height,
+        originalSize: file.size,
+      });
+    };
+    img.onerror = (err) => {
+      URL.revokeObjectURL(previewUrl);
+      reject(err);
+    };
+    img.src = previewUrl;
+  });
+};
+
+// Dropped or pasted images are appended as new input files
+export const acceptResizerFiles = async (files: File[]) => {
+  const results = await Promise.allSettled(files.map(readResizerFile));
+  const added: ResizerFile[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') added.push(result.value);
+    else console.error(`Failed to read image ${files[index].name}`, result.reason);
+  });
+  return (state: Partial<BatchImageResizerState>): Partial<BatchImageResizerState> => ({
+    files: [...(state.files ?? []), ...added],
+  });
+};
+
+// Handed-over blobs (extracted frames, repository images) are added the same way
+export const acceptResizerHandoff = (items: HandoffItem[]) => {
+  return acceptResizerFiles(items.map(item => new File([item.blob], item.name, { type: item.blob.type })));
+};
+
+export const getResizerOutputs = (state: Partial<BatchImageResizerState>): ToolOutput[] => {
+  return (state.files ?? [])
+    .filter(file => file.processedBlob)
+    .map(file => ({ id: file.id, name: file.displayName, blob: file.processedBlob as Blob, previewUrl: file.previewUrl, createdAt: file.processedAt }));
 };
 
 export const BatchImageResizer: React.FC<{
   state: Partial<BatchImageResizerState> | undefined;
-  onChangeState: (newState: Partial<BatchImageResizerState>) => void;
+  onChangeState: (newState: ToolStateUpdate<BatchImageResizerState>) => void;
   accentColor: string;
   primaryButtonTextColor: string;
-}> = ({ state, onChangeState, accentColor, primaryButtonTextColor }) => {
+  jobs: JobRunner;
+}> = ({ state, onChangeState, accentColor, primaryButtonTextColor, jobs }) => {
+  const { t, formatBytes, formatPercent } = useI18n();
   const currentState = { ...defaultResizerState, ...state, type: 'image-resizer' as const };
-  const { files, newName, resolution, outputFormat, compression, isProcessing } = currentState;
+  const { files, newName, resolution, outputFormat, compression, isProcessing, progress } = currentState;
   const fileInputRef = useRef<HTMLInputElement>(null);
   const draggedItemIndex = useRef<number | null>(null);
   const dragOverItemIndex = useRef<number | null>(null);
@@ -52,31 +119,8 @@ export const BatchImageResizer: React.FC<{
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
-      const getFileInfo = (file: File): Promise<ResizerFile> => {
-        return new Promise((resolve, reject) => {
-          const previewUrl = URL.createObjectURL(file);
-          const img = new Image();
-          img.onload = () => {
-            resolve({
-              id: `${file.name}-${file.lastModified}-${Math.random()}`,
-              originalFile: file,
-              previewUrl,
-              displayName: file.name,
-              originalWidth: img.width,
-              originalHeight: img.height,
-              originalSize: file.size,
-            });
-          };
-          img.onerror = (err) => {
-            URL.revokeObjectURL(previewUrl);
-            reject(err);
-          };
-          img.src = previewUrl;
-        });
-      };
-      
       const newFiles = Array.from(event.target.files);
-      const detailedFiles = await Promise.all(newFiles.map(getFileInfo));
+      const detailedFiles = await Promise.all(newFiles.map(readResizerFile));
       onChangeState({ files: [...files, ...detailedFiles] });
     }
   };
@@ -87,101 +131,58 @@ export const BatchImageResizer: React.FC<{
     });
   };
   
-  const resizeImage = (file: File, maxHeight: number, format: 'jpeg' | 'png', enableCompression: boolean): Promise<{blob: Blob, width: number, height: number}> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          let { width, height } = img;
-          
-          // Cap the height, maintaining aspect ratio.
-          if (height > maxHeight) {
-            const ratio = maxHeight / height;
-            width = width * ratio;
-            height = maxHeight;
-          }
-
-          const canvas = document.createElement('canvas');
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          if (!ctx) return reject(new Error('Could not get canvas context'));
-          
-          if (format === 'jpeg') {
-              ctx.fillStyle = '#FFFFFF';
-              ctx.fillRect(0, 0, width, height);
-          }
+  // Runs as a job; cancelling keeps the images already processed
+  const handleProcess = () => {
+    if (files.length === 0) return;
+    const options = { maxHeight: resolution, format: outputFormat, compression };
 
-          ctx.drawImage(img, 0, 0, width, height);
-          const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
-          // PNG quality is ignored (lossless), so we only apply it for JPEG
-          const quality = mimeType === 'image/jpeg' ? (enableCompression ? 0.7 : 1.0) : undefined;
-          
-          canvas.toBlob(async (blob) => {
-            if (blob) {
-                resolve({blob: blob, width: Math.round(width), height: Math.round(height)});
-            } else {
-              reject(new Error('Canvas to Blob conversion failed'));
-            }
-          }, mimeType, quality);
-        };
-        img.onerror = reject;
-        img.src = event.target?.result as string;
+    // Encodes one image and stores the result on its entry in the tool's latest state
+    const processFile = async (file: ResizerFile, i: number, signal?: AbortSignal) => {
+      const { blob, width, height } = await encodeImage(file.originalFile, options, signal);
+      const baseName = newName.trim() !== '' ? `${newName.trim()}-${i + 1}` : file.displayName.replace(/\.[^/.]+$/, "");
+      const processed = {
+        processedBlob: blob,
+        processedWidth: width,
+        processedHeight: height,
+        processedSize: blob.size,
+        processedAt: Date.now(),
+        displayName: `${baseName}${outputExtension(outputFormat)}`,
       };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
+      onChangeState(state => ({
+        files: (state.files ?? []).map(entry => (entry.id === file.id ? { ...entry, ...processed } : entry)),
+      }));
+    };
 
-  const handleProcess = async () => {
-    if (files.length === 0) return;
-    onChangeState({ isProcessing: true });
-    
-    const updatedFiles = [...files];
-    for (let i = 0; i < updatedFiles.length; i++) {
-      const file = updatedFiles[i];
+    jobs.run(t('resizer.jobResize', { count: files.length }), async job => {
+      onChangeState({ isProcessing: true, progress: 0 });
       try {
-        const { blob, width, height } = await resizeImage(file.originalFile, resolution, outputFormat, compression);
-        
-        const newExtension = outputFormat === 'jpeg' ? '.jpg' : '.png';
-        let baseName;
-        if (newName.trim() !== '') {
-            baseName = `${newName.trim()}-${i + 1}`;
-        } else {
-            baseName = file.displayName.replace(/\.[^/.]+$/, "");
-        }
-        const newDisplayName = `${baseName}${newExtension}`;
-
-        updatedFiles[i] = {
-            ...file,
-            processedBlob: blob,
-            processedWidth: width,
-            processedHeight: height,
-            processedSize: blob.size,
-            displayName: newDisplayName,
-        };
-        onChangeState({ files: [...updatedFiles] });
-      } catch(error) {
-        console.error(`Failed to process ${file.displayName}`, error);
+        await runBatch(files, (file: ResizerFile, i: number) => processFile(file, i, job.signal), {
+          signal: job.signal,
+          onProgress: progress => {
+            job.setProgress(progress);
+            onChangeState({ progress });
+          },
+          onItemError: (file: ResizerFile, i: number, error: unknown) => job.reportFailure(file.displayName, error, () => processFile(file, i)),
+        });
+      } finally {
+        onChangeState({ isProcessing: false });
       }
-    }
-    onChangeState({ isProcessing: false });
+    });
   };
-  
-  const handleDownload = async () => {
+
+  const handleDownload = () => {
     const processedFiles = files.filter(f => f.processedBlob);
     if (processedFiles.length === 0) return;
+    const baseName = newName.trim() !== '' ? newName.trim() : 'resized-images';
+    const zipFileName = `${baseName}(1-${processedFiles.length}).zip`;
 
-    try {
+    jobs.run(t('tool.jobZip', { name: zipFileName }), async job => {
         const zip = new JSZip();
         processedFiles.forEach(file => {
             zip.file(file.displayName, file.processedBlob as Blob);
         });
-        const zipBlob = await zip.generateAsync({ type: 'blob' });
-        
-        const baseName = newName.trim() !== '' ? newName.trim() : 'resized-images';
-        const zipFileName = `${baseName}(1-${processedFiles.length}).zip`;
+        const zipBlob = await zip.generateAsync({ type: 'blob' }, metadata => job.setProgress(metadata.percent / 100));
+        if (job.signal.aborted) return;
 
         const link = document.createElement('a');
         link.href = URL.createObjectURL(zipBlob);
@@ -189,9 +190,7 @@ export const BatchImageResizer: React.FC<{
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
-    } catch (error) {
-        console.error("Download failed:", error);
-    }
+    });
   };
   
   const handleSingleDownload = (fileToDownload: ResizerFile) => {
@@ -206,15 +205,6 @@ export const BatchImageResizer: React.FC<{
     URL.revokeObjectURL(link.href);
   };
 
-  const formatBytes = (bytes?: number) => {
-      if (bytes === undefined) return '';
-      if (bytes === 0) return '0 B';
-      const k = 1024;
-      const sizes = ['B', 'KB', 'MB', 'GB'];
-      const i = Math.floor(Math.log(bytes) / Math.log(k));
-      return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
-  }
-
   const handleDragSort = () => {
     if (draggedItemIndex.current === null || dragOverItemIndex.current === null) return;
     let _files = [...files];
@@ -230,15 +220,15 @@ export const BatchImageResizer: React.FC<{
       <input type="file" multiple accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
       <div className="flex gap-2 w-full">
         <button onClick={() => fileInputRef.current?.click()} className="flex-grow bg-gray-700 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-600 transition-colors text-lg">
-          Upload Images
+          {t('resizer.upload')}
         </button>
         <button onClick={handleReset} className="flex-shrink-0 bg-gray-700 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-600 transition-colors text-lg">
-          Reset
+          {t('tool.reset')}
         </button>
       </div>
 
       <div className="flex items-center gap-2">
-        <input type="text" value={newName} onChange={(e) => onChangeState({ newName: e.target.value })} placeholder="New base name (optional)" className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none" />
+        <input type="text" value={newName} onChange={(e) => onChangeState({ newName: e.target.value })} placeholder={t('tool.baseNamePlaceholder')} className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none" />
       </div>
 
       <div className="flex items-center gap-2 flex-wrap">
@@ -253,23 +243,23 @@ export const BatchImageResizer: React.FC<{
           <option value="png">PNG</option>
         </select>
         <button onClick={() => onChangeState({ compression: !compression })} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-            Compression: {compression ? 'On' : 'Off'}
+            {compression ? t('tool.compressionOn') : t('tool.compressionOff')}
         </button>
-        <button onClick={handleProcess} disabled={files.length === 0 || isProcessing} style={{ backgroundColor: accentColor, color: primaryButtonTextColor }} className="flex-grow font-bold py-2 px-4 rounded-lg hover:opacity-90 transition-opacity disabled:bg-gray-400 disabled:cursor-not-allowed">
-            {isProcessing ? 'Processing...' : 'Process'}
+        <button onClick={isProcessing ? jobs.cancel : handleProcess} disabled={files.length === 0} style={{ backgroundColor: accentColor, color: primaryButtonTextColor }} className="flex-grow font-bold py-2 px-4 rounded-lg hover:opacity-90 transition-opacity disabled:bg-gray-400 disabled:cursor-not-allowed">
+            {isProcessing ? t('tool.cancelProgress', { percent: formatPercent(progress) }) : t('tool.process')}
         </button>
         <button onClick={handleDownload} disabled={isProcessing || !files.some(f => f.processedBlob)} className="flex-grow bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
-            Download
+            {t('tool.download')}
         </button>
       </div>
       
       <div ref={scrollContainerRef} className="flex-grow bg-black/10 rounded-lg p-2 overflow-y-auto min-h-0 hide-scrollbar">
         {files.length === 0 ? (
-           <div className="flex items-center justify-center h-full text-gray-500">Image previews will appear here.</div>
+           <div className="flex items-center justify-center h-full text-gray-500">{t('resizer.empty')}</div>
         ) : (
           <>
             <div className="text-xs text-gray-500 font-mono mb-2 px-1">
-              {files.length} {files.length === 1 ? 'Image' : 'Images'}
+              {t('resizer.count', { count: files.length })}
             </div>
             <ul className="space-y-2">
               {files.map((file, index) => (
@@ -282,30 +272,30 @@ export const BatchImageResizer: React.FC<{
                   onDragOver={(e) => e.preventDefault()}
                   className="flex items-center gap-3 bg-white/50 p-2 rounded-md text-xs font-mono cursor-grab active:cursor-grabbing"
                 >
-                  <div className="flex-shrink-0 text-gray-500" title="Drag to reorder">
+                  <div className="flex-shrink-0 text-gray-500" title={t('tool.dragToReorder')}>
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16m-7 6h7" />
                       </svg>
                   </div>
-                  <img src={file.previewUrl} alt="preview" className="w-32 aspect-[16/9] object-cover rounded-md flex-shrink-0 bg-gray-300" />
+                  <img src={file.previewUrl} alt={t('resizer.previewAlt')} className="w-32 aspect-[16/9] object-cover rounded-md flex-shrink-0 bg-gray-300" />
                   <div className="flex-grow grid grid-cols-2 gap-x-2 items-center">
                       <p className="col-span-2 text-sm truncate font-sans font-bold" title={file.displayName}>{file.displayName}</p>
                       <div className="text-gray-600">
                           {file.originalWidth && file.originalHeight && (
-                              <p>Original: {file.originalWidth}x{file.originalHeight}, {formatBytes(file.originalSize)}</p>
+                              <p>{t('resizer.original', { width: String(file.originalWidth), height: String(file.originalHeight), size: file.originalSize === undefined ? '' : formatBytes(file.originalSize) })}</p>
                           )}
                       </div>
                       <div className="text-green-700 font-semibold">
                           {file.processedWidth && file.processedHeight && (
-                              <p>Processed: {file.processedWidth}x{file.processedHeight}, {formatBytes(file.processedSize)}</p>
+                              <p>{t('resizer.processed', { width: String(file.processedWidth), height: String(file.processedHeight), size: file.processedSize === undefined ? '' : formatBytes(file.processedSize) })}</p>
                           )}
                       </div>
                   </div>
                   {file.processedBlob && (
                     <button 
                       onClick={() => handleSingleDownload(file)} 
-                      title={`Download ${file.displayName}`}
-                      className="ml-2 flex-shrink-0 bg-gray-700 text-white font-bold p-2 rounded-md hover:bg-gray-600 transition-colors flex items-center justify-center w-8 h-8"
+                      title={t('common.downloadFile', { name: file.displayName })}
+                      className="ms-2 flex-shrink-0 bg-gray-700 text-white font-bold p-2 rounded-md hover:bg-gray-600 transition-colors flex items-center justify-center w-8 h-8"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                           <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import { getChecklistProgress } from '../utils/checklist';
+import { useI18n } from '../utils/i18n';
+
+// --- Component ---
+// "3/7 done" for a note's checklist items, with a toggle to hide the ticked ones.
+// Renders nothing for notes without checklist items.
+export const ChecklistStatus: React.FC<{
+  body: string;
+  hideCompleted: boolean;
+  onHideCompletedChange: (hideCompleted: boolean) => void;
+  className?: string;
+}> = ({ body, hideCompleted, onHideCompletedChange, className = '' }) => {
+  const { t } = useI18n();
+  const progress = useMemo(() => getChecklistProgress(body), [body]);
+
+  if (progress.total === 0) return null;
+
+  return (
+    <div className={`flex items-center gap-3 text-xs font-mono ${className}`}>
+      <span className="opacity-70">{t('checklist.progress', { done: progress.done, total: progress.total })}</span>
+      <button
+        onClick={(e) => { e.stopPropagation(); onHideCompletedChange(!hideCompleted); }}
+        aria-pressed={hideCompleted}
+        className="underline opacity-70 hover:opacity-100 focus:outline-none focus-visible:opacity-100"
+      >
+        {t(hideCompleted ? 'checklist.showDone' : 'checklist.hideDone')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { fuzzyFilter } from '../utils/fuzzySearch';
+import { formatCombo } from '../utils/shortcuts';
+import { useI18n, MessageKey } from '../utils/i18n';
+
+// --- Types ---
+export type PaletteCommand = {
+  id: string;
+  group: 'Tools' | 'Notes' | 'Actions' | 'Shortcuts';
+  title: string;
+  subtitle?: string;
+  // Extra text matched by the search but not displayed (e.g. a note's full body)
+  keywords?: string;
+  shortcut?: string;
+  run: () => void;
+};
+
+const groupLabels: Record<PaletteCommand['group'], MessageKey> = {
+  Tools: 'palette.groupTools',
+  Notes: 'palette.groupNotes',
+  Actions: 'palette.groupActions',
+  Shortcuts: 'palette.groupShortcuts',
+};
+
+// --- Component ---
+export const CommandPalette: React.FC<{
+  commands: PaletteCommand[];
+  onClose: () => void;
+  accentColor: string;
+  primaryButtonTextColor: string;
+}> = ({ commands, onClose, accentColor, primaryButtonTextColor }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(
+    () => fuzzyFilter(commands, query, (command: PaletteCommand) => [command.title, command.subtitle ?? '', command.keywords ?? '']),
+    [commands, query]
+  );
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    const selected = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    selected?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const runCommand = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const command = results[selectedIndex];
+      if (command) runCommand(command);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 flex items-start justify-center pt-[15vh] px-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-white text-black rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[60vh]"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.label')}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('palette.placeholder')}
+          className="w-full p-4 text-lg border-b border-gray-300 focus:outline-none"
+          spellCheck="false"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[selectedIndex] ? `command-${results[selectedIndex].id}` : undefined}
+        />
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="overflow-y-auto custom-scrollbar p-2">
+          {results.length === 0 ? (
+            <li className="p-4 text-center text-gray-500">{t('palette.empty')}</li>
+          ) : (
+            results.map((command, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <li
+                  key={command.id}
+                  id={`command-${command.id}`}
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  onClick={() => runCommand(command)}
+                  style={isSelected ? { backgroundColor: accentColor, color: primaryButtonTextColor } : undefined}
+                  className="flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer"
+                >
+                  <span className="text-xs font-mono opacity-60 w-20 flex-shrink-0">{t(groupLabels[command.group])}</span>
+                  <div className="flex-grow min-w-0">
+                    <p className="font-bold truncate">{command.title}</p>
+                    {command.subtitle && <p className="text-sm opacity-70 truncate">{command.subtitle}</p>}
+                  </div>
+                  {command.shortcut && (
+                    <kbd className="text-xs font-mono px-2 py-1 rounded border border-current opacity-70 flex-shrink-0">{formatCombo(command.shortcut)}</kbd>
+                  )}
+                </li>
+              );
+            })
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { useI18n } from '../utils/i18n';
+
+// --- Types ---
+export type FileDestination = {
+  id: string;
+  label: string;
+  detail?: string;
+};
+
+// --- Component ---
+// Asks where dropped or pasted files should go when more than one tab could take them
+export const FileDestinationChooser: React.FC<{
+  fileSummary: string;
+  destinations: FileDestination[];
+  onChoose: (id: string) => void;
+  onCancel: () => void;
+}> = ({ fileSummary, destinations, onChoose, onCancel }) => {
+  const { t } = useI18n();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    listRef.current?.querySelector('button')?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-md bg-white text-black rounded-xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="file-destination-title"
+      >
+        <div>
+          <h2 id="file-destination-title" className="font-mono text-xl font-bold">{t('fileChooser.title')}</h2>
+          <p className="text-sm text-black/70 mt-1 truncate">{fileSummary}</p>
+        </div>
+        <ul ref={listRef} className="flex flex-col gap-2">
+          {destinations.map(destination => (
+            <li key={destination.id}>
+              <button
+                onClick={() => onChoose(destination.id)}
+                className="w-full text-start rounded-lg px-3 py-2 bg-black/5 hover:bg-black/10 focus:outline-none focus:ring-2 focus:ring-black transition-colors"
+              >
+                <span className="block font-bold">{destination.label}</span>
+                {destination.detail && <span className="block text-xs text-black/60">{destination.detail}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button onClick={onCancel} className="self-end text-sm font-bold hover:underline">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { HandoffItem, HandoffTarget } from '../tools/registry';
+import type { JobRunner } from '../utils/jobs';
+import { useI18n } from '../utils/i18n';
 
 // --- SVG Icons ---
 const FolderIcon: React.FC<{className?: string}> = ({ className = "w-6 h-6 text-yellow-500 flex-shrink-0" }) => (
@@ -56,11 +59,19 @@ export const defaultGitManagerState: Omit<GitManagerState, 'type'> = {
   closingFilePath: null,
 };
 
+// Clears transient request/animation flags from a state restored from storage.
+export const restoreGitManagerState = (state: Partial<GitManagerState>): Partial<GitManagerState> => ({
+  ...state,
+  isLoading: false,
+  closingFilePath: null,
+});
+
 // --- In-line File Preview Component ---
 const InlineFilePreview: React.FC<{
   file: GitFile;
   baseUrl: string;
 }> = ({ file, baseUrl }) => {
+  const { t } = useI18n();
   const [textContent, setTextContent] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -83,7 +94,7 @@ const InlineFilePreview: React.FC<{
       setError(null);
       fetch(file.download_url)
         .then(res => {
-          if (!res.ok) throw new Error(`Failed to fetch content: ${res.statusText}`);
+          if (!res.ok) throw new Error(t('git.fetchContentFailed', { status: res.statusText }));
           return res.text();
         })
         .then(text => {
@@ -110,7 +121,7 @@ const InlineFilePreview: React.FC<{
     if (isText) {
       return <pre className="w-full h-full bg-gray-800 text-white p-4 rounded-lg text-xs overflow-auto max-h-[60vh]">{textContent}</pre>;
     }
-    return <p className="text-gray-600">Preview not available for this file type.</p>;
+    return <p className="text-gray-600">{t('git.previewUnavailable')}</p>;
   };
   
   return (
@@ -127,11 +138,16 @@ export const GitManager: React.FC<{
   onChangeState: (newState: Partial<GitManagerState>) => void;
   accentColor: string;
   primaryButtonTextColor: string;
-}> = ({ state, onChangeState, accentColor, primaryButtonTextColor }) => {
+  handoffTargets: HandoffTarget[];
+  onHandoff: (targetToolId: string, items: HandoffItem[]) => void;
+  jobs: JobRunner;
+}> = ({ state, onChangeState, accentColor, primaryButtonTextColor, handoffTargets, onHandoff, jobs }) => {
+  const { t } = useI18n();
   const currentState = { ...defaultGitManagerState, ...state, type: 'git-manager' as const };
   const { repoUrl, isLoading, error, files, currentPath, repoInfo, baseUrl, expandedFilePath, closingFilePath } = currentState;
   const initialLoadAttempted = useRef(false);
   const [copiedPath, setCopiedPath] = useState<string | null>(null);
+  const [sendingPath, setSendingPath] = useState<string | null>(null);
 
   const parseGitHubUrl = (url: string): RepoInfo | null => {
     try {
@@ -156,49 +172,55 @@ export const GitManager: React.FC<{
     }
   };
   
-  const fetchFiles = useCallback(async (path: string, repoDetails: RepoInfo) => {
-    onChangeState({ isLoading: true, error: null, currentPath: path, expandedFilePath: null, closingFilePath: currentState.expandedFilePath });
+  // Runs as a job, so a failed listing can be retried from the job center
+  const fetchFiles = useCallback((path: string, repoDetails: RepoInfo) => {
     const apiUrl = `https://api.github.com/repos/${repoDetails.owner}/${repoDetails.repo}/contents/${path}`;
-    
-    try {
-      const response = await fetch(apiUrl);
-      if (!response.ok) {
-        if (response.status === 404) throw new Error('Repository not found or path is invalid. Check the URL.');
-        if (response.status === 403) throw new Error('API rate limit exceeded or private repository. Please wait and try again.');
-        throw new Error(`GitHub API Error: ${response.statusText}`);
-      }
-      const data = await response.json();
-      if (!Array.isArray(data)) {
-        throw new Error('Invalid response from GitHub API. Expected an array of files.');
+    const expandedPath = currentState.expandedFilePath;
+
+    return jobs.run(t('git.jobLoad', { path: `${repoDetails.repo}/${path}` }), async job => {
+      onChangeState({ isLoading: true, error: null, currentPath: path, expandedFilePath: null, closingFilePath: expandedPath });
+      try {
+        const response = await fetch(apiUrl, { signal: job.signal });
+        if (!response.ok) {
+          if (response.status === 404) throw new Error(t('git.notFound'));
+          if (response.status === 403) throw new Error(t('git.rateLimited'));
+          throw new Error(t('git.apiError', { status: response.statusText }));
+        }
+        const data = await response.json();
+        if (!Array.isArray(data)) {
+          throw new Error(t('git.invalidResponse'));
+        }
+        const sortedData = data.sort((a, b) => {
+          if (a.type === 'dir' && b.type !== 'dir') return -1;
+          if (a.type !== 'dir' && b.type === 'dir') return 1;
+          return a.name.localeCompare(b.name);
+        });
+        onChangeState({ files: sortedData, isLoading: false });
+      } catch (err: any) {
+        onChangeState(job.signal.aborted ? { isLoading: false } : { error: err.message, isLoading: false, files: [] });
+        throw err;
       }
-      const sortedData = data.sort((a, b) => {
-        if (a.type === 'dir' && b.type !== 'dir') return -1;
-        if (a.type !== 'dir' && b.type === 'dir') return 1;
-        return a.name.localeCompare(b.name);
-      });
-      onChangeState({ files: sortedData, isLoading: false });
-    } catch (err: any) {
-      onChangeState({ error: err.message, isLoading: false, files: [] });
-    }
-  }, [onChangeState, currentState.expandedFilePath]);
+    });
+  }, [onChangeState, currentState.expandedFilePath, jobs, t]);
 
-  const handleLoadRepository = useCallback(() => {
+  const handleLoadRepository = useCallback((path: string = '') => {
     const parsedInfo = parseGitHubUrl(repoUrl);
     if (parsedInfo) {
       const url = repoUrl.endsWith('/') ? repoUrl.slice(0, -1) : repoUrl;
       onChangeState({ repoInfo: parsedInfo, baseUrl: url, expandedFilePath: null, closingFilePath: null });
-      fetchFiles('', parsedInfo);
+      fetchFiles(path, parsedInfo);
     } else {
-      onChangeState({ error: 'Invalid GitHub Pages or repository URL format.', files: [] });
+      onChangeState({ error: t('git.invalidUrl'), files: [] });
     }
-  }, [repoUrl, onChangeState, fetchFiles]);
+  }, [repoUrl, onChangeState, fetchFiles, t]);
 
+  // The first load reopens the stored path so restored sessions and deep links land where they left off
   useEffect(() => {
     if (!initialLoadAttempted.current && repoUrl) {
       initialLoadAttempted.current = true;
-      handleLoadRepository();
+      handleLoadRepository(currentPath);
     }
-  }, [handleLoadRepository, repoUrl]);
+  }, [handleLoadRepository, repoUrl, currentPath]);
 
   useEffect(() => {
     if (closingFilePath) {
@@ -234,6 +256,23 @@ export const GitManager: React.FC<{
     });
   };
 
+  // Failures are reported by the job center
+  const handleSendFile = (file: GitFile, targetToolId: string) => {
+    const downloadUrl = file.download_url;
+    if (!downloadUrl) return;
+    setSendingPath(file.path);
+    jobs.run(t('git.jobSend', { name: file.name }), async job => {
+      try {
+        const response = await fetch(downloadUrl, { signal: job.signal });
+        if (!response.ok) throw new Error(t('git.fetchFileFailed', { name: file.name, status: response.statusText }));
+        const items: HandoffItem[] = [{ name: file.name, blob: await response.blob() }];
+        onHandoff(targetToolId, items);
+      } finally {
+        setSendingPath(null);
+      }
+    });
+  };
+
   const handleCopyAllPaths = () => {
     const filePaths = files
       .filter(file => file.type === 'file')
@@ -250,8 +289,8 @@ export const GitManager: React.FC<{
     const pathParts = currentPath.split('/');
     let pathAccumulator = '';
     return (
-        <div className="flex items-center gap-1 text-sm text-gray-600 mb-2 px-1 flex-wrap">
-            <button onClick={() => handleBreadcrumbClick('')} className="hover:underline">root</button>
+        <div className="flex items-center gap-1 text-sm text-gray-600 mb-2 px-1 flex-wrap" dir="ltr">
+            <button onClick={() => handleBreadcrumbClick('')} className="hover:underline">{t('git.root')}</button>
             {pathParts.map((part, index) => {
                 pathAccumulator += (index > 0 ? '/' : '') + part;
                 const currentPathChunk = pathAccumulator;
@@ -291,8 +330,8 @@ export const GitManager: React.FC<{
   const renderFileContent = () => {
     if (isLoading) return <LoadingSpinner />;
     if (error) return <div className="flex items-center justify-center h-full text-red-500 font-semibold p-4 text-center">{error}</div>;
-    if (files.length === 0 && !initialLoadAttempted.current) return <div className="flex items-center justify-center h-full text-gray-500">Loading initial repository...</div>;
-    if (files.length === 0) return <div className="flex items-center justify-center h-full text-gray-500">Repository content will appear here.</div>;
+    if (files.length === 0 && !initialLoadAttempted.current) return <div className="flex items-center justify-center h-full text-gray-500">{t('git.loadingInitial')}</div>;
+    if (files.length === 0) return <div className="flex items-center justify-center h-full text-gray-500">{t('git.empty')}</div>;
     
     return (
       <>
@@ -302,6 +341,8 @@ export const GitManager: React.FC<{
             const isExpanded = expandedFilePath === file.path;
             const isClosing = closingFilePath === file.path;
             const shouldRenderPreview = isExpanded || isClosing;
+            const fileExtension = file.name.split('.').pop()?.toLowerCase() || '';
+            const canSend = file.type === 'file' && !!file.download_url && ['png', 'jpg', 'jpeg', 'gif', 'webp'].includes(fileExtension);
 
             return (
               <li
@@ -328,10 +369,23 @@ export const GitManager: React.FC<{
                       ? 'bg-green-500 text-white' 
                       : 'bg-gray-700 hover:bg-gray-600 text-white'
                     }`}
-                    title={`Copy path to ${file.name}`}
+                    title={t('git.copyPathTitle', { name: file.name })}
                   >
-                    {copiedPath === file.path ? 'Copied!' : 'Copy Path'}
+                    {copiedPath === file.path ? t('git.copied') : t('git.copyPath')}
                   </button>
+                  {canSend && handoffTargets.map(target => (
+                    <button
+                      key={target.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleSendFile(file, target.id);
+                      }}
+                      disabled={sendingPath === file.path}
+                      className="flex-shrink-0 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                      {sendingPath === file.path ? t('git.sending') : target.label}
+                    </button>
+                  ))}
                 </div>
                 <div className={`overflow-hidden transition-all duration-500 ease-in-out ${isExpanded ? 'max-h-[1000px] opacity-100' : 'max-h-0 opacity-0'}`}>
                   {shouldRenderPreview && file.type === 'file' && (
@@ -354,16 +408,17 @@ export const GitManager: React.FC<{
           type="text" 
           value={repoUrl} 
           onChange={(e) => onChangeState({ repoUrl: e.target.value })} 
-          placeholder="GitHub Repository URL" 
+          placeholder={t('git.urlPlaceholder')}
+          dir="ltr"
           className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none"
         />
         <button 
-          onClick={handleLoadRepository} 
+          onClick={() => handleLoadRepository()} 
           disabled={isLoading}
           style={{ backgroundColor: accentColor, color: primaryButtonTextColor }} 
           className="font-bold py-2 px-6 rounded-lg hover:opacity-90 transition-opacity disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-          {isLoading ? '...' : 'Load'}
+          {isLoading ? '...' : t('common.load')}
         </button>
       </div>
 
@@ -381,7 +436,7 @@ export const GitManager: React.FC<{
             : 'bg-gray-700 hover:bg-gray-600 text-white'
           } disabled:bg-gray-400 disabled:cursor-not-allowed`}
         >
-          {copiedPath === 'all' ? 'Copied!' : 'Copy All Paths'}
+          {copiedPath === 'all' ? t('git.copied') : t('git.copyAllPaths')}
         </button>
       </div>
     </div>
@@ -0,0 +1,54 @@
+import React, { useEffect } from 'react';
+import { Job, describeJobStatus } from '../utils/jobs';
+import { useI18n } from '../utils/i18n';
+
+// --- Types ---
+export type JobToast = { job: Job; toolTitle: string };
+
+// Successful jobs need no action, so their toasts go away by themselves
+const doneToastDurationMs = 6000;
+
+const Toast: React.FC<{
+  toast: JobToast;
+  onShow: (tabId: string) => void;
+  onDismiss: (jobId: string) => void;
+}> = ({ toast: { job, toolTitle }, onShow, onDismiss }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  useEffect(() => {
+    if (job.status !== 'done') return;
+    const timer = setTimeout(() => onDismiss(job.id), doneToastDurationMs);
+    return () => clearTimeout(timer);
+  }, [job.id, job.status]);
+
+  const isFailed = job.status === 'failed';
+  return (
+    <li className={`pointer-events-auto flex items-start gap-3 rounded-lg px-4 py-3 shadow-lg bg-white text-black border-s-4 ${isFailed ? 'border-red-600' : 'border-black'}`}>
+      <div className="flex-grow min-w-0 text-sm">
+        <p className="font-bold truncate">{job.title}</p>
+        <p className="text-xs text-black/60 truncate">{toolTitle}</p>
+        <p className={`text-xs ${isFailed ? 'text-red-700' : 'text-black/80'}`}>{describeJobStatus(job, i18n)}{job.error ? ` · ${job.error}` : ''}</p>
+      </div>
+      <button onClick={() => onShow(job.tabId)} className="text-xs font-bold hover:underline flex-shrink-0">
+        {t('jobs.show')}
+      </button>
+      <button onClick={() => onDismiss(job.id)} className="text-xs hover:underline flex-shrink-0" aria-label={t('jobs.dismissLabel', { title: job.title })}>
+        ✕
+      </button>
+    </li>
+  );
+};
+
+// --- Component ---
+// Reports jobs that finished while their tool panel was closed or out of view
+export const JobToasts: React.FC<{
+  toasts: JobToast[];
+  onShow: (tabId: string) => void;
+  onDismiss: (jobId: string) => void;
+}> = ({ toasts, onShow, onDismiss }) => (
+  <ul role="status" aria-live="polite" className="fixed bottom-4 end-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)] pointer-events-none">
+    {toasts.map(toast => (
+      <Toast key={toast.job.id} toast={toast} onShow={onShow} onDismiss={onDismiss} />
+    ))}
+  </ul>
+);
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useI18n, Locale, localeNames } from '../utils/i18n';
+
+// --- Component ---
+export const LanguagePicker: React.FC = () => {
+  const { t, locale, setLocale } = useI18n();
+
+  return (
+    <label className="flex items-center gap-3 text-start">
+      <span className="text-black font-mono text-sm font-bold uppercase tracking-wide">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="flex-grow p-2 rounded-md border border-gray-400 bg-white text-black focus:ring-2 focus:ring-black focus:outline-none"
+      >
+        {(Object.keys(localeNames) as Locale[]).map(code => (
+          <option key={code} value={code} lang={code}>{localeNames[code]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown, MarkdownBlock, MarkdownInline, MarkdownListItem } from '../utils/markdown';
+import { useI18n } from '../utils/i18n';
+
+// --- Styles ---
+const headingClasses: Record<number, string> = {
+  1: 'text-[1.6em] font-bold',
+  2: 'text-[1.35em] font-bold',
+  3: 'text-[1.15em] font-bold',
+  4: 'font-bold',
+  5: 'font-bold',
+  6: 'font-bold opacity-80',
+};
+
+const checklistDragType = 'application/x-digital-toolbox-checklist-item';
+
+// --- Component ---
+// Renders a note's Markdown with the note's contrasting text color. A passive view shows links
+// as plain text, for previews laid over another control like a collapsed tab; only its
+// checklist controls take the pointer. Checklist items are interactive when handlers are given.
+export const MarkdownView: React.FC<{
+  source: string;
+  textColor: string;
+  passive?: boolean;
+  hideCompleted?: boolean;
+  onToggleItem?: (line: number) => void;
+  // Moves the checklist item at line `from` to the place of the one at line `to`
+  onMoveItem?: (from: number, to: number) => void;
+  className?: string;
+}> = ({ source, textColor, passive = false, hideCompleted = false, onToggleItem, onMoveItem, className = '' }) => {
+  const { t } = useI18n();
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const [dragged, setDragged] = useState<{ line: number; list: MarkdownBlock } | null>(null);
+  const [dropLine, setDropLine] = useState<number | null>(null);
+  const tint = textColor === '#FFFFFF' ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.08)';
+  const rule = textColor === '#FFFFFF' ? 'rgba(255,255,255,0.3)' : 'rgba(0,0,0,0.2)';
+
+  const renderInline = (nodes: MarkdownInline[]): React.ReactNode => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={index} dir="ltr" className="font-mono text-[0.9em] px-1 rounded" style={{ backgroundColor: tint }}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        if (passive || !node.href) return <span key={index} className="underline">{renderInline(node.children)}</span>;
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline hover:opacity-70"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+  // --- Checklist Items ---
+  const endDrag = () => {
+    setDragged(null);
+    setDropLine(null);
+  };
+
+  // Alt+Up/Down moves an item, then focus follows it to its new place in the list
+  const handleTaskKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, tasks: MarkdownListItem[], taskIndex: number) => {
+    if (!onMoveItem || !e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    const targetIndex = taskIndex + (e.key === 'ArrowUp' ? -1 : 1);
+    if (targetIndex < 0 || targetIndex >= tasks.length) return;
+    e.preventDefault();
+    const list = e.currentTarget.closest('ul, ol');
+    onMoveItem(tasks[taskIndex].line, tasks[targetIndex].line);
+    requestAnimationFrame(() => list?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]')[targetIndex]?.focus());
+  };
+
+  const renderTask = (item: MarkdownListItem, list: MarkdownBlock, tasks: MarkdownListItem[], index: number) => {
+    const canDrop = dragged !== null && dragged.list === list && dragged.line !== item.line;
+    return (
+      <li
+        key={index}
+        onDragOver={(e) => {
+          if (!canDrop || !Array.from(e.dataTransfer.types).includes(checklistDragType)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          e.dataTransfer.dropEffect = 'move';
+          if (dropLine !== item.line) setDropLine(item.line);
+        }}
+        onDragLeave={() => setDropLine((current: number | null) => (current === item.line ? null : current))}
+        onDrop={(e) => {
+          if (!canDrop) return;
+          e.preventDefault();
+          e.stopPropagation();
+          onMoveItem?.(dragged.line, item.line);
+          endDrag();
+        }}
+        className={`flex items-start gap-2 rounded ${dragged ? 'pointer-events-auto' : ''}`}
+        style={{ marginInlineStart: `${item.depth * 1.25}em`, backgroundColor: dropLine === item.line ? tint : undefined }}
+      >
+        {onMoveItem && (
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.setData(checklistDragType, String(item.line));
+              e.dataTransfer.effectAllowed = 'move';
+              setDragged({ line: item.line, list });
+            }}
+            onDragEnd={endDrag}
+            title={t('checklist.moveHint')}
+            aria-hidden="true"
+            className="pointer-events-auto cursor-grab active:cursor-grabbing select-none opacity-40 hover:opacity-100 leading-[1.5]"
+          >
+            ⠿
+          </span>
+        )}
+        <label className="flex items-start gap-2 min-w-0">
+          <input
+            type="checkbox"
+            checked={item.checked}
+            disabled={!onToggleItem}
+            onChange={() => onToggleItem?.(item.line)}
+            onKeyDown={(e) => handleTaskKeyDown(e, tasks, tasks.indexOf(item))}
+            onClick={(e) => e.stopPropagation()}
+            className="pointer-events-auto flex-shrink-0 mt-[0.3em] w-[1em] h-[1em] cursor-pointer"
+            style={{ accentColor: textColor }}
+          />
+          <span className={`whitespace-pre-wrap min-w-0 ${item.checked ? 'line-through opacity-60' : ''}`}>{renderInline(item.children)}</span>
+        </label>
+      </li>
+    );
+  };
+
+  const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}`;
+        return <Heading key={index} className={`mb-2 ${headingClasses[block.level]}`}>{renderInline(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={index} className="mb-2 whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        const items = hideCompleted ? block.items.filter(item => !item.checked) : block.items;
+        if (items.length === 0) return null;
+        const tasks = items.filter(item => item.checked !== undefined);
+        return (
+          <List key={index} start={block.ordered ? block.start : undefined} className={`mb-2 ps-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {items.map((item, itemIndex) => item.checked === undefined ? (
+              <li key={itemIndex} className="whitespace-pre-wrap" style={{ marginInlineStart: `${item.depth * 1.25}em` }}>
+                {renderInline(item.children)}
+              </li>
+            ) : renderTask(item, block, tasks, itemIndex))}
+          </List>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={index} className="mb-2 ps-3 border-s-4 opacity-80" style={{ borderColor: rule }}>
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case 'code':
+        // Code reads left to right in every locale
+        return (
+          <pre
+            key={index}
+            dir="ltr"
+            className={`mb-2 p-2 rounded font-mono text-[0.85em] text-left ${passive ? 'whitespace-pre-wrap' : 'whitespace-pre overflow-x-auto custom-scrollbar'}`}
+            style={{ backgroundColor: tint }}
+          >
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={index} className="my-3 border-t" style={{ borderColor: rule }} />;
+    }
+  };
+
+  return (
+    <div className={`break-words ${className}`} style={{ color: textColor }}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { NoteState } from './QuickNote';
+import { NoteRevision, NoteHistoryPrefs, isSameAsRevision } from '../utils/noteHistory';
+import { diffLines, toSideBySide, countChanges } from '../utils/diff';
+import { useI18n } from '../utils/i18n';
+
+type DiffView = 'inline' | 'side-by-side';
+
+// The note as it is now is listed and compared like a revision
+const CURRENT = 'current';
+
+const revisionLimitOptions = [10, 25, 50, 100, 200, 500];
+const revisionAgeOptions = [7, 30, 90, 365, 0];
+
+const withOption = (options: number[], value: number) => (options.includes(value) ? options : [...options, value]);
+
+// --- Component ---
+// Lists a note's revisions, newest first, and diffs the selected one against the current
+// note or any other revision. Restoring replaces the note's title and body in one undo step.
+export const NoteHistory: React.FC<{
+  name: string;
+  note: NoteState;
+  revisions: NoteRevision[];
+  prefs: NoteHistoryPrefs;
+  onPrefsChange: (prefs: NoteHistoryPrefs) => void;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}> = ({ name, note, revisions, prefs, onPrefsChange, onRestore, onClose }) => {
+  const { t, locale, formatRelativeTime } = useI18n();
+  const [selectedId, setSelectedId] = useState<string>(() => revisions[revisions.length - 1]?.id ?? CURRENT);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [view, setView] = useState<DiffView>('inline');
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  // Oldest first, ending with the current note
+  const versions = useMemo(
+    () => [...revisions, { id: CURRENT, savedAt: note.editedAt ?? Date.now(), title: note.title, body: note.body }],
+    [revisions, note]
+  );
+  const indexOf = (id: string) => Math.max(versions.findIndex(version => version.id === id), 0);
+  const selectedIndex = indexOf(selectedId);
+  const compareIndex = indexOf(compareId);
+  // The diff always reads from the older version to the newer one
+  const from = versions[Math.min(selectedIndex, compareIndex)];
+  const to = versions[Math.max(selectedIndex, compareIndex)];
+  const lines = useMemo(() => diffLines(from.body, to.body), [from, to]);
+  const rows = useMemo(() => toSideBySide(lines), [lines]);
+  const changes = countChanges(lines);
+  const selected = versions[selectedIndex];
+  const canRestore = selected.id !== CURRENT && !isSameAsRevision(note, selected);
+
+  const versionLabel = (version: NoteRevision) =>
+    version.id === CURRENT ? t('noteHistory.current') : new Date(version.savedAt).toLocaleString(locale);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const toggleClassName = (isSelected: boolean) =>
+    `focus:outline-none focus-visible:underline ${isSelected ? 'font-bold underline' : 'opacity-60 hover:opacity-100'}`;
+  const selectClassName = 'p-1 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 flex items-start justify-center p-4 pt-[8vh]" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        tabIndex={-1}
+        className="w-full max-w-5xl bg-white text-black rounded-xl shadow-2xl p-6 flex flex-col gap-4 max-h-[84vh] focus:outline-none"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('noteHistory.label', { name })}
+      >
+        <div className="flex justify-between items-start gap-4">
+          <h2 className="font-mono text-xl font-bold truncate">{t('noteHistory.title', { name })}</h2>
+          <button onClick={onClose} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-black" aria-label={t('noteHistory.close')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 min-h-0 flex-grow">
+          <ul aria-label={t('noteHistory.revisions')} className="md:w-64 flex-shrink-0 flex flex-col gap-1 overflow-y-auto custom-scrollbar max-h-48 md:max-h-none -me-2 pe-2">
+            {[...versions].reverse().map(version => (
+              <li key={version.id}>
+                <button
+                  onClick={() => setSelectedId(version.id)}
+                  aria-pressed={version.id === selected.id}
+                  className={`w-full text-start rounded-lg px-3 py-2 border transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-black ${version.id === selected.id ? 'border-black bg-gray-100' : 'border-gray-200 hover:border-black'}`}
+                >
+                  <span className="block text-sm font-bold">{versionLabel(version)}</span>
+                  <span className="block text-xs text-black/60">{formatRelativeTime(version.savedAt)}</span>
+                  {version.title && <span className="block truncate text-xs text-black/70">{version.title}</span>}
+                </button>
+              </li>
+            ))}
+            {revisions.length === 0 && <li className="text-sm text-black/60 px-1">{t('noteHistory.empty')}</li>}
+          </ul>
+
+          <div className="flex-grow min-w-0 flex flex-col gap-3 min-h-0">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2">
+                {t('noteHistory.compareWith')}
+                <select value={compareId} onChange={(e) => setCompareId(e.target.value)} className={selectClassName}>
+                  {[...versions].reverse().map(version => (
+                    <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+                  ))}
+                </select>
+              </label>
+              <div role="group" aria-label={t('noteHistory.view')} className="flex gap-3 text-xs font-mono">
+                {(['inline', 'side-by-side'] as DiffView[]).map(option => (
+                  <button key={option} onClick={() => setView(option)} aria-pressed={view === option} className={toggleClassName(view === option)}>
+                    {t(option === 'inline' ? 'noteHistory.inline' : 'noteHistory.sideBySide')}
+                  </button>
+                ))}
+              </div>
+              <span className="text-xs font-mono text-black/60" aria-live="polite">
+                {t('noteHistory.changes', { added: changes.added, removed: changes.removed })}
+              </span>
+              <button
+                onClick={() => onRestore(selected)}
+                disabled={!canRestore}
+                className="ms-auto px-3 py-1 rounded-md bg-black text-white text-sm font-mono hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-black focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2"
+              >
+                {t('noteHistory.restore')}
+              </button>
+            </div>
+
+            {from.title !== to.title && (
+              <p className="text-sm">
+                {t('noteHistory.titleChanged')}{' '}
+                <del className="bg-red-100">{from.title || t('noteHistory.noTitle')}</del>{' → '}
+                <ins className="bg-green-100 no-underline">{to.title || t('noteHistory.noTitle')}</ins>
+              </p>
+            )}
+
+            <div dir="auto" className="flex-grow min-h-[12rem] overflow-auto custom-scrollbar rounded-lg border border-gray-200 font-mono text-sm">
+              {changes.added === 0 && changes.removed === 0 ? (
+                <p className="p-3 text-black/60 font-sans">{t('noteHistory.noChanges')}</p>
+              ) : view === 'inline' ? (
+                <ul aria-label={t('noteHistory.diff')}>
+                  {lines.map((line, index) => (
+                    <li
+                      key={index}
+                      className={`flex gap-2 px-2 whitespace-pre-wrap break-words ${line.type === 'added' ? 'bg-green-100' : line.type === 'removed' ? 'bg-red-100' : ''}`}
+                    >
+                      <span aria-hidden="true" className="w-3 flex-shrink-0 text-black/50 select-none">
+                        {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+                      </span>
+                      <span className="sr-only">{line.type === 'added' ? t('noteHistory.added') : line.type === 'removed' ? t('noteHistory.removed') : ''}</span>
+                      <span className="min-w-0">{line.text || ' '}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <table className="w-full table-fixed border-collapse" aria-label={t('noteHistory.diff')}>
+                  <thead className="sr-only">
+                    <tr>
+                      <th>{versionLabel(from)}</th>
+                      <th>{versionLabel(to)}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr key={index} className="align-top">
+                        {[row.before, row.after].map((side, sideIndex) => (
+                          <td
+                            key={sideIndex}
+                            className={`px-2 whitespace-pre-wrap break-words ${sideIndex === 0 ? 'border-e border-gray-200' : ''} ${side?.changed ? (sideIndex === 0 ? 'bg-red-100' : 'bg-green-100') : ''} ${side ? '' : 'bg-gray-50'}`}
+                          >
+                            {side ? side.text || ' ' : ''}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 pt-3 border-t border-gray-200 text-sm">
+          <span className="font-bold">{t('noteHistory.retention')}</span>
+          <label className="flex items-center gap-2">
+            {t('noteHistory.perNote')}
+            <select
+              value={prefs.maxRevisions}
+              onChange={(e) => onPrefsChange({ ...prefs, maxRevisions: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {withOption(revisionLimitOptions, prefs.maxRevisions).map(option => (
+                <option key={option} value={option}>{t('noteHistory.revisionCount', { count: option })}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('noteHistory.maxAge')}
+            <select
+              value={prefs.maxAgeDays}
+              onChange={(e) => onPrefsChange({ ...prefs, maxAgeDays: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {withOption(revisionAgeOptions, prefs.maxAgeDays).map(option => (
+                <option key={option} value={option}>{option === 0 ? t('noteHistory.noAgeLimit') : t('noteHistory.dayCount', { count: option })}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
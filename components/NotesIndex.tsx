@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { NoteEntry, NoteSort, noteSortLabels, collectTags, matchesNoteQuery, hasNoteTag, sortNoteEntries, defaultNoteColor } from '../utils/notes';
+import { markdownToPlainText } from '../utils/markdown';
+import { useI18n } from '../utils/i18n';
+
+// --- Component ---
+// Lists every note with content, searchable, filterable by tag and sortable by date.
+// Picking a note closes the index and hands the note's tab to `onSelect`. Notes can be
+// exported one at a time or all together, and Markdown files imported from here.
+export const NotesIndex: React.FC<{
+  notes: NoteEntry[];
+  untitledLabel: (tabId: string) => string;
+  onSelect: (tabId: string) => void;
+  onExportNote: (tabId: string) => void;
+  onExportAll: () => void;
+  onImport: () => void;
+  onClose: () => void;
+}> = ({ notes, untitledLabel, onSelect, onExportNote, onExportAll, onImport, onClose }) => {
+  const { t, formatRelativeTime } = useI18n();
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [sort, setSort] = useState<NoteSort>('updated-desc');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const tags = useMemo(() => collectTags(notes), [notes]);
+  const results = useMemo(
+    () => sortNoteEntries(notes.filter(({ note }) => (!tag || hasNoteTag(note, tag)) && matchesNoteQuery(note, query)), sort),
+    [notes, tag, query, sort]
+  );
+
+  const selectNote = (tabId: string) => {
+    onClose();
+    onSelect(tabId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const chipClassName = (isSelected: boolean) =>
+    `px-2 py-0.5 rounded-full border text-xs font-mono transition-colors ${isSelected ? 'bg-black text-white border-black' : 'border-gray-400 hover:bg-gray-100'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white text-black rounded-xl shadow-2xl p-6 flex flex-col gap-4 max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('notesIndex.label')}
+      >
+        <div className="flex justify-between items-start">
+          <h2 className="font-mono text-xl font-bold">{t('notesIndex.title')}</h2>
+          <div className="flex items-center gap-2">
+            <button onClick={onImport} className="px-3 py-1 rounded-md border border-gray-400 text-sm font-mono hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-black">
+              {t('notesIndex.import')}
+            </button>
+            <button onClick={onExportAll} disabled={notes.length === 0} className="px-3 py-1 rounded-md border border-gray-400 text-sm font-mono hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-black">
+              {t('notesIndex.exportAll')}
+            </button>
+            <button onClick={onClose} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-black" aria-label={t('notesIndex.close')}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={inputRef}
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('notesIndex.searchPlaceholder')}
+            aria-label={t('notesIndex.searchPlaceholder')}
+            className="flex-grow min-w-[12rem] p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as NoteSort)}
+            aria-label={t('notesIndex.sort')}
+            className="p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none"
+          >
+            {(Object.keys(noteSortLabels) as NoteSort[]).map(option => (
+              <option key={option} value={option}>{t(noteSortLabels[option])}</option>
+            ))}
+          </select>
+        </div>
+
+        {tags.length > 0 && (
+          <div role="group" aria-label={t('notesIndex.tagFilter')} className="flex flex-wrap gap-2">
+            <button onClick={() => setTag(null)} aria-pressed={tag === null} className={chipClassName(tag === null)}>
+              {t('notesIndex.allTags')}
+            </button>
+            {tags.map(option => (
+              <button key={option} onClick={() => setTag(option === tag ? null : option)} aria-pressed={option === tag} className={chipClassName(option === tag)}>
+                #{option}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 font-mono" aria-live="polite">{t('notesIndex.count', { count: results.length })}</p>
+
+        {results.length === 0 ? (
+          <p className="text-black/60 text-sm">{notes.length === 0 ? t('notesIndex.noNotes') : t('notesIndex.empty')}</p>
+        ) : (
+          <ul className="flex flex-col gap-2 overflow-y-auto custom-scrollbar -me-2 pe-2">
+            {results.map(({ tabId, note }) => {
+              const snippet = markdownToPlainText(note.body).split('\n').find(Boolean);
+              return (
+                <li key={tabId} className="flex items-stretch gap-2">
+                  <button
+                    onClick={() => selectNote(tabId)}
+                    className="flex-grow min-w-0 flex items-start gap-3 rounded-lg px-3 py-2 border border-gray-200 hover:border-black text-start transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-black"
+                    style={{ backgroundColor: note.color ?? defaultNoteColor }}
+                  >
+                    <span className="flex-grow min-w-0">
+                      <span className="flex items-center gap-2">
+                        {note.pinned && <span aria-label={t('note.pinned')} role="img">📌</span>}
+                        <span className="truncate font-bold">{note.title || untitledLabel(tabId)}</span>
+                      </span>
+                      {snippet && <span className="block truncate text-sm text-black/70">{snippet}</span>}
+                      {note.tags && note.tags.length > 0 && (
+                        <span className="flex flex-wrap gap-1 mt-1">
+                          {note.tags.map(noteTag => <span key={noteTag} className="text-xs font-mono text-black/60">#{noteTag}</span>)}
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex-shrink-0 text-xs text-black/60 text-end">
+                      {note.editedAt !== undefined && <span className="block">{t('notesIndex.updated', { time: formatRelativeTime(note.editedAt) })}</span>}
+                      {note.createdAt !== undefined && <span className="block">{t('notesIndex.created', { time: formatRelativeTime(note.createdAt) })}</span>}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => onExportNote(tabId)}
+                    aria-label={t('notesIndex.exportLabel', { title: note.title || untitledLabel(tabId) })}
+                    title={t('notesIndex.export')}
+                    className="flex-shrink-0 px-2 rounded-lg border border-gray-200 text-xs font-mono hover:border-black transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-black"
+                  >
+                    {t('notesIndex.export')}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,43 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useI18n } from '../utils/i18n';
+import { toggleChecklistItem, moveChecklistItem } from '../utils/checklist';
+import { noteColors, defaultNoteColor, parseTags } from '../utils/notes';
+import { MarkdownView } from './MarkdownView';
+import { ChecklistStatus } from './ChecklistStatus';
 
-type Note = {
+export type NoteState = {
   title: string;
   body: string;
+  // Creation and last edit times in ms since the epoch; missing on notes saved before they were tracked
+  createdAt?: number;
+  editedAt?: number;
+  tags?: string[];
+  pinned?: boolean;
+  // One of noteColors, shown on the collapsed tab; white when unset
+  color?: string;
+  // Hides ticked checklist items outside the editor
+  hideCompleted?: boolean;
 };
 
 export const QuickNote: React.FC<{
-  value: Note;
-  onChange: (newValue: Note) => void;
+  value: NoteState;
+  onChange: (newValue: NoteState) => void;
   textColor: string;
-}> = ({ value, onChange, textColor }) => {
-  
+  onHideCompletedChange: (hideCompleted: boolean) => void;
+  onShowHistory: () => void;
+}> = ({ value, onChange, textColor, onHideCompletedChange, onShowHistory }) => {
+  const { t } = useI18n();
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const mutedColor = textColor === '#FFFFFF' ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.2)';
+  // Keep the tag field as typed, separators included, while it parses to the same tags
+  const tagsText = (value.tags ?? []).join(', ');
+  const [tagDraft, setTagDraft] = useState(tagsText);
+  const [lastTagsText, setLastTagsText] = useState(tagsText);
+  if (tagsText !== lastTagsText) {
+    setLastTagsText(tagsText);
+    if (parseTags(tagDraft).join(', ') !== tagsText) setTagDraft(tagsText);
+  }
+
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange({ ...value, title: e.target.value });
   };
@@ -19,30 +46,112 @@ export const QuickNote: React.FC<{
     onChange({ ...value, body: e.target.value });
   };
 
+  const handleTagsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTagDraft(e.target.value);
+    const tags = parseTags(e.target.value);
+    if (tags.join(', ') !== tagsText) onChange({ ...value, tags });
+  };
+
   return (
     <div className="w-full h-full p-4 flex flex-col items-start">
         <input
             type="text"
             value={value.title}
             onChange={handleTitleChange}
-            placeholder="Title"
+            placeholder={t('note.titlePlaceholder')}
             className="w-full bg-transparent resize-none focus:outline-none text-2xl font-bold mb-2 pb-2 border-b"
             style={{ 
               color: textColor, 
-              borderColor: textColor === '#FFFFFF' ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.2)' 
+              borderColor: mutedColor 
             }}
             spellCheck="false"
             onClick={(e) => e.stopPropagation()}
         />
-        <textarea
-            value={value.body}
-            onChange={handleBodyChange}
-            placeholder="Jot down your thoughts..."
-            className="w-full flex-grow bg-transparent resize-none focus:outline-none text-lg custom-scrollbar"
-            style={{ color: textColor }}
-            spellCheck="false"
-            onClick={(e) => e.stopPropagation()}
-        />
+        <div className="w-full flex items-center gap-3 mb-2 text-xs font-mono" style={{ color: textColor }}>
+            <button
+                onClick={(e) => { e.stopPropagation(); onChange({ ...value, pinned: !value.pinned }); }}
+                aria-pressed={!!value.pinned}
+                className={`focus:outline-none focus-visible:underline ${value.pinned ? 'font-bold underline' : 'opacity-60 hover:opacity-100'}`}
+            >
+                📌 {t('note.pin')}
+            </button>
+            <div role="radiogroup" aria-label={t('note.color')} className="flex gap-1 flex-shrink-0">
+                {noteColors.map(color => {
+                  const isSelected = (value.color ?? defaultNoteColor) === color.value;
+                  return (
+                    <button
+                      key={color.value}
+                      role="radio"
+                      aria-checked={isSelected}
+                      aria-label={t(color.name)}
+                      title={t(color.name)}
+                      onClick={(e) => { e.stopPropagation(); onChange({ ...value, color: color.value === defaultNoteColor ? undefined : color.value }); }}
+                      className={`w-4 h-4 rounded-full border focus:outline-none focus-visible:ring-2 ring-current ${isSelected ? 'ring-2 ring-offset-1' : ''}`}
+                      style={{ backgroundColor: color.value, borderColor: mutedColor }}
+                    />
+                  );
+                })}
+            </div>
+            <input
+                type="text"
+                value={tagDraft}
+                onChange={handleTagsChange}
+                placeholder={t('note.tagsPlaceholder')}
+                aria-label={t('note.tags')}
+                className="flex-grow min-w-0 bg-transparent focus:outline-none border-b"
+                style={{ color: textColor, borderColor: mutedColor }}
+                spellCheck="false"
+                onClick={(e) => e.stopPropagation()}
+            />
+        </div>
+        <div className="w-full flex items-center justify-between gap-3 mb-2" style={{ color: textColor }}>
+            <div role="group" aria-label={t('note.mode')} className="flex gap-3 text-xs font-mono">
+                {[false, true].map(preview => (
+                  <button
+                    key={String(preview)}
+                    onClick={(e) => { e.stopPropagation(); setIsPreviewing(preview); }}
+                    aria-pressed={isPreviewing === preview}
+                    className={`focus:outline-none focus-visible:underline ${isPreviewing === preview ? 'font-bold underline' : 'opacity-60 hover:opacity-100'}`}
+                  >
+                    {t(preview ? 'note.preview' : 'note.edit')}
+                  </button>
+                ))}
+            </div>
+            <div className="flex items-center gap-3">
+                <ChecklistStatus body={value.body} hideCompleted={!!value.hideCompleted} onHideCompletedChange={onHideCompletedChange} />
+                <button
+                    onClick={(e) => { e.stopPropagation(); onShowHistory(); }}
+                    className="text-xs font-mono opacity-60 hover:opacity-100 focus:outline-none focus-visible:underline"
+                >
+                    {t('note.history')}
+                </button>
+            </div>
+        </div>
+        {isPreviewing ? (
+            <div className="w-full flex-grow overflow-y-auto custom-scrollbar text-lg" onClick={(e) => e.stopPropagation()}>
+                {value.body
+                  ? (
+                    <MarkdownView
+                      source={value.body}
+                      textColor={textColor}
+                      hideCompleted={value.hideCompleted}
+                      onToggleItem={(line) => onChange({ ...value, body: toggleChecklistItem(value.body, line) })}
+                      onMoveItem={(from, to) => onChange({ ...value, body: moveChecklistItem(value.body, from, to) })}
+                    />
+                  )
+                  : <p className="opacity-60" style={{ color: textColor }}>{t('note.previewEmpty')}</p>}
+            </div>
+        ) : (
+            <textarea
+                value={value.body}
+                onChange={handleBodyChange}
+                placeholder={t('note.bodyPlaceholder')}
+                className="w-full flex-grow bg-transparent resize-none focus:outline-none text-lg custom-scrollbar"
+                style={{ color: textColor }}
+                spellCheck="false"
+                onClick={(e) => e.stopPropagation()}
+            />
+        )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import React, { useRef, useLayoutEffect, useState } from 'react';
+import { useI18n } from '../utils/i18n';
 
 // --- Helper to calculate aspect ratio ---
 const gcd = (a: number, b: number): number => {
@@ -50,6 +51,21 @@ export const defaultScreenSizeCheckerState: Omit<ScreenSizeCheckerState, 'type'>
   isLoading: true,
 };
 
+// The preview iframe always reloads after a restore, so show the spinner again.
+export const restoreScreenSizeCheckerState = (state: Partial<ScreenSizeCheckerState>): Partial<ScreenSizeCheckerState> => ({
+  ...state,
+  isLoading: true,
+});
+
+// Validates state decoded from a deep link and syncs the URL input with the previewed URL
+export const linkScreenSizeCheckerState = (state: Partial<ScreenSizeCheckerState>): Partial<ScreenSizeCheckerState> => ({
+  ...state,
+  url: state.displayUrl,
+  selectedDevice: devices.some(d => d.key === state.selectedDevice) ? state.selectedDevice : defaultScreenSizeCheckerState.selectedDevice,
+  orientation: state.orientation === 'landscape' ? 'landscape' : 'portrait',
+  isLoading: true,
+});
+
 // --- Component ---
 export const ScreenSizeChecker: React.FC<{
   state: Partial<ScreenSizeCheckerState> | undefined;
@@ -57,6 +73,7 @@ export const ScreenSizeChecker: React.FC<{
   accentColor: string;
   primaryButtonTextColor: string;
 }> = ({ state, onChangeState, accentColor, primaryButtonTextColor }) => {
+  const { t } = useI18n();
   const currentState = { ...defaultScreenSizeCheckerState, ...state, type: 'screen-size-checker' as const };
   const { url, displayUrl, selectedDevice, orientation, isLoading } = currentState;
 
@@ -115,16 +132,17 @@ export const ScreenSizeChecker: React.FC<{
           value={url}
           onChange={(e) => onChangeState({ url: e.target.value })}
           onKeyDown={(e) => { if (e.key === 'Enter') handleLoad(); }}
-          placeholder="Enter website URL"
+          placeholder={t('screen.urlPlaceholder')}
+          dir="ltr"
           className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none"
         />
         <button
           onClick={handleLoad}
           style={{ backgroundColor: accentColor, color: primaryButtonTextColor }}
           className="font-bold py-2 px-6 rounded-lg hover:opacity-90 transition-opacity"
-          aria-label="Load website in preview"
+          aria-label={t('screen.loadLabel')}
         >
-          Load
+          {t('common.load')}
         </button>
       </div>
 
@@ -133,7 +151,7 @@ export const ScreenSizeChecker: React.FC<{
           value={selectedDevice}
           onChange={(e) => onChangeState({ selectedDevice: e.target.value })}
           className="flex-grow p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none"
-          aria-label="Select device for preview"
+          aria-label={t('screen.deviceLabel')}
         >
           {devices.map(device => {
             const divisor = gcd(device.width, device.height);
@@ -151,8 +169,8 @@ export const ScreenSizeChecker: React.FC<{
         <button
           onClick={() => onChangeState({ orientation: orientation === 'portrait' ? 'landscape' : 'portrait' })}
           className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center gap-2"
-          title="Toggle Orientation"
-          aria-label={`Switch to ${orientation === 'portrait' ? 'landscape' : 'portrait'} view`}
+          title={t('screen.toggleOrientation')}
+          aria-label={orientation === 'portrait' ? t('screen.switchToLandscape') : t('screen.switchToPortrait')}
         >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} style={{ transform: orientation === 'landscape' ? 'rotate(90deg)' : 'none', transition: 'transform 0.3s' }}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
@@ -175,7 +193,7 @@ export const ScreenSizeChecker: React.FC<{
           }}
         >
           {isLoading && (
-             <div className="absolute inset-0 flex justify-center items-center bg-white z-10" aria-label="Loading website preview">
+             <div className="absolute inset-0 flex justify-center items-center bg-white z-10" aria-label={t('screen.loading')}>
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
              </div>
           )}
@@ -183,7 +201,7 @@ export const ScreenSizeChecker: React.FC<{
             src={displayUrl}
             onLoad={handleIframeLoad}
             className="w-full h-full border-0"
-            title="Website Preview"
+            title={t('screen.previewTitle')}
             sandbox="allow-forms allow-modals allow-pointer-lock allow-popups allow-popups-to-escape-sandbox allow-same-origin allow-scripts"
           ></iframe>
         </div>
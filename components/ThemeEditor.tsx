@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Theme, presetThemes } from '../utils/themes';
+import { isHexColor, contrastRatio, getContrastingTextColor, MIN_TEXT_CONTRAST } from '../utils/color';
+import { useI18n, MessageKey } from '../utils/i18n';
+
+type ThemeColorKey = 'accent' | 'surface' | 'background';
+
+const colorFields: { key: ThemeColorKey; label: MessageKey; hint: MessageKey }[] = [
+  { key: 'accent', label: 'theme.accent', hint: 'theme.accentHint' },
+  { key: 'surface', label: 'theme.surface', hint: 'theme.surfaceHint' },
+  { key: 'background', label: 'theme.background', hint: 'theme.backgroundHint' },
+];
+
+// --- Color Input Row ---
+const ColorField: React.FC<{
+  label: string;
+  hint: string;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ label, hint, value, onChange }) => {
+  const { t, formatNumber } = useI18n();
+  // Keep the text field editable while a partial hex code is being typed
+  const [draft, setDraft] = useState(value);
+  const [lastValue, setLastValue] = useState(value);
+  if (value !== lastValue) {
+    setLastValue(value);
+    setDraft(value);
+  }
+
+  const ratio = contrastRatio(getContrastingTextColor(value), value);
+  const isReadable = ratio >= MIN_TEXT_CONTRAST;
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value.toUpperCase())}
+        className="w-12 h-12 rounded-md border border-gray-400 cursor-pointer bg-transparent flex-shrink-0"
+        aria-label={t('theme.colorLabel', { label })}
+      />
+      <div className="flex-grow min-w-0">
+        <p className="font-bold">{label}</p>
+        <p className="text-xs text-black/60">{hint}</p>
+      </div>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (isHexColor(e.target.value)) onChange(e.target.value.toUpperCase());
+        }}
+        className="w-24 p-2 rounded-md border border-gray-400 bg-white font-mono text-sm focus:ring-2 focus:ring-black focus:outline-none"
+        spellCheck="false"
+        aria-label={t('theme.hexLabel', { label })}
+      />
+      <span
+        className={`w-24 text-xs font-mono text-end flex-shrink-0 ${isReadable ? 'text-green-700' : 'text-red-600 font-bold'}`}
+        title={t('theme.contrastHint', { ratio: MIN_TEXT_CONTRAST })}
+      >
+        {formatNumber(ratio, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}:1{isReadable ? '' : ' ⚠'}
+      </span>
+    </div>
+  );
+};
+
+// --- Component ---
+export const ThemeEditor: React.FC<{
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+  savedThemes: Theme[];
+  onSaveTheme: (theme: Theme) => void;
+  onDeleteTheme: (name: string) => void;
+  onClose: () => void;
+}> = ({ theme, onChange, savedThemes, onSaveTheme, onDeleteTheme, onClose }) => {
+  const { t } = useI18n();
+  const [themeName, setThemeName] = useState(theme.name);
+
+  const activeText = getContrastingTextColor(theme.accent);
+  const inactiveText = getContrastingTextColor(theme.surface);
+
+  const warnings: string[] = [];
+  if (contrastRatio(inactiveText, theme.surface) < MIN_TEXT_CONTRAST) {
+    warnings.push(t('theme.surfaceWarning'));
+  }
+  if (contrastRatio(activeText, theme.accent) < MIN_TEXT_CONTRAST) {
+    warnings.push(t('theme.accentWarning'));
+  }
+
+  const isNameTaken = savedThemes.some(saved => saved.name === themeName.trim());
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white text-black rounded-xl shadow-2xl p-6 flex flex-col gap-4 max-h-[90vh] overflow-y-auto custom-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('theme.editorLabel')}
+      >
+        <div className="flex justify-between items-start">
+          <h2 className="font-mono text-xl font-bold">{t('theme.editorTitle')}</h2>
+          <button onClick={onClose} className="p-1 rounded-full bg-black text-white hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-black" aria-label={t('theme.close')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Live preview */}
+        <div className="rounded-lg p-3 flex gap-3" style={{ backgroundColor: theme.background }}>
+          <div className="flex-1 rounded-lg p-3 text-center font-bold" style={{ backgroundColor: theme.surface, color: inactiveText }}>{t('theme.previewInactive')}</div>
+          <div className="flex-1 rounded-lg p-3 text-center font-bold" style={{ backgroundColor: theme.accent, color: activeText }}>{t('theme.previewActive')}</div>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {colorFields.map(field => (
+            <ColorField
+              key={field.key}
+              label={t(field.label)}
+              hint={t(field.hint)}
+              value={theme[field.key]}
+              onChange={(value) => onChange({ ...theme, [field.key]: value })}
+            />
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="bg-red-100 text-red-700 rounded-md p-3 text-sm space-y-1" role="alert">
+            {warnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={themeName}
+            onChange={(e) => setThemeName(e.target.value)}
+            placeholder={t('theme.namePlaceholder')}
+            className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none"
+          />
+          <button
+            onClick={() => onSaveTheme({ ...theme, name: themeName.trim() })}
+            disabled={!themeName.trim()}
+            style={{ backgroundColor: theme.accent, color: activeText }}
+            className="font-bold py-2 px-4 rounded-lg hover:opacity-90 transition-opacity disabled:bg-gray-400 disabled:cursor-not-allowed flex-shrink-0"
+          >
+            {isNameTaken ? t('theme.update') : t('theme.save')}
+          </button>
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-500 font-mono mb-2">{t('theme.list')}</p>
+          <ul className="flex flex-col gap-1">
+            {[...presetThemes, ...savedThemes].map((saved, index) => {
+              const isPreset = index < presetThemes.length;
+              return (
+                <li key={`${isPreset ? 'preset' : 'saved'}-${saved.name}`} className="flex items-center gap-2">
+                  <button
+                    onClick={() => { onChange(saved); setThemeName(saved.name); }}
+                    className="flex-grow flex items-center gap-3 px-3 py-1 rounded hover:bg-gray-100 text-start"
+                  >
+                    <span className="flex gap-1">
+                      {[saved.background, saved.surface, saved.accent].map((color, i) => (
+                        <span key={i} className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: color }}></span>
+                      ))}
+                    </span>
+                    {saved.name}
+                    {isPreset && <span className="text-xs text-gray-400">{t('theme.builtIn')}</span>}
+                  </button>
+                  {!isPreset && (
+                    <button onClick={() => onDeleteTheme(saved.name)} className="text-xs text-red-600 hover:underline px-2" aria-label={t('theme.deleteLabel', { name: saved.name })}>
+                      {t('common.delete')}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-
-declare var JSZip: any;
+import JSZip from 'jszip';
+import type { ToolOutput, ToolStateUpdate, HandoffItem, HandoffTarget } from '../tools/registry';
+import type { JobRunner } from '../utils/jobs';
+import { outputExtension } from '../utils/imageEncoding';
+import { encodeImage, runBatch } from '../utils/mediaPipeline';
+import { useI18n, Translator } from '../utils/i18n';
 
 // --- Tool Specific Types ---
 type ExtractedFrame = {
@@ -11,6 +15,7 @@ type ExtractedFrame = {
   processedWidth?: number;
   processedHeight?: number;
   processedSize?: number;
+  processedAt?: number;
   displayName: string;
 };
 
@@ -26,6 +31,8 @@ export interface VideoFrameExtractorState {
   outputFormat: 'jpeg' | 'png';
   compression: boolean;
   isProcessing: boolean;
+  // Share of the markers extracted so far, 0 to 1
+  progress: number;
   isPreviewCollapsed: boolean;
 }
 
@@ -40,17 +47,88 @@ export const defaultExtractorState: Omit<VideoFrameExtractorState, 'type'> = {
   outputFormat: 'jpeg',
   compression: true,
   isProcessing: false,
+  progress: 0,
   isPreviewCollapsed: false,
 };
 
+// Rebuilds runtime-only fields for a state restored from storage: the video and
+// frame object URLs are recreated from their File/Blob payloads.
+export const restoreExtractorState = (state: Partial<VideoFrameExtractorState>): Partial<VideoFrameExtractorState> => ({
+  ...state,
+  videoUrl: state.videoFile ? URL.createObjectURL(state.videoFile) : undefined,
+  extractedFrames: (state.extractedFrames ?? []).map(frame => ({
+    ...frame,
+    previewUrl: frame.processedBlob ? URL.createObjectURL(frame.processedBlob) : '',
+  })),
+  isProcessing: false,
+  progress: 0,
+});
+
+// A dropped or pasted video replaces the current one, clearing its markers and frames.
+// Frame previews aren't revoked here because undo may bring them back.
+export const acceptExtractorFiles = async (files: File[]) => {
+  const [file] = files;
+  const videoUrl = URL.createObjectURL(file);
+  return (): Partial<VideoFrameExtractorState> => ({ ...defaultExtractorState, videoFile: file, videoUrl });
+};
+
+export const getExtractorOutputs = (state: Partial<VideoFrameExtractorState>): ToolOutput[] => {
+  return (state.extractedFrames ?? [])
+    .filter(frame => frame.processedBlob)
+    .map(frame => ({ id: frame.id, name: frame.displayName, blob: frame.processedBlob as Blob, previewUrl: frame.previewUrl, createdAt: frame.processedAt }));
+};
+
+// Frames are captured from a detached copy of the video, so extraction doesn't depend on the
+// preview player, which unmounts when the panel closes
+const loadVideo = (file: File, t: Translator['t']): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error(t('extractor.loadFailed', { name: file.name })));
+    };
+    video.src = URL.createObjectURL(file);
+  });
+};
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+// Seeks to a timestamp and captures the frame; captures run one at a time since they share the video
+const createFrameCapturer = (video: HTMLVideoElement) => {
+  let seekChain: Promise<unknown> = Promise.resolve();
+  return (timestamp: number): Promise<ImageBitmap> => {
+    const capture = seekChain.then(() => new Promise<ImageBitmap>((resolve, reject) => {
+      const onSeeked = () => {
+        video.removeEventListener('seeked', onSeeked);
+        createImageBitmap(video).then(resolve, reject);
+      };
+      video.addEventListener('seeked', onSeeked);
+      video.currentTime = timestamp;
+    }));
+    seekChain = capture.catch(() => {});
+    return capture;
+  };
+};
+
 export const VideoFrameExtractor: React.FC<{
   state: Partial<VideoFrameExtractorState> | undefined;
-  onChangeState: (newState: Partial<VideoFrameExtractorState>) => void;
+  onChangeState: (newState: ToolStateUpdate<VideoFrameExtractorState>) => void;
   accentColor: string;
   primaryButtonTextColor: string;
-}> = ({ state, onChangeState, accentColor, primaryButtonTextColor }) => {
+  handoffTargets: HandoffTarget[];
+  onHandoff: (targetToolId: string, items: HandoffItem[]) => void;
+  jobs: JobRunner;
+}> = ({ state, onChangeState, accentColor, primaryButtonTextColor, handoffTargets, onHandoff, jobs }) => {
+  const { t, formatBytes, formatPercent } = useI18n();
   const currentState = { ...defaultExtractorState, ...state, type: 'video-extractor' as const };
-  const { newName, resolution, outputFormat, compression, isProcessing, videoFile, videoUrl, videoDuration, markers, extractedFrames, isPreviewCollapsed } = currentState;
+  const { newName, resolution, outputFormat, compression, isProcessing, progress, videoFile, videoUrl, videoDuration, markers, extractedFrames, isPreviewCollapsed } = currentState;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -160,102 +238,86 @@ export const VideoFrameExtractor: React.FC<{
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
   };
   
-  const extractFrame = (video: HTMLVideoElement, maxHeight: number, format: 'jpeg' | 'png', enableCompression: boolean): Promise<{blob: Blob, width: number, height: number}> => {
-    return new Promise((resolve, reject) => {
-        let { videoWidth, videoHeight } = video;
-        let finalWidth = videoWidth;
-        let finalHeight = videoHeight;
-
-        if (finalHeight > maxHeight) {
-            const ratio = maxHeight / finalHeight;
-            finalWidth = finalWidth * ratio;
-            finalHeight = maxHeight;
-        }
-        
-        const canvas = document.createElement('canvas');
-        canvas.width = finalWidth;
-        canvas.height = finalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return reject('Could not get canvas context');
-        
-        if (format === 'jpeg') {
-            ctx.fillStyle = '#FFFFFF';
-            ctx.fillRect(0, 0, finalWidth, finalHeight);
-        }
-
-        ctx.drawImage(video, 0, 0, finalWidth, finalHeight);
-
-        const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
-        const quality = mimeType === 'image/jpeg' ? (enableCompression ? 0.7 : 1.0) : undefined;
-        
-        canvas.toBlob(blob => {
-            if (blob) {
-                resolve({blob, width: Math.round(finalWidth), height: Math.round(finalHeight)});
-            } else {
-                reject('Canvas to blob failed');
-            }
-        }, mimeType, quality);
-    });
-  };
+  // Runs as a job; cancelling keeps the previously extracted frames
+  const handleProcess = () => {
+    if (!videoFile || markers.length === 0) return;
+    const options = { maxHeight: resolution, format: outputFormat, compression };
 
-  const handleProcess = async () => {
-    if (!videoRef.current || markers.length === 0) return;
-    
-    onChangeState({ isProcessing: true });
-    
-    const video = videoRef.current;
-    const newFrames: ExtractedFrame[] = [];
-    
-    for (const [i, timestamp] of markers.entries()) {
-      await new Promise<void>(resolve => {
-        const onSeeked = async () => {
-          video.removeEventListener('seeked', onSeeked);
-          try {
-              const { blob, width, height } = await extractFrame(video, resolution, outputFormat, compression);
-              
-              const newExtension = outputFormat === 'jpeg' ? '.jpg' : '.png';
-              let baseName = newName.trim() !== '' ? `${newName.trim()}-${i + 1}` : `frame-${i + 1}`;
-              const newDisplayName = `${baseName}${newExtension}`;
-              
-              const previewUrl = URL.createObjectURL(blob);
-
-              newFrames.push({
-                  id: `frame-${timestamp}-${Math.random()}`,
-                  timestamp,
-                  previewUrl,
-                  processedBlob: blob,
-                  processedWidth: width,
-                  processedHeight: height,
-                  processedSize: blob.size,
-                  displayName: newDisplayName,
-              });
-          } catch(e) {
-              console.error(`Failed to extract frame at ${timestamp}`, e);
-          }
-          resolve();
-        };
-        video.addEventListener('seeked', onSeeked);
-        video.currentTime = timestamp;
-      });
-    }
+    const extractFrame = async (capture: (timestamp: number) => Promise<ImageBitmap>, timestamp: number, i: number, signal?: AbortSignal): Promise<ExtractedFrame> => {
+      const bitmap = await capture(timestamp);
+      const { blob, width, height } = await encodeImage(bitmap, options, signal);
+      const baseName = newName.trim() !== '' ? `${newName.trim()}-${i + 1}` : `frame-${i + 1}`;
+      return {
+          id: `frame-${timestamp}-${Math.random()}`,
+          timestamp,
+          previewUrl: URL.createObjectURL(blob),
+          processedBlob: blob,
+          processedWidth: width,
+          processedHeight: height,
+          processedSize: blob.size,
+          processedAt: Date.now(),
+          displayName: `${baseName}${outputExtension(outputFormat)}`,
+      };
+    };
 
-    // Revoke old blob URLs before setting new state
-    extractedFrames.forEach(frame => URL.revokeObjectURL(frame.previewUrl));
+    // A retried frame is slotted in among the others, unless another video has been loaded since
+    const retryFrame = async (timestamp: number, i: number) => {
+      const video = await loadVideo(videoFile, t);
+      try {
+        const frame = await extractFrame(createFrameCapturer(video), timestamp, i);
+        onChangeState(state => (state.videoFile !== videoFile ? {} : {
+          extractedFrames: [...(state.extractedFrames ?? []), frame].sort((a, b) => a.timestamp - b.timestamp),
+        }));
+      } finally {
+        releaseVideo(video);
+      }
+    };
+
+    jobs.run(t('extractor.jobExtract', { count: markers.length }), async job => {
+      onChangeState({ isProcessing: true, progress: 0 });
+      // Frames finish out of order, so they're slotted by marker index
+      const newFrames: (ExtractedFrame | undefined)[] = markers.map(() => undefined);
+      let video: HTMLVideoElement | null = null;
+      try {
+        video = await loadVideo(videoFile, t);
+        const capture = createFrameCapturer(video);
+        await runBatch(markers, async (timestamp: number, i: number) => {
+          newFrames[i] = await extractFrame(capture, timestamp, i, job.signal);
+        }, {
+          signal: job.signal,
+          onProgress: progress => {
+            job.setProgress(progress);
+            onChangeState({ progress });
+          },
+          onItemError: (timestamp: number, i: number, error: unknown) => job.reportFailure(t('extractor.frameAt', { time: formatTime(timestamp) }), error, () => retryFrame(timestamp, i)),
+        });
+      } catch (error) {
+        newFrames.forEach(frame => frame && URL.revokeObjectURL(frame.previewUrl));
+        onChangeState({ isProcessing: false });
+        throw error;
+      } finally {
+        if (video) releaseVideo(video);
+      }
+
+      // Revoke old blob URLs before setting new state
+      extractedFrames.forEach(frame => URL.revokeObjectURL(frame.previewUrl));
 
-    onChangeState({ extractedFrames: newFrames, isProcessing: false, isPreviewCollapsed: true });
+      onChangeState({ extractedFrames: newFrames.filter((frame): frame is ExtractedFrame => !!frame), isProcessing: false, isPreviewCollapsed: true });
+    });
   };
   
-  const handleDownload = async () => {
+  const handleDownload = () => {
     if (extractedFrames.length === 0) return;
-    try {
+    const baseName = newName.trim() !== '' ? newName.trim() : 'extracted-frames';
+    const zipFileName = `${baseName}(1-${extractedFrames.length}).zip`;
+
+    jobs.run(t('tool.jobZip', { name: zipFileName }), async job => {
         const zip = new JSZip();
         extractedFrames.forEach(frame => {
             zip.file(frame.displayName, frame.processedBlob as Blob);
         });
-        const zipBlob = await zip.generateAsync({ type: 'blob' });
-        
-        const baseName = newName.trim() !== '' ? newName.trim() : 'extracted-frames';
-        const zipFileName = `${baseName}(1-${extractedFrames.length}).zip`;
+        const zipBlob = await zip.generateAsync({ type: 'blob' }, metadata => job.setProgress(metadata.percent / 100));
+        if (job.signal.aborted) return;
 
         const link = document.createElement('a');
         link.href = URL.createObjectURL(zipBlob);
@@ -263,9 +325,14 @@ export const VideoFrameExtractor: React.FC<{
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
-    } catch (error) {
-        console.error("Download failed:", error);
-    }
+    });
+  };
+
+  const handleSendFrames = (targetToolId: string) => {
+    const items: HandoffItem[] = extractedFrames
+      .filter(frame => frame.processedBlob)
+      .map(frame => ({ name: frame.displayName, blob: frame.processedBlob as Blob }));
+    onHandoff(targetToolId, items);
   };
 
   const handleSingleDownload = (frameToDownload: ExtractedFrame) => {
@@ -278,15 +345,6 @@ export const VideoFrameExtractor: React.FC<{
     document.body.removeChild(link);
   };
   
-  const formatBytes = (bytes?: number) => {
-      if (bytes === undefined) return '';
-      if (bytes === 0) return '0 B';
-      const k = 1024;
-      const sizes = ['B', 'KB', 'MB', 'GB'];
-      const i = Math.floor(Math.log(bytes) / Math.log(k));
-      return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
-  }
-  
   const handleDragSort = () => {
     if (draggedItemIndex.current === null || dragOverItemIndex.current === null) return;
     let _frames = [...extractedFrames];
@@ -302,10 +360,10 @@ export const VideoFrameExtractor: React.FC<{
       <input type="file" accept="video/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
       <div className="flex gap-2 w-full">
         <button onClick={() => fileInputRef.current?.click()} className="flex-grow bg-gray-700 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-600 transition-colors text-lg">
-          Upload Video
+          {t('extractor.upload')}
         </button>
         <button onClick={handleReset} className="flex-shrink-0 bg-gray-700 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-600 transition-colors text-lg">
-          Reset
+          {t('tool.reset')}
         </button>
       </div>
       
@@ -313,7 +371,7 @@ export const VideoFrameExtractor: React.FC<{
       <div className="flex items-center gap-2 flex-wrap">
         {!isPreviewCollapsed && (
           <>
-            <input type="text" value={newName} onChange={(e) => onChangeState({ newName: e.target.value })} placeholder="New base name (optional)" className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none" />
+            <input type="text" value={newName} onChange={(e) => onChangeState({ newName: e.target.value })} placeholder={t('tool.baseNamePlaceholder')} className="w-full p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none" />
             <select value={resolution} onChange={(e) => onChangeState({ resolution: parseInt(e.target.value, 10) })} className="p-2 rounded-md border border-gray-400 bg-white focus:ring-2 focus:ring-black focus:outline-none">
               <option value="1080">1080p</option>
               <option value="720">720p</option>
@@ -325,22 +383,27 @@ export const VideoFrameExtractor: React.FC<{
               <option value="png">PNG</option>
             </select>
             <button onClick={() => onChangeState({ compression: !compression })} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                Compression: {compression ? 'On' : 'Off'}
+                {compression ? t('tool.compressionOn') : t('tool.compressionOff')}
             </button>
           </>
         )}
 
         <button 
-          onClick={isPreviewCollapsed ? () => onChangeState({ isPreviewCollapsed: false }) : handleProcess} 
-          disabled={!isPreviewCollapsed && (!videoFile || markers.length === 0 || isProcessing)} 
+          onClick={isPreviewCollapsed ? () => onChangeState({ isPreviewCollapsed: false }) : (isProcessing ? jobs.cancel : handleProcess)} 
+          disabled={!isPreviewCollapsed && (!videoFile || markers.length === 0)} 
           style={{ backgroundColor: accentColor, color: primaryButtonTextColor }} 
           className="flex-grow font-bold py-2 px-4 rounded-lg hover:opacity-90 transition-opacity disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
-            {isPreviewCollapsed ? 'Change Settings' : (isProcessing ? 'Processing...' : 'Process')}
+            {isPreviewCollapsed ? t('extractor.changeSettings') : (isProcessing ? t('tool.cancelProgress', { percent: formatPercent(progress) }) : t('tool.process'))}
         </button>
         <button onClick={handleDownload} disabled={isProcessing || extractedFrames.length === 0} className="flex-grow bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
-            Download
+            {t('tool.download')}
         </button>
+        {handoffTargets.map(target => (
+          <button key={target.id} onClick={() => handleSendFrames(target.id)} disabled={isProcessing || extractedFrames.length === 0} className="flex-grow bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+            {target.label}
+          </button>
+        ))}
       </div>
       
       {/* Video Preview and Timeline */}
@@ -355,8 +418,10 @@ export const VideoFrameExtractor: React.FC<{
                 controls
             />
             <div className="flex flex-col gap-1 font-mono text-sm">
+                {/* Media timelines run left to right in every locale */}
                 <div 
                   ref={timelineRef}
+                  dir="ltr"
                   onMouseDown={handleTimelineMouseDown}
                   className="w-full h-4 bg-gray-300 rounded-full cursor-pointer relative"
                 >
@@ -367,19 +432,19 @@ export const VideoFrameExtractor: React.FC<{
                       onClick={(e) => { e.stopPropagation(); handleRemoveMarker(markerTime); }}
                       className="absolute top-[-4px] w-1 h-6 bg-red-500 transform -translate-x-1/2 cursor-pointer"
                       style={{ left: `${(markerTime / videoDuration) * 100}%`}}
-                      title={`Remove marker at ${formatTime(markerTime)}`}
+                      title={t('extractor.removeMarker', { time: formatTime(markerTime) })}
                     ></div>
                   ))}
                   <div className="absolute top-[-4px] w-1 h-6 bg-black transform -translate-x-1/2" style={{ left: `${(currentTime / videoDuration) * 100}%`}}></div>
                 </div>
                 <div className="flex justify-between items-center px-1">
-                    <span>{formatTime(currentTime)} / {formatTime(videoDuration)}</span>
+                    <span dir="ltr">{formatTime(currentTime)} / {formatTime(videoDuration)}</span>
                     <div className="flex items-center gap-2">
                       <button onClick={handleAddMarker} disabled={!videoFile} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
-                        Add Marker
+                        {t('extractor.addMarker')}
                       </button>
                       <button onClick={() => onChangeState({ isPreviewCollapsed: true })} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-                        Hide Preview
+                        {t('extractor.hidePreview')}
                       </button>
                     </div>
                 </div>
@@ -390,11 +455,11 @@ export const VideoFrameExtractor: React.FC<{
       {/* Extracted Frames List */}
       <div ref={scrollContainerRef} className="flex-grow bg-black/10 rounded-lg p-2 overflow-y-auto min-h-0 hide-scrollbar">
         {extractedFrames.length === 0 ? (
-           <div className="flex items-center justify-center h-full text-gray-500">{videoFile ? 'Add markers and process video to see frames.' : 'Upload a video to begin.'}</div>
+           <div className="flex items-center justify-center h-full text-gray-500">{videoFile ? t('extractor.emptyWithVideo') : t('extractor.empty')}</div>
         ) : (
           <>
             <div className="text-xs text-gray-500 font-mono mb-2 px-1">
-              {extractedFrames.length} {extractedFrames.length === 1 ? 'Frame' : 'Frames'}
+              {t('extractor.count', { count: extractedFrames.length })}
             </div>
             <ul className="space-y-2">
               {extractedFrames.map((frame, index) => (
@@ -407,28 +472,28 @@ export const VideoFrameExtractor: React.FC<{
                   onDragOver={(e) => e.preventDefault()}
                   className="flex items-center gap-3 bg-white/50 p-2 rounded-md text-xs font-mono cursor-grab active:cursor-grabbing"
                 >
-                  <div className="flex-shrink-0 text-gray-500" title="Drag to reorder">
+                  <div className="flex-shrink-0 text-gray-500" title={t('tool.dragToReorder')}>
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16m-7 6h7" />
                       </svg>
                   </div>
-                  <img src={frame.previewUrl} alt={`Frame at ${frame.timestamp}`} className="w-32 aspect-[16/9] object-cover rounded-md flex-shrink-0 bg-gray-300" />
+                  <img src={frame.previewUrl} alt={t('extractor.frameAt', { time: formatTime(frame.timestamp) })} className="w-32 aspect-[16/9] object-cover rounded-md flex-shrink-0 bg-gray-300" />
                   <div className="flex-grow grid grid-cols-2 gap-x-2 items-center">
                       <p className="col-span-2 text-sm truncate font-sans font-bold" title={frame.displayName}>{frame.displayName}</p>
                       <div className="text-gray-600">
-                          <p>Timestamp: {formatTime(frame.timestamp)}</p>
+                          <p>{t('extractor.timestamp', { time: formatTime(frame.timestamp) })}</p>
                       </div>
                       <div className="text-green-700 font-semibold">
                           {frame.processedWidth && frame.processedHeight && (
-                              <p>Output: {frame.processedWidth}x{frame.processedHeight}, {formatBytes(frame.processedSize)}</p>
+                              <p>{t('extractor.output', { width: String(frame.processedWidth), height: String(frame.processedHeight), size: frame.processedSize === undefined ? '' : formatBytes(frame.processedSize) })}</p>
                           )}
                       </div>
                   </div>
                   {frame.processedBlob && (
                     <button 
                       onClick={() => handleSingleDownload(frame)} 
-                      title={`Download ${frame.displayName}`}
-                      className="ml-2 flex-shrink-0 bg-gray-700 text-white font-bold p-2 rounded-md hover:bg-gray-600 transition-colors flex items-center justify-center w-8 h-8"
+                      title={t('common.downloadFile', { name: frame.displayName })}
+                      className="ms-2 flex-shrink-0 bg-gray-700 text-white font-bold p-2 rounded-md hover:bg-gray-600 transition-colors flex items-center justify-center w-8 h-8"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                           <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
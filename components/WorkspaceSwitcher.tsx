@@ -0,0 +1,57 @@
+import React from 'react';
+import { WorkspaceSummary } from '../utils/workspaceStore';
+import { useI18n } from '../utils/i18n';
+
+// --- Component ---
+export const WorkspaceSwitcher: React.FC<{
+  workspaces: WorkspaceSummary[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ workspaces, activeId, onSwitch, onCreate, onRename, onDuplicate, onDelete }) => {
+  const { t } = useI18n();
+  const canDelete = workspaces.length > 1;
+
+  return (
+    <div className="flex flex-col gap-3 text-start">
+      <h2 className="text-black font-mono text-xl font-bold">{t('workspaces.title')}</h2>
+      <ul className="flex flex-col gap-2">
+        {workspaces.map(workspace => {
+          const isActive = workspace.id === activeId;
+          return (
+            <li
+              key={workspace.id}
+              className={`flex items-center gap-3 rounded-lg px-3 py-2 ${isActive ? 'bg-black text-white' : 'bg-white/80 text-black'}`}
+            >
+              <button
+                onClick={() => onSwitch(workspace.id)}
+                className="flex-grow min-w-0 truncate font-bold text-start focus:outline-none focus:underline"
+                aria-current={isActive ? 'true' : undefined}
+                title={isActive ? t('workspaces.current') : t('workspaces.switchTo', { name: workspace.name })}
+              >
+                {workspace.name}
+              </button>
+              <button onClick={() => onRename(workspace.id)} className="text-xs hover:underline flex-shrink-0" aria-label={t('workspaces.renameLabel', { name: workspace.name })}>
+                {t('workspaces.rename')}
+              </button>
+              <button onClick={() => onDuplicate(workspace.id)} className="text-xs hover:underline flex-shrink-0" aria-label={t('workspaces.duplicateLabel', { name: workspace.name })}>
+                {t('workspaces.duplicate')}
+              </button>
+              {canDelete && (
+                <button onClick={() => onDelete(workspace.id)} className={`text-xs hover:underline flex-shrink-0 ${isActive ? 'text-red-300' : 'text-red-700'}`} aria-label={t('workspaces.deleteLabel', { name: workspace.name })}>
+                  {t('common.delete')}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <button onClick={onCreate} className="self-start bg-black text-white font-bold py-2 px-4 rounded-lg hover:bg-gray-800 transition-colors">
+        {t('workspaces.new')}
+      </button>
+    </div>
+  );
+};
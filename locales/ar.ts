@@ -0,0 +1,383 @@
+import type { Message, MessageKey } from './en';
+
+// --- Arabic Messages ---
+export const ar: Record<MessageKey, Message> = {
+  // Shared
+  'common.cancel': 'إلغاء',
+  'common.delete': 'حذف',
+  'common.load': 'تحميل',
+  'common.downloadFile': 'تنزيل {name}',
+
+  // App shell
+  'app.sidebar': 'الشريط الجانبي',
+  'app.openSidebar': 'فتح الشريط الجانبي (مساحة العمل: {name})',
+  'app.closeSidebar': 'إغلاق الشريط الجانبي',
+  'app.tabs': 'علامات التبويب',
+  'app.gridHint': 'تنقّل بين علامات التبويب بمفاتيح الأسهم. يفعّل Enter علامة التبويب أو يفتح أداتها، ويغلقها Escape.',
+  'app.scrollToStart': 'العودة إلى البداية',
+  'app.updateAvailable': 'يتوفر إصدار جديد من صندوق الأدوات. هل تريد إعادة التحميل الآن؟',
+  'language.label': 'اللغة',
+
+  // Tabs and panels
+  'tab.slot': 'علامة التبويب {number}',
+  'tab.open': 'فتح',
+  'tab.openLabel': 'فتح {title}',
+  'tab.noteLabelWithTitle': 'ملاحظة #{number}: {title}',
+  'tab.collapseNote': 'طي الملاحظة #{number}',
+  'tab.done': '{number}# تم',
+  'panel.maximize': 'تكبير',
+  'panel.restore': 'استعادة',
+  'panel.maximizeLabel': 'تكبير {title}',
+  'panel.restoreLabel': 'استعادة {title}',
+  'panel.closeLabel': 'إغلاق {title}',
+  'panel.resizeLabel': 'تغيير حجم {title}',
+  'panelLayout.strip': 'شريط',
+  'panelLayout.sideBySide': 'جنبًا إلى جنب',
+  'panelLayout.stacked': 'مكدّسة',
+  'instance.add': '+ نسخة',
+  'instance.addTitle': 'فتح نسخة أخرى من {tool}',
+  'instance.remove': 'إزالة',
+  'instance.removeTitle': 'إزالة هذه النسخة وبياناتها',
+  'instance.removeConfirm': 'هل تريد إزالة {title} وبياناتها؟ لا يمكن التراجع عن ذلك.',
+  'instance.label': 'تسمية النسخة',
+  'instance.labelPlaceholder': 'إضافة تسمية',
+
+  // Notes
+  'note.untitled': 'ملاحظة #{number}',
+  'note.titlePlaceholder': 'العنوان',
+  'note.bodyPlaceholder': 'دوّن أفكارك...',
+  'note.mode': 'عرض الملاحظة',
+  'note.edit': 'تحرير',
+  'note.preview': 'معاينة',
+  'note.previewEmpty': 'لا يوجد ما يُعاين بعد.',
+  'checklist.progress': 'تم {done} من {total}',
+  'checklist.hideDone': 'إخفاء المنجز',
+  'checklist.showDone': 'إظهار المنجز',
+  'checklist.moveHint': 'اسحب لإعادة الترتيب، أو اضغط Alt+سهم لأعلى/لأسفل على مربع الاختيار',
+  'note.pin': 'تثبيت',
+  'note.history': 'السجل',
+  'note.pinned': 'مثبّتة',
+  'note.color': 'لون الملاحظة',
+  'note.tags': 'الوسوم',
+  'note.tagsPlaceholder': 'وسوم مفصولة بفواصل',
+  'noteColor.white': 'أبيض',
+  'noteColor.yellow': 'أصفر',
+  'noteColor.green': 'أخضر',
+  'noteColor.blue': 'أزرق',
+  'noteColor.pink': 'وردي',
+  'noteColor.purple': 'بنفسجي',
+  'noteColor.orange': 'برتقالي',
+
+  // Notes index
+  'notesIndex.title': 'الملاحظات',
+  'notesIndex.label': 'فهرس الملاحظات',
+  'notesIndex.close': 'إغلاق فهرس الملاحظات',
+  'notesIndex.searchPlaceholder': 'ابحث في الملاحظات...',
+  'notesIndex.sort': 'ترتيب الملاحظات',
+  'notesIndex.sortUpdatedDesc': 'الأحدث تعديلًا',
+  'notesIndex.sortUpdatedAsc': 'الأقدم تعديلًا',
+  'notesIndex.sortCreatedDesc': 'الأحدث أولًا',
+  'notesIndex.sortCreatedAsc': 'الأقدم أولًا',
+  'notesIndex.tagFilter': 'التصفية حسب الوسم',
+  'notesIndex.allTags': 'الكل',
+  'notesIndex.count': { zero: 'لا ملاحظات', one: 'ملاحظة واحدة', two: 'ملاحظتان', few: '{count} ملاحظات', many: '{count} ملاحظة', other: '{count} ملاحظة' },
+  'notesIndex.empty': 'لا توجد ملاحظات مطابقة.',
+  'notesIndex.noNotes': 'لا توجد ملاحظات بعد.',
+  'notesIndex.updated': 'عُدّلت {time}',
+  'notesIndex.created': 'أُنشئت {time}',
+  'notesIndex.import': 'استيراد...',
+  'notesIndex.exportAll': 'تصدير الكل',
+  'notesIndex.export': 'تصدير',
+  'notesIndex.exportLabel': 'تصدير {title} بصيغة Markdown',
+
+  // Note revision history
+  'noteHistory.title': 'السجل: {name}',
+  'noteHistory.label': 'سجل نسخ {name}',
+  'noteHistory.close': 'إغلاق سجل النسخ',
+  'noteHistory.revisions': 'النسخ',
+  'noteHistory.empty': 'لا توجد نسخ بعد. تُحفظ نسخة كلما توقفت عن الكتابة.',
+  'noteHistory.current': 'الملاحظة الحالية',
+  'noteHistory.compareWith': 'مقارنة مع',
+  'noteHistory.view': 'عرض الفروق',
+  'noteHistory.inline': 'مدمج',
+  'noteHistory.sideBySide': 'جنبًا إلى جنب',
+  'noteHistory.changes': 'أُضيف {added}، حُذف {removed}',
+  'noteHistory.restore': 'استعادة هذه النسخة',
+  'noteHistory.titleChanged': 'العنوان:',
+  'noteHistory.noTitle': '(بلا عنوان)',
+  'noteHistory.noChanges': 'لا توجد فروق.',
+  'noteHistory.diff': 'الفروق',
+  'noteHistory.added': 'مُضاف:',
+  'noteHistory.removed': 'محذوف:',
+  'noteHistory.retention': 'الاحتفاظ بالنسخ',
+  'noteHistory.perNote': 'لكل ملاحظة',
+  'noteHistory.maxAge': 'أقصى عمر',
+  'noteHistory.revisionCount': { zero: 'لا نسخ', one: 'نسخة واحدة', two: 'نسختان', few: '{count} نسخ', many: '{count} نسخة', other: '{count} نسخة' },
+  'noteHistory.dayCount': { zero: 'لا أيام', one: 'يوم واحد', two: 'يومان', few: '{count} أيام', many: '{count} يومًا', other: '{count} يوم' },
+  'noteHistory.noAgeLimit': 'بلا حد',
+  'noteHistory.pruneConfirm': { zero: 'لن تُحذف أي نسخة. هل تريد المتابعة؟', one: 'ستُحذف نسخة واحدة بسبب الحدود الجديدة. هل تريد المتابعة؟', two: 'ستُحذف نسختان بسبب الحدود الجديدة. هل تريد المتابعة؟', few: 'ستُحذف {count} نسخ بسبب الحدود الجديدة. هل تريد المتابعة؟', many: 'ستُحذف {count} نسخة بسبب الحدود الجديدة. هل تريد المتابعة؟', other: 'ستُحذف {count} نسخة بسبب الحدود الجديدة. هل تريد المتابعة؟' },
+
+  // Context menu
+  'menu.editTheme': 'تعديل السمة...',
+  'menu.exportWorkspace': 'تصدير مساحة العمل',
+  'menu.importWorkspace': 'استيراد مساحة العمل',
+  'menu.exportNotes': 'تصدير الملاحظات بصيغة Markdown',
+  'menu.importNotes': 'استيراد ملاحظات Markdown...',
+  'menu.notesIndex': 'فهرس الملاحظات...',
+  'menu.clearWorkspace': 'مسح مساحة العمل',
+
+  // Workspaces
+  'workspaces.title': 'مساحات العمل',
+  'workspaces.current': 'مساحة العمل الحالية',
+  'workspaces.switchTo': 'الانتقال إلى {name}',
+  'workspaces.rename': 'إعادة تسمية',
+  'workspaces.renameLabel': 'إعادة تسمية مساحة العمل {name}',
+  'workspaces.duplicate': 'تكرار',
+  'workspaces.duplicateLabel': 'تكرار مساحة العمل {name}',
+  'workspaces.deleteLabel': 'حذف مساحة العمل {name}',
+  'workspaces.new': '+ مساحة عمل جديدة',
+  'workspace.defaultName': 'مساحة العمل {number}',
+  'workspace.firstName': 'الافتراضي',
+  'workspace.copyName': '{name} (نسخة)',
+  'workspace.newPrompt': 'اسم مساحة العمل الجديدة:',
+  'workspace.renamePrompt': 'إعادة تسمية مساحة العمل:',
+  'workspace.deleteConfirm': 'هل تريد حذف مساحة العمل "{name}" مع كل ملاحظاتها وبيانات أدواتها؟ لا يمكن التراجع عن ذلك.',
+  'workspace.clearConfirm': 'هل تريد مسح كل الملاحظات وبيانات الأدوات وإعدادات السمة؟ لا يمكن التراجع عن ذلك.',
+  'workspace.importConfirm': 'هل تريد استبدال مساحة العمل الحالية بالمساحة المستوردة؟',
+  'workspace.importPartial': 'تم استيراد مساحة العمل، لكن تعذّر استعادة بعض العناصر:\n\n{failures}',
+  'workspace.importFailed': 'فشل استيراد مساحة العمل: {error}',
+  'workspace.exportFailed': 'فشل تصدير مساحة العمل.',
+  'notes.exportEmpty': 'لا توجد ملاحظات للتصدير.',
+  'notes.exportFailed': 'فشل تصدير الملاحظات.',
+  'notes.importEmpty': 'لم يُعثر على ملاحظات Markdown أو نصية في هذه الملفات.',
+  'notes.importFailed': 'فشل استيراد الملاحظات: {error}',
+  'notes.importCollisions': { zero: 'لا توجد عناوين مكررة.', one: 'توجد ملاحظة بهذا العنوان بالفعل:\n{titles}\n\nهل تريد الاستيراد على أي حال؟', two: 'توجد ملاحظتان بهذين العنوانين بالفعل:\n{titles}\n\nهل تريد الاستيراد على أي حال؟', few: '{count} ملاحظات لها عناوين موجودة بالفعل:\n{titles}\n\nهل تريد الاستيراد على أي حال؟', many: '{count} ملاحظة لها عناوين موجودة بالفعل:\n{titles}\n\nهل تريد الاستيراد على أي حال؟', other: '{count} ملاحظة لها عناوين موجودة بالفعل:\n{titles}\n\nهل تريد الاستيراد على أي حال؟' },
+  'workspace.switchFailed': 'تعذّر تبديل مساحة العمل.',
+  'workspace.createFailed': 'تعذّر إنشاء مساحة العمل.',
+  'workspace.duplicateFailed': 'تعذّر تكرار مساحة العمل.',
+  'workspace.deleteFailed': 'تعذّر حذف مساحة العمل.',
+
+  // Workspace archives
+  'archive.manifestMissing': 'ليس أرشيف مساحة عمل: الملف {path} مفقود.',
+  'archive.invalidJson': 'الملف {path} ليس JSON صالحًا.',
+  'archive.unknownFormat': 'ليس أرشيف مساحة عمل: تنسيق البيان غير معروف.',
+  'archive.unsupportedVersion': 'إصدار أرشيف غير مدعوم: {version}.',
+  'archive.missingStates': 'البيان لا يحتوي على بيانات الأدوات أو الملاحظات.',
+  'archive.invalidTheme': 'السمة: قيمة غير صالحة',
+  'archive.invalidLayout': 'ترتيب علامات التبويب: قيمة غير صالحة',
+  'archive.unknownTool': 'الأداة {key}: نوع الأداة غير معروف أو مفقود',
+  'archive.missingBlobs': '{tool} ({key}): {blobs} مفقود',
+  'archive.invalidNote': 'الملاحظة {key}: بيانات ملاحظة غير صالحة',
+
+  // Command palette
+  'palette.label': 'لوحة الأوامر',
+  'palette.placeholder': 'ابحث في الأدوات والملاحظات والإجراءات...',
+  'palette.empty': 'لا توجد أوامر مطابقة.',
+  'palette.groupTools': 'الأدوات',
+  'palette.groupNotes': 'الملاحظات',
+  'palette.groupActions': 'الإجراءات',
+  'palette.groupShortcuts': 'الاختصارات',
+  'palette.openTool': 'فتح {title}',
+  'palette.closeTool': 'إغلاق {title}',
+  'palette.newInstance': 'نسخة جديدة من {tool}',
+  'palette.applyTheme': 'تطبيق السمة: {name}',
+  'palette.editTheme': 'تعديل السمة',
+  'palette.editThemeSubtitle': 'اختيار ألوان مخصصة للخلفية وعلامات التبويب واللون المميز',
+  'palette.undo': 'تراجع',
+  'palette.redo': 'إعادة',
+  'palette.closeAllTools': 'إغلاق كل الأدوات',
+  'palette.panelLayout': 'ترتيب اللوحات: {layout}',
+  'palette.switchWorkspace': 'تبديل مساحة العمل: {name}',
+  'palette.newWorkspace': 'مساحة عمل جديدة',
+  'palette.changeShortcut': 'تغيير الاختصار: {tool}',
+  'palette.notesIndex': 'تصفح كل الملاحظات',
+  'palette.exportNotes': 'تصدير الملاحظات بصيغة Markdown',
+  'palette.importNotes': 'استيراد ملاحظات Markdown',
+  'palette.language': 'اللغة: {language}',
+  'shortcut.prompt': 'اضغط مجموعة المفاتيح الجديدة',
+  'shortcut.cancelHint': 'Esc للإلغاء',
+
+  // Theme editor
+  'theme.editorLabel': 'محرر السمات',
+  'theme.editorTitle': 'محرر السمات',
+  'theme.close': 'إغلاق محرر السمات',
+  'theme.previewInactive': 'علامة تبويب غير نشطة',
+  'theme.previewActive': 'علامة تبويب نشطة',
+  'theme.accent': 'اللون المميز',
+  'theme.accentHint': 'علامات التبويب النشطة والأزرار الرئيسية',
+  'theme.surface': 'سطح علامة التبويب',
+  'theme.surfaceHint': 'علامات تبويب الأدوات غير النشطة',
+  'theme.background': 'الخلفية',
+  'theme.backgroundHint': 'خلف الشبكة',
+  'theme.colorLabel': 'اللون: {label}',
+  'theme.hexLabel': 'القيمة الست عشرية: {label}',
+  'theme.contrastHint': 'تباين النص على هذا اللون (يتطلب WCAG AA نسبة {ratio}:1)',
+  'theme.surfaceWarning': 'لا يمكن قراءة النص الأسود ولا الأبيض بوضوح على لون السطح هذا.',
+  'theme.accentWarning': 'لا يمكن قراءة النص الأسود ولا الأبيض بوضوح على هذا اللون المميز.',
+  'theme.namePlaceholder': 'اسم السمة',
+  'theme.save': 'حفظ',
+  'theme.update': 'تحديث',
+  'theme.list': 'السمات',
+  'theme.builtIn': 'مدمجة',
+  'theme.deleteLabel': 'حذف السمة {name}',
+
+  // Side bar dashboard and jobs
+  'dashboard.jobs': 'المهام',
+  'dashboard.noJobs': 'لا توجد مهام حديثة.',
+  'dashboard.openTools': 'الأدوات المفتوحة',
+  'dashboard.noOpenTools': 'لا توجد لوحات أدوات مفتوحة.',
+  'dashboard.recentNotes': 'أحدث الملاحظات',
+  'dashboard.noNotes': 'لا توجد ملاحظات بعد.',
+  'dashboard.allNotes': 'كل الملاحظات',
+  'dashboard.recentOutputs': 'أحدث النتائج',
+  'dashboard.noOutputs': 'تظهر هنا الصور المعالجة والإطارات المستخرجة.',
+  'dashboard.removedTool': 'أداة محذوفة',
+  'jobs.working': 'جارٍ العمل…',
+  'jobs.done': 'تم',
+  'jobs.cancelled': 'أُلغيت',
+  'jobs.failed': 'فشلت',
+  'jobs.itemsFailed': {
+    zero: 'لم يفشل أي عنصر',
+    one: 'فشل عنصر واحد',
+    two: 'فشل عنصران',
+    few: 'فشلت {count} عناصر',
+    many: 'فشل {count} عنصرًا',
+    other: 'فشل {count} عنصر',
+  },
+  'jobs.cancelLabel': 'إلغاء {title}',
+  'jobs.retry': 'إعادة المحاولة',
+  'jobs.retryLabel': 'إعادة محاولة {title}',
+  'jobs.retrying': 'جارٍ إعادة المحاولة…',
+  'jobs.dismiss': 'تجاهل',
+  'jobs.dismissLabel': 'تجاهل {title}',
+  'jobs.failedItems': 'العناصر الفاشلة في {title}',
+  'jobs.show': 'عرض',
+
+  // Dropped files and handoff
+  'files.count': {
+    zero: 'لا ملفات',
+    one: 'ملف واحد',
+    two: 'ملفان',
+    few: '{count} ملفات',
+    many: '{count} ملفًا',
+    other: '{count} ملف',
+  },
+  'files.readFailed': 'تعذّرت قراءة {files}.',
+  'files.unsupported': 'لا توجد أداة تفتح {files}.',
+  'files.skipped': {
+    one: 'يمكن تحميل فيديو واحد فقط في كل مرة، لذا تم تخطي {files}.',
+    other: 'يمكن تحميل فيديو واحد فقط في كل مرة، لذا تم تخطي {files}.',
+  },
+  'fileChooser.title': 'إلى أين تُرسل؟',
+  'fileChooser.openTab': 'علامة التبويب {number} · مفتوحة',
+  'fileChooser.newInstance': 'نسخة جديدة من {tool}',
+  'drop.title': 'أفلت الملفات لفتحها',
+  'drop.notes': 'نص، Markdown ← ملاحظة جديدة',
+  'handoff.sendTo': 'إرسال إلى {tool}',
+  'handoff.failed': 'تعذّر إرسال {items} إلى {tool}.',
+
+  // Tools
+  'tools.imageResizer.title': 'مغيّر حجم الصور دفعةً واحدة',
+  'tools.imageResizer.description': 'غيّر حجم عدة صور وأعد تسميتها واضغطها. حوّلها إلى JPG/PNG.',
+  'tools.imageResizer.handoff': 'إرسال إلى مغيّر الحجم',
+  'tools.videoExtractor.title': 'ملتقط إطارات الفيديو',
+  'tools.videoExtractor.description': 'استخرج بسرعة عدة لقطات ثابتة من ملفات الفيديو. أعد تسمية الإطارات المستخرجة أو غيّر حجمها دفعةً واحدة.',
+  'tools.gitManager.title': 'مدير Git',
+  'tools.gitManager.description': 'عاين الملفات وانسخ الروابط من أي مستودع GitHub Pages عام.',
+  'tools.screenSizeChecker.title': 'فاحص أحجام الشاشات',
+  'tools.screenSizeChecker.description': 'اختبر استجابة المواقع على أحجام شاشات مختلفة.',
+
+  // Shared by the media tools
+  'tool.reset': 'إعادة تعيين',
+  'tool.baseNamePlaceholder': 'اسم أساسي جديد (اختياري)',
+  'tool.compressionOn': 'الضغط: مفعّل',
+  'tool.compressionOff': 'الضغط: معطّل',
+  'tool.process': 'معالجة',
+  'tool.cancelProgress': 'إلغاء ({percent})',
+  'tool.download': 'تنزيل',
+  'tool.dragToReorder': 'اسحب لإعادة الترتيب',
+  'tool.jobZip': 'ضغط {name}',
+  'tool.encodeNoCanvas': 'تعذّر الحصول على لوحة رسم للصورة',
+  'tool.encodeNoBlob': 'تعذّر تحويل الصورة إلى ملف',
+  'tool.encodeFailed': 'تعذّر ترميز الصورة',
+
+  // Batch Image Resizer
+  'resizer.upload': 'رفع الصور',
+  'resizer.empty': 'ستظهر معاينات الصور هنا.',
+  'resizer.count': {
+    zero: 'لا صور',
+    one: 'صورة واحدة',
+    two: 'صورتان',
+    few: '{count} صور',
+    many: '{count} صورة',
+    other: '{count} صورة',
+  },
+  'resizer.previewAlt': 'معاينة',
+  'resizer.original': 'الأصل: {width}x{height}، {size}',
+  'resizer.processed': 'بعد المعالجة: {width}x{height}، {size}',
+  'resizer.jobResize': {
+    one: 'تغيير حجم صورة واحدة',
+    two: 'تغيير حجم صورتين',
+    few: 'تغيير حجم {count} صور',
+    other: 'تغيير حجم {count} صورة',
+  },
+
+  // Video Frame Grabber
+  'extractor.upload': 'رفع فيديو',
+  'extractor.changeSettings': 'تغيير الإعدادات',
+  'extractor.addMarker': 'إضافة علامة',
+  'extractor.hidePreview': 'إخفاء المعاينة',
+  'extractor.removeMarker': 'إزالة العلامة عند {time}',
+  'extractor.empty': 'ارفع فيديو للبدء.',
+  'extractor.emptyWithVideo': 'أضف علامات وعالج الفيديو لرؤية الإطارات.',
+  'extractor.count': {
+    zero: 'لا إطارات',
+    one: 'إطار واحد',
+    two: 'إطاران',
+    few: '{count} إطارات',
+    many: '{count} إطارًا',
+    other: '{count} إطار',
+  },
+  'extractor.frameAt': 'الإطار عند {time}',
+  'extractor.timestamp': 'الوقت: {time}',
+  'extractor.output': 'الناتج: {width}x{height}، {size}',
+  'extractor.jobExtract': {
+    one: 'استخراج إطار واحد',
+    two: 'استخراج إطارين',
+    few: 'استخراج {count} إطارات',
+    many: 'استخراج {count} إطارًا',
+    other: 'استخراج {count} إطار',
+  },
+  'extractor.loadFailed': 'تعذّر تحميل {name}',
+
+  // Git Manager
+  'git.urlPlaceholder': 'رابط مستودع GitHub',
+  'git.root': 'الجذر',
+  'git.loadingInitial': 'جارٍ تحميل المستودع...',
+  'git.empty': 'سيظهر محتوى المستودع هنا.',
+  'git.copyPath': 'نسخ المسار',
+  'git.copyPathTitle': 'نسخ مسار {name}',
+  'git.copyAllPaths': 'نسخ كل المسارات',
+  'git.copied': 'تم النسخ!',
+  'git.sending': 'جارٍ الإرسال...',
+  'git.previewUnavailable': 'المعاينة غير متاحة لهذا النوع من الملفات.',
+  'git.invalidUrl': 'تنسيق رابط GitHub Pages أو المستودع غير صالح.',
+  'git.notFound': 'لم يُعثر على المستودع أو أن المسار غير صالح. يرجى التحقق من الرابط.',
+  'git.rateLimited': 'تم تجاوز حد الطلبات أو أن المستودع خاص. يرجى الانتظار والمحاولة مجددًا.',
+  'git.apiError': 'خطأ في واجهة GitHub البرمجية: {status}',
+  'git.invalidResponse': 'استجابة غير صالحة من واجهة GitHub البرمجية. كان من المتوقع قائمة ملفات.',
+  'git.fetchContentFailed': 'تعذّر جلب المحتوى: {status}',
+  'git.fetchFileFailed': 'تعذّر جلب {name}: {status}',
+  'git.jobLoad': 'تحميل {path}',
+  'git.jobSend': 'إرسال {name}',
+
+  // Screen Size Checker
+  'screen.urlPlaceholder': 'أدخل رابط الموقع',
+  'screen.loadLabel': 'تحميل الموقع في المعاينة',
+  'screen.deviceLabel': 'اختر جهاز المعاينة',
+  'screen.toggleOrientation': 'تبديل الاتجاه',
+  'screen.switchToLandscape': 'التبديل إلى العرض الأفقي',
+  'screen.switchToPortrait': 'التبديل إلى العرض الرأسي',
+  'screen.loading': 'جارٍ تحميل معاينة الموقع',
+  'screen.previewTitle': 'معاينة الموقع',
+};
@@ -0,0 +1,344 @@
+import type { Message, MessageKey } from './en';
+
+// --- German Messages ---
+export const de: Record<MessageKey, Message> = {
+  // Shared
+  'common.cancel': 'Abbrechen',
+  'common.delete': 'Löschen',
+  'common.load': 'Laden',
+  'common.downloadFile': '{name} herunterladen',
+
+  // App shell
+  'app.sidebar': 'Seitenleiste',
+  'app.openSidebar': 'Seitenleiste öffnen (Arbeitsbereich: {name})',
+  'app.closeSidebar': 'Seitenleiste schließen',
+  'app.tabs': 'Tabs',
+  'app.gridHint': 'Mit den Pfeiltasten zwischen Tabs wechseln. Eingabe aktiviert einen Tab oder öffnet sein Werkzeug, Escape schließt es.',
+  'app.scrollToStart': 'Zum Anfang scrollen',
+  'app.updateAvailable': 'Eine neue Version der Toolbox ist verfügbar. Jetzt neu laden?',
+  'language.label': 'Sprache',
+
+  // Tabs and panels
+  'tab.slot': 'Tab {number}',
+  'tab.open': 'Öffnen',
+  'tab.openLabel': '{title} öffnen',
+  'tab.noteLabelWithTitle': 'Notiz-Tab #{number}: {title}',
+  'tab.collapseNote': 'Notiz-Tab #{number} einklappen',
+  'tab.done': '{number}# Fertig',
+  'panel.maximize': 'Maximieren',
+  'panel.restore': 'Wiederherstellen',
+  'panel.maximizeLabel': '{title} maximieren',
+  'panel.restoreLabel': '{title} wiederherstellen',
+  'panel.closeLabel': '{title} schließen',
+  'panel.resizeLabel': 'Größe von {title} ändern',
+  'panelLayout.strip': 'Leiste',
+  'panelLayout.sideBySide': 'Nebeneinander',
+  'panelLayout.stacked': 'Gestapelt',
+  'instance.add': '+ Instanz',
+  'instance.addTitle': 'Weitere Instanz von {tool} öffnen',
+  'instance.remove': 'Entfernen',
+  'instance.removeTitle': 'Diese Instanz und ihre Daten entfernen',
+  'instance.removeConfirm': '{title} und die zugehörigen Daten entfernen? Dies kann nicht rückgängig gemacht werden.',
+  'instance.label': 'Bezeichnung der Instanz',
+  'instance.labelPlaceholder': 'Bezeichnung hinzufügen',
+
+  // Notes
+  'note.untitled': 'Notiz-Tab #{number}',
+  'note.titlePlaceholder': 'Titel',
+  'note.bodyPlaceholder': 'Gedanken notieren...',
+  'note.mode': 'Notizansicht',
+  'note.edit': 'Bearbeiten',
+  'note.preview': 'Vorschau',
+  'note.previewEmpty': 'Noch nichts für die Vorschau.',
+  'checklist.progress': '{done}/{total} erledigt',
+  'checklist.hideDone': 'Erledigte ausblenden',
+  'checklist.showDone': 'Erledigte anzeigen',
+  'checklist.moveHint': 'Zum Umsortieren ziehen oder auf dem Kontrollkästchen Alt+Pfeil hoch/runter drücken',
+  'note.pin': 'Anheften',
+  'note.history': 'Verlauf',
+  'note.pinned': 'Angeheftet',
+  'note.color': 'Notizfarbe',
+  'note.tags': 'Tags',
+  'note.tagsPlaceholder': 'Tags, durch Kommas getrennt',
+  'noteColor.white': 'Weiß',
+  'noteColor.yellow': 'Gelb',
+  'noteColor.green': 'Grün',
+  'noteColor.blue': 'Blau',
+  'noteColor.pink': 'Rosa',
+  'noteColor.purple': 'Lila',
+  'noteColor.orange': 'Orange',
+
+  // Notes index
+  'notesIndex.title': 'Notizen',
+  'notesIndex.label': 'Notizübersicht',
+  'notesIndex.close': 'Notizübersicht schließen',
+  'notesIndex.searchPlaceholder': 'Notizen durchsuchen...',
+  'notesIndex.sort': 'Notizen sortieren',
+  'notesIndex.sortUpdatedDesc': 'Zuletzt geändert',
+  'notesIndex.sortUpdatedAsc': 'Am längsten nicht geändert',
+  'notesIndex.sortCreatedDesc': 'Neueste zuerst',
+  'notesIndex.sortCreatedAsc': 'Älteste zuerst',
+  'notesIndex.tagFilter': 'Nach Tag filtern',
+  'notesIndex.allTags': 'Alle',
+  'notesIndex.count': { one: '{count} Notiz', other: '{count} Notizen' },
+  'notesIndex.empty': 'Keine passenden Notizen.',
+  'notesIndex.noNotes': 'Noch keine Notizen.',
+  'notesIndex.updated': 'Geändert {time}',
+  'notesIndex.created': 'Erstellt {time}',
+  'notesIndex.import': 'Importieren...',
+  'notesIndex.exportAll': 'Alle exportieren',
+  'notesIndex.export': 'Exportieren',
+  'notesIndex.exportLabel': '{title} als Markdown exportieren',
+
+  // Note revision history
+  'noteHistory.title': 'Verlauf: {name}',
+  'noteHistory.label': 'Versionsverlauf von {name}',
+  'noteHistory.close': 'Versionsverlauf schließen',
+  'noteHistory.revisions': 'Versionen',
+  'noteHistory.empty': 'Noch keine Versionen. Sobald du beim Tippen pausierst, wird ein Stand gespeichert.',
+  'noteHistory.current': 'Aktuelle Notiz',
+  'noteHistory.compareWith': 'Vergleichen mit',
+  'noteHistory.view': 'Diff-Ansicht',
+  'noteHistory.inline': 'Fortlaufend',
+  'noteHistory.sideBySide': 'Nebeneinander',
+  'noteHistory.changes': '{added} hinzugefügt, {removed} entfernt',
+  'noteHistory.restore': 'Diese Version wiederherstellen',
+  'noteHistory.titleChanged': 'Titel:',
+  'noteHistory.noTitle': '(ohne Titel)',
+  'noteHistory.noChanges': 'Keine Unterschiede.',
+  'noteHistory.diff': 'Unterschiede',
+  'noteHistory.added': 'Hinzugefügt:',
+  'noteHistory.removed': 'Entfernt:',
+  'noteHistory.retention': 'Versionen behalten',
+  'noteHistory.perNote': 'Pro Notiz',
+  'noteHistory.maxAge': 'Höchstalter',
+  'noteHistory.revisionCount': { one: '{count} Version', other: '{count} Versionen' },
+  'noteHistory.dayCount': { one: '{count} Tag', other: '{count} Tage' },
+  'noteHistory.noAgeLimit': 'Unbegrenzt',
+  'noteHistory.pruneConfirm': { one: 'Mit den neuen Grenzen wird {count} Version gelöscht. Fortfahren?', other: 'Mit den neuen Grenzen werden {count} Versionen gelöscht. Fortfahren?' },
+
+  // Context menu
+  'menu.editTheme': 'Design bearbeiten...',
+  'menu.exportWorkspace': 'Arbeitsbereich exportieren',
+  'menu.importWorkspace': 'Arbeitsbereich importieren',
+  'menu.exportNotes': 'Notizen als Markdown exportieren',
+  'menu.importNotes': 'Markdown-Notizen importieren...',
+  'menu.notesIndex': 'Notizübersicht...',
+  'menu.clearWorkspace': 'Arbeitsbereich leeren',
+
+  // Workspaces
+  'workspaces.title': 'Arbeitsbereiche',
+  'workspaces.current': 'Aktueller Arbeitsbereich',
+  'workspaces.switchTo': 'Zu {name} wechseln',
+  'workspaces.rename': 'Umbenennen',
+  'workspaces.renameLabel': 'Arbeitsbereich {name} umbenennen',
+  'workspaces.duplicate': 'Duplizieren',
+  'workspaces.duplicateLabel': 'Arbeitsbereich {name} duplizieren',
+  'workspaces.deleteLabel': 'Arbeitsbereich {name} löschen',
+  'workspaces.new': '+ Neuer Arbeitsbereich',
+  'workspace.defaultName': 'Arbeitsbereich {number}',
+  'workspace.firstName': 'Standard',
+  'workspace.copyName': '{name} (Kopie)',
+  'workspace.newPrompt': 'Name des neuen Arbeitsbereichs:',
+  'workspace.renamePrompt': 'Arbeitsbereich umbenennen:',
+  'workspace.deleteConfirm': 'Den Arbeitsbereich „{name}“ mit allen Notizen und Werkzeugdaten löschen? Dies kann nicht rückgängig gemacht werden.',
+  'workspace.clearConfirm': 'Alle Notizen, Werkzeugdaten und Designeinstellungen löschen? Dies kann nicht rückgängig gemacht werden.',
+  'workspace.importConfirm': 'Den aktuellen Arbeitsbereich durch den importierten ersetzen?',
+  'workspace.importPartial': 'Arbeitsbereich importiert, aber einige Einträge konnten nicht wiederhergestellt werden:\n\n{failures}',
+  'workspace.importFailed': 'Import des Arbeitsbereichs fehlgeschlagen: {error}',
+  'workspace.exportFailed': 'Export des Arbeitsbereichs fehlgeschlagen.',
+  'notes.exportEmpty': 'Es gibt keine Notizen zum Exportieren.',
+  'notes.exportFailed': 'Export der Notizen fehlgeschlagen.',
+  'notes.importEmpty': 'In diesen Dateien wurden keine Markdown- oder Textnotizen gefunden.',
+  'notes.importFailed': 'Import der Notizen fehlgeschlagen: {error}',
+  'notes.importCollisions': { one: 'Eine Notiz mit diesem Titel existiert bereits:\n{titles}\n\nTrotzdem importieren?', other: '{count} Notizen haben bereits vorhandene Titel:\n{titles}\n\nTrotzdem importieren?' },
+  'workspace.switchFailed': 'Wechsel des Arbeitsbereichs fehlgeschlagen.',
+  'workspace.createFailed': 'Arbeitsbereich konnte nicht erstellt werden.',
+  'workspace.duplicateFailed': 'Arbeitsbereich konnte nicht dupliziert werden.',
+  'workspace.deleteFailed': 'Arbeitsbereich konnte nicht gelöscht werden.',
+
+  // Workspace archives
+  'archive.manifestMissing': 'Kein Arbeitsbereich-Archiv: {path} fehlt.',
+  'archive.invalidJson': '{path} ist kein gültiges JSON.',
+  'archive.unknownFormat': 'Kein Arbeitsbereich-Archiv: unbekanntes Manifest-Format.',
+  'archive.unsupportedVersion': 'Nicht unterstützte Archivversion: {version}.',
+  'archive.missingStates': 'Im Manifest fehlen Werkzeug- oder Notizdaten.',
+  'archive.invalidTheme': 'Design: ungültiger Wert',
+  'archive.invalidLayout': 'Tab-Anordnung: ungültiger Wert',
+  'archive.unknownTool': 'Werkzeug {key}: unbekannter oder fehlender Werkzeugtyp',
+  'archive.missingBlobs': '{tool} ({key}): {blobs} fehlt',
+  'archive.invalidNote': 'Notiz {key}: ungültige Notizdaten',
+
+  // Command palette
+  'palette.label': 'Befehlspalette',
+  'palette.placeholder': 'Werkzeuge, Notizen und Aktionen suchen...',
+  'palette.empty': 'Keine passenden Befehle.',
+  'palette.groupTools': 'Werkzeuge',
+  'palette.groupNotes': 'Notizen',
+  'palette.groupActions': 'Aktionen',
+  'palette.groupShortcuts': 'Tastenkürzel',
+  'palette.openTool': '{title} öffnen',
+  'palette.closeTool': '{title} schließen',
+  'palette.newInstance': 'Neue Instanz von {tool}',
+  'palette.applyTheme': 'Design anwenden: {name}',
+  'palette.editTheme': 'Design bearbeiten',
+  'palette.editThemeSubtitle': 'Eigene Hintergrund-, Tab- und Akzentfarben wählen',
+  'palette.undo': 'Rückgängig',
+  'palette.redo': 'Wiederholen',
+  'palette.closeAllTools': 'Alle Werkzeuge schließen',
+  'palette.panelLayout': 'Panel-Anordnung: {layout}',
+  'palette.switchWorkspace': 'Arbeitsbereich wechseln: {name}',
+  'palette.newWorkspace': 'Neuer Arbeitsbereich',
+  'palette.changeShortcut': 'Tastenkürzel ändern: {tool}',
+  'palette.notesIndex': 'Alle Notizen durchsuchen',
+  'palette.exportNotes': 'Notizen als Markdown exportieren',
+  'palette.importNotes': 'Markdown-Notizen importieren',
+  'palette.language': 'Sprache: {language}',
+  'shortcut.prompt': 'Neue Tastenkombination drücken',
+  'shortcut.cancelHint': 'Esc zum Abbrechen',
+
+  // Theme editor
+  'theme.editorLabel': 'Design-Editor',
+  'theme.editorTitle': 'Design-Editor',
+  'theme.close': 'Design-Editor schließen',
+  'theme.previewInactive': 'Inaktiver Tab',
+  'theme.previewActive': 'Aktiver Tab',
+  'theme.accent': 'Akzent',
+  'theme.accentHint': 'Aktive Tabs und Hauptschaltflächen',
+  'theme.surface': 'Tab-Fläche',
+  'theme.surfaceHint': 'Inaktive Werkzeug-Tabs',
+  'theme.background': 'Hintergrund',
+  'theme.backgroundHint': 'Hinter dem Raster',
+  'theme.colorLabel': 'Farbe: {label}',
+  'theme.hexLabel': 'Hex-Wert: {label}',
+  'theme.contrastHint': 'Kontrast des Textes auf dieser Farbe (WCAG AA verlangt {ratio}:1)',
+  'theme.surfaceWarning': 'Weder schwarzer noch weißer Text ist auf dieser Tab-Flächenfarbe gut lesbar.',
+  'theme.accentWarning': 'Weder schwarzer noch weißer Text ist auf dieser Akzentfarbe gut lesbar.',
+  'theme.namePlaceholder': 'Name des Designs',
+  'theme.save': 'Speichern',
+  'theme.update': 'Aktualisieren',
+  'theme.list': 'Designs',
+  'theme.builtIn': 'integriert',
+  'theme.deleteLabel': 'Design {name} löschen',
+
+  // Side bar dashboard and jobs
+  'dashboard.jobs': 'Aufträge',
+  'dashboard.noJobs': 'Keine aktuellen Aufträge.',
+  'dashboard.openTools': 'Offene Werkzeuge',
+  'dashboard.noOpenTools': 'Keine Werkzeug-Panels geöffnet.',
+  'dashboard.recentNotes': 'Letzte Notizen',
+  'dashboard.noNotes': 'Noch keine Notizen.',
+  'dashboard.allNotes': 'Alle Notizen',
+  'dashboard.recentOutputs': 'Letzte Ergebnisse',
+  'dashboard.noOutputs': 'Verarbeitete Bilder und extrahierte Frames erscheinen hier.',
+  'dashboard.removedTool': 'Entferntes Werkzeug',
+  'jobs.working': 'In Arbeit…',
+  'jobs.done': 'Fertig',
+  'jobs.cancelled': 'Abgebrochen',
+  'jobs.failed': 'Fehlgeschlagen',
+  'jobs.itemsFailed': { one: '{count} Element fehlgeschlagen', other: '{count} Elemente fehlgeschlagen' },
+  'jobs.cancelLabel': '{title} abbrechen',
+  'jobs.retry': 'Wiederholen',
+  'jobs.retryLabel': '{title} wiederholen',
+  'jobs.retrying': 'Wird wiederholt…',
+  'jobs.dismiss': 'Ausblenden',
+  'jobs.dismissLabel': '{title} ausblenden',
+  'jobs.failedItems': 'Fehlgeschlagene Elemente von {title}',
+  'jobs.show': 'Anzeigen',
+
+  // Dropped files and handoff
+  'files.count': { one: '{count} Datei', other: '{count} Dateien' },
+  'files.readFailed': '{files} konnte nicht gelesen werden.',
+  'files.unsupported': 'Kein Werkzeug kann {files} öffnen.',
+  'files.skipped': {
+    one: 'Es kann nur ein Video gleichzeitig geladen werden, daher wurde {files} übersprungen.',
+    other: 'Es kann nur ein Video gleichzeitig geladen werden, daher wurden {files} übersprungen.',
+  },
+  'fileChooser.title': 'Wohin damit?',
+  'fileChooser.openTab': 'Tab {number} · geöffnet',
+  'fileChooser.newInstance': 'Neu: {tool}',
+  'drop.title': 'Dateien zum Öffnen hier ablegen',
+  'drop.notes': 'Text, Markdown → neue Notiz',
+  'handoff.sendTo': 'An {tool} senden',
+  'handoff.failed': '{items} konnte nicht an {tool} gesendet werden.',
+
+  // Tools
+  'tools.imageResizer.title': 'Stapel-Bildskalierer',
+  'tools.imageResizer.description': 'Mehrere Bilder skalieren, umbenennen und komprimieren. In JPG/PNG umwandeln.',
+  'tools.imageResizer.handoff': 'An Skalierer senden',
+  'tools.videoExtractor.title': 'Video-Frame-Grabber',
+  'tools.videoExtractor.description': 'Schnell mehrere Standbilder aus Videodateien extrahieren. Extrahierte Frames stapelweise umbenennen oder skalieren.',
+  'tools.gitManager.title': 'Git-Manager',
+  'tools.gitManager.description': 'Dateien jedes öffentlichen GitHub-Pages-Repositorys ansehen und Links kopieren.',
+  'tools.screenSizeChecker.title': 'Bildschirmgrößen-Prüfer',
+  'tools.screenSizeChecker.description': 'Responsivität von Websites auf verschiedenen Bildschirmgrößen testen.',
+
+  // Shared by the media tools
+  'tool.reset': 'Zurücksetzen',
+  'tool.baseNamePlaceholder': 'Neuer Basisname (optional)',
+  'tool.compressionOn': 'Komprimierung: An',
+  'tool.compressionOff': 'Komprimierung: Aus',
+  'tool.process': 'Verarbeiten',
+  'tool.cancelProgress': 'Abbrechen ({percent})',
+  'tool.download': 'Herunterladen',
+  'tool.dragToReorder': 'Zum Umsortieren ziehen',
+  'tool.jobZip': '{name} packen',
+  'tool.encodeNoCanvas': 'Keine Zeichenfläche für das Bild verfügbar',
+  'tool.encodeNoBlob': 'Das Bild konnte nicht in eine Datei umgewandelt werden',
+  'tool.encodeFailed': 'Das Bild konnte nicht kodiert werden',
+
+  // Batch Image Resizer
+  'resizer.upload': 'Bilder hochladen',
+  'resizer.empty': 'Bildvorschauen erscheinen hier.',
+  'resizer.count': { one: '{count} Bild', other: '{count} Bilder' },
+  'resizer.previewAlt': 'Vorschau',
+  'resizer.original': 'Original: {width}x{height}, {size}',
+  'resizer.processed': 'Verarbeitet: {width}x{height}, {size}',
+  'resizer.jobResize': { one: '{count} Bild skalieren', other: '{count} Bilder skalieren' },
+
+  // Video Frame Grabber
+  'extractor.upload': 'Video hochladen',
+  'extractor.changeSettings': 'Einstellungen ändern',
+  'extractor.addMarker': 'Markierung setzen',
+  'extractor.hidePreview': 'Vorschau ausblenden',
+  'extractor.removeMarker': 'Markierung bei {time} entfernen',
+  'extractor.empty': 'Zum Start ein Video hochladen.',
+  'extractor.emptyWithVideo': 'Markierungen setzen und das Video verarbeiten, um Frames zu sehen.',
+  'extractor.count': { one: '{count} Frame', other: '{count} Frames' },
+  'extractor.frameAt': 'Frame bei {time}',
+  'extractor.timestamp': 'Zeitpunkt: {time}',
+  'extractor.output': 'Ausgabe: {width}x{height}, {size}',
+  'extractor.jobExtract': { one: '{count} Frame extrahieren', other: '{count} Frames extrahieren' },
+  'extractor.loadFailed': '{name} konnte nicht geladen werden',
+
+  // Git Manager
+  'git.urlPlaceholder': 'URL des GitHub-Repositorys',
+  'git.root': 'Stammverzeichnis',
+  'git.loadingInitial': 'Repository wird geladen...',
+  'git.empty': 'Inhalte des Repositorys erscheinen hier.',
+  'git.copyPath': 'Pfad kopieren',
+  'git.copyPathTitle': 'Pfad zu {name} kopieren',
+  'git.copyAllPaths': 'Alle Pfade kopieren',
+  'git.copied': 'Kopiert!',
+  'git.sending': 'Wird gesendet...',
+  'git.previewUnavailable': 'Für diesen Dateityp ist keine Vorschau verfügbar.',
+  'git.invalidUrl': 'Ungültiges Format der GitHub-Pages- oder Repository-URL.',
+  'git.notFound': 'Repository nicht gefunden oder Pfad ungültig. Bitte die URL prüfen.',
+  'git.rateLimited': 'API-Limit überschritten oder privates Repository. Bitte warten und erneut versuchen.',
+  'git.apiError': 'GitHub-API-Fehler: {status}',
+  'git.invalidResponse': 'Ungültige Antwort der GitHub-API. Erwartet wurde eine Liste von Dateien.',
+  'git.fetchContentFailed': 'Inhalt konnte nicht abgerufen werden: {status}',
+  'git.fetchFileFailed': '{name} konnte nicht abgerufen werden: {status}',
+  'git.jobLoad': '{path} laden',
+  'git.jobSend': '{name} senden',
+
+  // Screen Size Checker
+  'screen.urlPlaceholder': 'Website-URL eingeben',
+  'screen.loadLabel': 'Website in der Vorschau laden',
+  'screen.deviceLabel': 'Gerät für die Vorschau wählen',
+  'screen.toggleOrientation': 'Ausrichtung wechseln',
+  'screen.switchToLandscape': 'Zur Queransicht wechseln',
+  'screen.switchToPortrait': 'Zur Hochansicht wechseln',
+  'screen.loading': 'Website-Vorschau wird geladen',
+  'screen.previewTitle': 'Website-Vorschau',
+};
@@ -0,0 +1,351 @@
+// --- English Messages ---
+// The reference catalog: its keys are the message keys, and other locales must translate
+// every one of them. Plural messages pick a form by the `count` param using the locale's
+// plural rules (Intl.PluralRules), so languages can supply forms English doesn't have.
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export const en = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.load': 'Load',
+  'common.downloadFile': 'Download {name}',
+
+  // App shell
+  'app.sidebar': 'Side bar',
+  'app.openSidebar': 'Open Side bar (workspace: {name})',
+  'app.closeSidebar': 'Close Side bar',
+  'app.tabs': 'Tabs',
+  'app.gridHint': 'Arrow keys move between tabs. Enter activates a tab or opens its tool, Escape closes it.',
+  'app.scrollToStart': 'Scroll to start',
+  'app.updateAvailable': 'A new version of the toolbox is available. Reload now?',
+  'language.label': 'Language',
+
+  // Tabs and panels
+  'tab.slot': 'Tab {number}',
+  'tab.open': 'Open',
+  'tab.openLabel': 'Open {title}',
+  'tab.noteLabelWithTitle': 'Note Tab #{number}: {title}',
+  'tab.collapseNote': 'Collapse Note Tab #{number}',
+  'tab.done': '{number}# Done',
+  'panel.maximize': 'Maximize',
+  'panel.restore': 'Restore',
+  'panel.maximizeLabel': 'Maximize {title}',
+  'panel.restoreLabel': 'Restore {title}',
+  'panel.closeLabel': 'Close {title}',
+  'panel.resizeLabel': 'Resize {title}',
+  'panelLayout.strip': 'Strip',
+  'panelLayout.sideBySide': 'Side by side',
+  'panelLayout.stacked': 'Stacked',
+  'instance.add': '+ Instance',
+  'instance.addTitle': 'Open another {tool}',
+  'instance.remove': 'Remove',
+  'instance.removeTitle': 'Remove this instance and its data',
+  'instance.removeConfirm': 'Remove {title} and its data? This cannot be undone.',
+  'instance.label': 'Instance label',
+  'instance.labelPlaceholder': 'Add a label',
+
+  // Notes
+  'note.untitled': 'Note Tab #{number}',
+  'note.titlePlaceholder': 'Title',
+  'note.bodyPlaceholder': 'Jot down your thoughts...',
+  'note.mode': 'Note view',
+  'note.edit': 'Edit',
+  'note.preview': 'Preview',
+  'note.previewEmpty': 'Nothing to preview yet.',
+  'checklist.progress': '{done}/{total} done',
+  'checklist.hideDone': 'Hide done',
+  'checklist.showDone': 'Show done',
+  'checklist.moveHint': 'Drag to reorder, or press Alt+Up/Down on the checkbox',
+  'note.pin': 'Pin',
+  'note.history': 'History',
+  'note.pinned': 'Pinned',
+  'note.color': 'Note color',
+  'note.tags': 'Tags',
+  'note.tagsPlaceholder': 'Tags, separated by commas',
+  'noteColor.white': 'White',
+  'noteColor.yellow': 'Yellow',
+  'noteColor.green': 'Green',
+  'noteColor.blue': 'Blue',
+  'noteColor.pink': 'Pink',
+  'noteColor.purple': 'Purple',
+  'noteColor.orange': 'Orange',
+
+  // Notes index
+  'notesIndex.title': 'Notes',
+  'notesIndex.label': 'Notes index',
+  'notesIndex.close': 'Close notes index',
+  'notesIndex.searchPlaceholder': 'Search notes...',
+  'notesIndex.sort': 'Sort notes',
+  'notesIndex.sortUpdatedDesc': 'Recently updated',
+  'notesIndex.sortUpdatedAsc': 'Least recently updated',
+  'notesIndex.sortCreatedDesc': 'Newest first',
+  'notesIndex.sortCreatedAsc': 'Oldest first',
+  'notesIndex.tagFilter': 'Filter by tag',
+  'notesIndex.allTags': 'All',
+  'notesIndex.count': { one: '{count} note', other: '{count} notes' },
+  'notesIndex.empty': 'No notes match.',
+  'notesIndex.noNotes': 'No notes yet.',
+  'notesIndex.updated': 'Updated {time}',
+  'notesIndex.created': 'Created {time}',
+  'notesIndex.import': 'Import...',
+  'notesIndex.exportAll': 'Export all',
+  'notesIndex.export': 'Export',
+  'notesIndex.exportLabel': 'Export {title} as Markdown',
+
+  // Note revision history
+  'noteHistory.title': 'History: {name}',
+  'noteHistory.label': 'Revision history of {name}',
+  'noteHistory.close': 'Close revision history',
+  'noteHistory.revisions': 'Revisions',
+  'noteHistory.empty': 'No revisions yet. A snapshot is saved whenever you pause typing.',
+  'noteHistory.current': 'Current note',
+  'noteHistory.compareWith': 'Compare with',
+  'noteHistory.view': 'Diff view',
+  'noteHistory.inline': 'Inline',
+  'noteHistory.sideBySide': 'Side by side',
+  'noteHistory.changes': '{added} added, {removed} removed',
+  'noteHistory.restore': 'Restore this revision',
+  'noteHistory.titleChanged': 'Title:',
+  'noteHistory.noTitle': '(untitled)',
+  'noteHistory.noChanges': 'No differences.',
+  'noteHistory.diff': 'Differences',
+  'noteHistory.added': 'Added:',
+  'noteHistory.removed': 'Removed:',
+  'noteHistory.retention': 'Keep revisions',
+  'noteHistory.perNote': 'Per note',
+  'noteHistory.maxAge': 'Maximum age',
+  'noteHistory.revisionCount': { one: '{count} revision', other: '{count} revisions' },
+  'noteHistory.dayCount': { one: '{count} day', other: '{count} days' },
+  'noteHistory.noAgeLimit': 'No limit',
+  'noteHistory.pruneConfirm': { one: '{count} revision will be deleted under the new limits. Continue?', other: '{count} revisions will be deleted under the new limits. Continue?' },
+
+  // Context menu
+  'menu.editTheme': 'Edit theme...',
+  'menu.exportWorkspace': 'Export workspace',
+  'menu.importWorkspace': 'Import workspace',
+  'menu.exportNotes': 'Export notes as Markdown',
+  'menu.importNotes': 'Import Markdown notes...',
+  'menu.notesIndex': 'Notes index...',
+  'menu.clearWorkspace': 'Clear workspace',
+
+  // Workspaces
+  'workspaces.title': 'Workspaces',
+  'workspaces.current': 'Current workspace',
+  'workspaces.switchTo': 'Switch to {name}',
+  'workspaces.rename': 'Rename',
+  'workspaces.renameLabel': 'Rename workspace {name}',
+  'workspaces.duplicate': 'Duplicate',
+  'workspaces.duplicateLabel': 'Duplicate workspace {name}',
+  'workspaces.deleteLabel': 'Delete workspace {name}',
+  'workspaces.new': '+ New workspace',
+  'workspace.defaultName': 'Workspace {number}',
+  'workspace.firstName': 'Default',
+  'workspace.copyName': '{name} copy',
+  'workspace.newPrompt': 'Name of the new workspace:',
+  'workspace.renamePrompt': 'Rename workspace:',
+  'workspace.deleteConfirm': 'Delete the workspace "{name}" with all its notes and tool data? This cannot be undone.',
+  'workspace.clearConfirm': 'Clear all notes, tool data and theme settings? This cannot be undone.',
+  'workspace.importConfirm': 'Replace the current workspace with the imported one?',
+  'workspace.importPartial': 'Workspace imported, but some entries could not be restored:\n\n{failures}',
+  'workspace.importFailed': 'Workspace import failed: {error}',
+  'workspace.exportFailed': 'Workspace export failed.',
+  'notes.exportEmpty': 'There are no notes to export.',
+  'notes.exportFailed': 'Notes export failed.',
+  'notes.importEmpty': 'No Markdown or text notes were found in those files.',
+  'notes.importFailed': 'Notes import failed: {error}',
+  'notes.importCollisions': { one: 'A note with this title already exists:\n{titles}\n\nImport anyway?', other: '{count} notes have titles that already exist:\n{titles}\n\nImport anyway?' },
+  'workspace.switchFailed': 'Switching workspace failed.',
+  'workspace.createFailed': 'Creating workspace failed.',
+  'workspace.duplicateFailed': 'Duplicating workspace failed.',
+  'workspace.deleteFailed': 'Deleting workspace failed.',
+
+  // Workspace archives
+  'archive.manifestMissing': 'Not a workspace archive: {path} is missing.',
+  'archive.invalidJson': '{path} is not valid JSON.',
+  'archive.unknownFormat': 'Not a workspace archive: unrecognised manifest format.',
+  'archive.unsupportedVersion': 'Unsupported workspace archive version: {version}.',
+  'archive.missingStates': 'Workspace manifest is missing tool or note states.',
+  'archive.invalidTheme': 'Theme: invalid value',
+  'archive.invalidLayout': 'Tab layout: invalid value',
+  'archive.unknownTool': 'Tool {key}: unknown or missing tool type',
+  'archive.missingBlobs': '{tool} ({key}): missing {blobs}',
+  'archive.invalidNote': 'Note {key}: invalid note data',
+
+  // Command palette
+  'palette.label': 'Command palette',
+  'palette.placeholder': 'Search tools, notes and actions...',
+  'palette.empty': 'No matching commands.',
+  'palette.groupTools': 'Tools',
+  'palette.groupNotes': 'Notes',
+  'palette.groupActions': 'Actions',
+  'palette.groupShortcuts': 'Shortcuts',
+  'palette.openTool': 'Open {title}',
+  'palette.closeTool': 'Close {title}',
+  'palette.newInstance': 'New {tool} instance',
+  'palette.applyTheme': 'Apply theme: {name}',
+  'palette.editTheme': 'Edit theme',
+  'palette.editThemeSubtitle': 'Pick custom background, tab and accent colors',
+  'palette.undo': 'Undo',
+  'palette.redo': 'Redo',
+  'palette.closeAllTools': 'Close all tools',
+  'palette.panelLayout': 'Panel layout: {layout}',
+  'palette.switchWorkspace': 'Switch workspace: {name}',
+  'palette.newWorkspace': 'New workspace',
+  'palette.changeShortcut': 'Change shortcut: {tool}',
+  'palette.notesIndex': 'Browse all notes',
+  'palette.exportNotes': 'Export notes as Markdown',
+  'palette.importNotes': 'Import Markdown notes',
+  'palette.language': 'Language: {language}',
+  'shortcut.prompt': 'Press the new key combination',
+  'shortcut.cancelHint': 'Esc to cancel',
+
+  // Theme editor
+  'theme.editorLabel': 'Theme editor',
+  'theme.editorTitle': 'Theme Editor',
+  'theme.close': 'Close theme editor',
+  'theme.previewInactive': 'Inactive tab',
+  'theme.previewActive': 'Active tab',
+  'theme.accent': 'Accent',
+  'theme.accentHint': 'Active tabs and primary buttons',
+  'theme.surface': 'Tab surface',
+  'theme.surfaceHint': 'Inactive tool tabs',
+  'theme.background': 'Background',
+  'theme.backgroundHint': 'Behind the grid',
+  'theme.colorLabel': '{label} color',
+  'theme.hexLabel': '{label} hex value',
+  'theme.contrastHint': 'Contrast of the text drawn on this color (WCAG AA needs {ratio}:1)',
+  'theme.surfaceWarning': 'Neither black nor white text is fully readable on this tab surface color.',
+  'theme.accentWarning': 'Neither black nor white text is fully readable on this accent color.',
+  'theme.namePlaceholder': 'Theme name',
+  'theme.save': 'Save',
+  'theme.update': 'Update',
+  'theme.list': 'Themes',
+  'theme.builtIn': 'built-in',
+  'theme.deleteLabel': 'Delete theme {name}',
+
+  // Side bar dashboard and jobs
+  'dashboard.jobs': 'Jobs',
+  'dashboard.noJobs': 'No recent jobs.',
+  'dashboard.openTools': 'Open tools',
+  'dashboard.noOpenTools': 'No tool panels are open.',
+  'dashboard.recentNotes': 'Recent notes',
+  'dashboard.noNotes': 'No notes yet.',
+  'dashboard.allNotes': 'All notes',
+  'dashboard.recentOutputs': 'Recent outputs',
+  'dashboard.noOutputs': 'Processed images and extracted frames show up here.',
+  'dashboard.removedTool': 'Removed tool',
+  'jobs.working': 'Working…',
+  'jobs.done': 'Done',
+  'jobs.cancelled': 'Cancelled',
+  'jobs.failed': 'Failed',
+  'jobs.itemsFailed': { one: '{count} item failed', other: '{count} items failed' },
+  'jobs.cancelLabel': 'Cancel {title}',
+  'jobs.retry': 'Retry',
+  'jobs.retryLabel': 'Retry {title}',
+  'jobs.retrying': 'Retrying…',
+  'jobs.dismiss': 'Dismiss',
+  'jobs.dismissLabel': 'Dismiss {title}',
+  'jobs.failedItems': 'Failed items of {title}',
+  'jobs.show': 'Show',
+
+  // Dropped files and handoff
+  'files.count': { one: '{count} file', other: '{count} files' },
+  'files.readFailed': 'Could not read {files}.',
+  'files.unsupported': 'No tool opens {files}.',
+  'files.skipped': {
+    one: 'Only one video can be loaded at a time, so {files} was skipped.',
+    other: 'Only one video can be loaded at a time, so {files} were skipped.',
+  },
+  'fileChooser.title': 'Where should these go?',
+  'fileChooser.openTab': 'Tab {number} · open',
+  'fileChooser.newInstance': 'New {tool}',
+  'drop.title': 'Drop files to open them',
+  'drop.notes': 'text, Markdown → new note',
+  'handoff.sendTo': 'Send to {tool}',
+  'handoff.failed': 'Could not send {items} to {tool}.',
+
+  // Tools
+  'tools.imageResizer.title': 'Batch Image Resizer',
+  'tools.imageResizer.description': 'Resize, rename, and compress multiple images. Convert to JPG/PNG.',
+  'tools.imageResizer.handoff': 'Send to Resizer',
+  'tools.videoExtractor.title': 'Video Frame Grabber',
+  'tools.videoExtractor.description': 'Quickly extract multiple still frames from video files. Batch rename or resize extracted frames.',
+  'tools.gitManager.title': 'Git Manager',
+  'tools.gitManager.description': 'Preview files and copy links of any public GitHub Pages repository.',
+  'tools.screenSizeChecker.title': 'Screen Size Checker',
+  'tools.screenSizeChecker.description': 'Test website responsiveness across a variety of device screen sizes.',
+
+  // Shared by the media tools
+  'tool.reset': 'Reset',
+  'tool.baseNamePlaceholder': 'New base name (optional)',
+  'tool.compressionOn': 'Compression: On',
+  'tool.compressionOff': 'Compression: Off',
+  'tool.process': 'Process',
+  'tool.cancelProgress': 'Cancel ({percent})',
+  'tool.download': 'Download',
+  'tool.dragToReorder': 'Drag to reorder',
+  'tool.jobZip': 'Zip {name}',
+  'tool.encodeNoCanvas': 'Could not get a canvas to draw the image on',
+  'tool.encodeNoBlob': 'Could not convert the image to a file',
+  'tool.encodeFailed': 'The image could not be encoded',
+
+  // Batch Image Resizer
+  'resizer.upload': 'Upload Images',
+  'resizer.empty': 'Image previews will appear here.',
+  'resizer.count': { one: '{count} Image', other: '{count} Images' },
+  'resizer.previewAlt': 'preview',
+  'resizer.original': 'Original: {width}x{height}, {size}',
+  'resizer.processed': 'Processed: {width}x{height}, {size}',
+  'resizer.jobResize': { one: 'Resize {count} image', other: 'Resize {count} images' },
+
+  // Video Frame Grabber
+  'extractor.upload': 'Upload Video',
+  'extractor.changeSettings': 'Change Settings',
+  'extractor.addMarker': 'Add Marker',
+  'extractor.hidePreview': 'Hide Preview',
+  'extractor.removeMarker': 'Remove marker at {time}',
+  'extractor.empty': 'Upload a video to begin.',
+  'extractor.emptyWithVideo': 'Add markers and process video to see frames.',
+  'extractor.count': { one: '{count} Frame', other: '{count} Frames' },
+  'extractor.frameAt': 'Frame at {time}',
+  'extractor.timestamp': 'Timestamp: {time}',
+  'extractor.output': 'Output: {width}x{height}, {size}',
+  'extractor.jobExtract': { one: 'Extract {count} frame', other: 'Extract {count} frames' },
+  'extractor.loadFailed': 'Could not load {name}',
+
+  // Git Manager
+  'git.urlPlaceholder': 'GitHub Repository URL',
+  'git.root': 'root',
+  'git.loadingInitial': 'Loading initial repository...',
+  'git.empty': 'Repository content will appear here.',
+  'git.copyPath': 'Copy Path',
+  'git.copyPathTitle': 'Copy path to {name}',
+  'git.copyAllPaths': 'Copy All Paths',
+  'git.copied': 'Copied!',
+  'git.sending': 'Sending...',
+  'git.previewUnavailable': 'Preview not available for this file type.',
+  'git.invalidUrl': 'Invalid GitHub Pages or repository URL format.',
+  'git.notFound': 'Repository not found or path is invalid. Check the URL.',
+  'git.rateLimited': 'API rate limit exceeded or private repository. Please wait and try again.',
+  'git.apiError': 'GitHub API Error: {status}',
+  'git.invalidResponse': 'Invalid response from GitHub API. Expected an array of files.',
+  'git.fetchContentFailed': 'Failed to fetch content: {status}',
+  'git.fetchFileFailed': 'Failed to fetch {name}: {status}',
+  'git.jobLoad': 'Load {path}',
+  'git.jobSend': 'Send {name}',
+
+  // Screen Size Checker
+  'screen.urlPlaceholder': 'Enter website URL',
+  'screen.loadLabel': 'Load website in preview',
+  'screen.deviceLabel': 'Select device for preview',
+  'screen.toggleOrientation': 'Toggle Orientation',
+  'screen.switchToLandscape': 'Switch to landscape view',
+  'screen.switchToPortrait': 'Switch to portrait view',
+  'screen.loading': 'Loading website preview',
+  'screen.previewTitle': 'Website Preview',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,344 @@
+import type { Message, MessageKey } from './en';
+
+// --- Spanish Messages ---
+export const es: Record<MessageKey, Message> = {
+  // Shared
+  'common.cancel': 'Cancelar',
+  'common.delete': 'Eliminar',
+  'common.load': 'Cargar',
+  'common.downloadFile': 'Descargar {name}',
+
+  // App shell
+  'app.sidebar': 'Barra lateral',
+  'app.openSidebar': 'Abrir barra lateral (espacio de trabajo: {name})',
+  'app.closeSidebar': 'Cerrar barra lateral',
+  'app.tabs': 'Pestañas',
+  'app.gridHint': 'Las flechas mueven entre pestañas. Intro activa una pestaña o abre su herramienta, Escape la cierra.',
+  'app.scrollToStart': 'Volver al inicio',
+  'app.updateAvailable': 'Hay una nueva versión de la caja de herramientas. ¿Recargar ahora?',
+  'language.label': 'Idioma',
+
+  // Tabs and panels
+  'tab.slot': 'Pestaña {number}',
+  'tab.open': 'Abrir',
+  'tab.openLabel': 'Abrir {title}',
+  'tab.noteLabelWithTitle': 'Pestaña de nota #{number}: {title}',
+  'tab.collapseNote': 'Contraer pestaña de nota #{number}',
+  'tab.done': '{number}# Listo',
+  'panel.maximize': 'Maximizar',
+  'panel.restore': 'Restaurar',
+  'panel.maximizeLabel': 'Maximizar {title}',
+  'panel.restoreLabel': 'Restaurar {title}',
+  'panel.closeLabel': 'Cerrar {title}',
+  'panel.resizeLabel': 'Cambiar el tamaño de {title}',
+  'panelLayout.strip': 'Tira',
+  'panelLayout.sideBySide': 'Lado a lado',
+  'panelLayout.stacked': 'Apilados',
+  'instance.add': '+ Instancia',
+  'instance.addTitle': 'Abrir otra instancia de {tool}',
+  'instance.remove': 'Quitar',
+  'instance.removeTitle': 'Quitar esta instancia y sus datos',
+  'instance.removeConfirm': '¿Quitar {title} y sus datos? No se puede deshacer.',
+  'instance.label': 'Etiqueta de la instancia',
+  'instance.labelPlaceholder': 'Añadir una etiqueta',
+
+  // Notes
+  'note.untitled': 'Pestaña de nota #{number}',
+  'note.titlePlaceholder': 'Título',
+  'note.bodyPlaceholder': 'Anota tus ideas...',
+  'note.mode': 'Vista de la nota',
+  'note.edit': 'Editar',
+  'note.preview': 'Vista previa',
+  'note.previewEmpty': 'Todavía no hay nada que previsualizar.',
+  'checklist.progress': '{done}/{total} hechas',
+  'checklist.hideDone': 'Ocultar hechas',
+  'checklist.showDone': 'Mostrar hechas',
+  'checklist.moveHint': 'Arrastra para reordenar o pulsa Alt+Arriba/Abajo en la casilla',
+  'note.pin': 'Fijar',
+  'note.history': 'Historial',
+  'note.pinned': 'Fijada',
+  'note.color': 'Color de la nota',
+  'note.tags': 'Etiquetas',
+  'note.tagsPlaceholder': 'Etiquetas, separadas por comas',
+  'noteColor.white': 'Blanco',
+  'noteColor.yellow': 'Amarillo',
+  'noteColor.green': 'Verde',
+  'noteColor.blue': 'Azul',
+  'noteColor.pink': 'Rosa',
+  'noteColor.purple': 'Morado',
+  'noteColor.orange': 'Naranja',
+
+  // Notes index
+  'notesIndex.title': 'Notas',
+  'notesIndex.label': 'Índice de notas',
+  'notesIndex.close': 'Cerrar el índice de notas',
+  'notesIndex.searchPlaceholder': 'Buscar notas...',
+  'notesIndex.sort': 'Ordenar notas',
+  'notesIndex.sortUpdatedDesc': 'Modificadas recientemente',
+  'notesIndex.sortUpdatedAsc': 'Modificadas hace más tiempo',
+  'notesIndex.sortCreatedDesc': 'Más nuevas primero',
+  'notesIndex.sortCreatedAsc': 'Más antiguas primero',
+  'notesIndex.tagFilter': 'Filtrar por etiqueta',
+  'notesIndex.allTags': 'Todas',
+  'notesIndex.count': { one: '{count} nota', other: '{count} notas' },
+  'notesIndex.empty': 'Ninguna nota coincide.',
+  'notesIndex.noNotes': 'Todavía no hay notas.',
+  'notesIndex.updated': 'Modificada {time}',
+  'notesIndex.created': 'Creada {time}',
+  'notesIndex.import': 'Importar...',
+  'notesIndex.exportAll': 'Exportar todas',
+  'notesIndex.export': 'Exportar',
+  'notesIndex.exportLabel': 'Exportar {title} como Markdown',
+
+  // Note revision history
+  'noteHistory.title': 'Historial: {name}',
+  'noteHistory.label': 'Historial de versiones de {name}',
+  'noteHistory.close': 'Cerrar historial de versiones',
+  'noteHistory.revisions': 'Versiones',
+  'noteHistory.empty': 'Aún no hay versiones. Se guarda una cada vez que dejas de escribir.',
+  'noteHistory.current': 'Nota actual',
+  'noteHistory.compareWith': 'Comparar con',
+  'noteHistory.view': 'Vista de diferencias',
+  'noteHistory.inline': 'En línea',
+  'noteHistory.sideBySide': 'En paralelo',
+  'noteHistory.changes': '{added} añadidas, {removed} eliminadas',
+  'noteHistory.restore': 'Restaurar esta versión',
+  'noteHistory.titleChanged': 'Título:',
+  'noteHistory.noTitle': '(sin título)',
+  'noteHistory.noChanges': 'Sin diferencias.',
+  'noteHistory.diff': 'Diferencias',
+  'noteHistory.added': 'Añadido:',
+  'noteHistory.removed': 'Eliminado:',
+  'noteHistory.retention': 'Conservar versiones',
+  'noteHistory.perNote': 'Por nota',
+  'noteHistory.maxAge': 'Antigüedad máxima',
+  'noteHistory.revisionCount': { one: '{count} versión', other: '{count} versiones' },
+  'noteHistory.dayCount': { one: '{count} día', other: '{count} días' },
+  'noteHistory.noAgeLimit': 'Sin límite',
+  'noteHistory.pruneConfirm': { one: 'Con los nuevos límites se eliminará {count} versión. ¿Continuar?', other: 'Con los nuevos límites se eliminarán {count} versiones. ¿Continuar?' },
+
+  // Context menu
+  'menu.editTheme': 'Editar tema...',
+  'menu.exportWorkspace': 'Exportar espacio de trabajo',
+  'menu.importWorkspace': 'Importar espacio de trabajo',
+  'menu.exportNotes': 'Exportar notas como Markdown',
+  'menu.importNotes': 'Importar notas Markdown...',
+  'menu.notesIndex': 'Índice de notas...',
+  'menu.clearWorkspace': 'Vaciar espacio de trabajo',
+
+  // Workspaces
+  'workspaces.title': 'Espacios de trabajo',
+  'workspaces.current': 'Espacio de trabajo actual',
+  'workspaces.switchTo': 'Cambiar a {name}',
+  'workspaces.rename': 'Renombrar',
+  'workspaces.renameLabel': 'Renombrar el espacio de trabajo {name}',
+  'workspaces.duplicate': 'Duplicar',
+  'workspaces.duplicateLabel': 'Duplicar el espacio de trabajo {name}',
+  'workspaces.deleteLabel': 'Eliminar el espacio de trabajo {name}',
+  'workspaces.new': '+ Nuevo espacio de trabajo',
+  'workspace.defaultName': 'Espacio de trabajo {number}',
+  'workspace.firstName': 'Predeterminado',
+  'workspace.copyName': '{name} (copia)',
+  'workspace.newPrompt': 'Nombre del nuevo espacio de trabajo:',
+  'workspace.renamePrompt': 'Renombrar espacio de trabajo:',
+  'workspace.deleteConfirm': '¿Eliminar el espacio de trabajo «{name}» con todas sus notas y datos de herramientas? No se puede deshacer.',
+  'workspace.clearConfirm': '¿Borrar todas las notas, los datos de herramientas y la configuración del tema? No se puede deshacer.',
+  'workspace.importConfirm': '¿Reemplazar el espacio de trabajo actual por el importado?',
+  'workspace.importPartial': 'Espacio de trabajo importado, pero algunas entradas no se pudieron restaurar:\n\n{failures}',
+  'workspace.importFailed': 'Error al importar el espacio de trabajo: {error}',
+  'workspace.exportFailed': 'Error al exportar el espacio de trabajo.',
+  'notes.exportEmpty': 'No hay notas para exportar.',
+  'notes.exportFailed': 'Error al exportar las notas.',
+  'notes.importEmpty': 'No se encontraron notas Markdown ni de texto en esos archivos.',
+  'notes.importFailed': 'Error al importar las notas: {error}',
+  'notes.importCollisions': { one: 'Ya existe una nota con este título:\n{titles}\n\n¿Importar de todos modos?', other: '{count} notas tienen títulos que ya existen:\n{titles}\n\n¿Importar de todos modos?' },
+  'workspace.switchFailed': 'No se pudo cambiar de espacio de trabajo.',
+  'workspace.createFailed': 'No se pudo crear el espacio de trabajo.',
+  'workspace.duplicateFailed': 'No se pudo duplicar el espacio de trabajo.',
+  'workspace.deleteFailed': 'No se pudo eliminar el espacio de trabajo.',
+
+  // Workspace archives
+  'archive.manifestMissing': 'No es un archivo de espacio de trabajo: falta {path}.',
+  'archive.invalidJson': '{path} no es un JSON válido.',
+  'archive.unknownFormat': 'No es un archivo de espacio de trabajo: formato de manifiesto desconocido.',
+  'archive.unsupportedVersion': 'Versión de archivo no compatible: {version}.',
+  'archive.missingStates': 'Al manifiesto le faltan los datos de herramientas o de notas.',
+  'archive.invalidTheme': 'Tema: valor no válido',
+  'archive.invalidLayout': 'Disposición de pestañas: valor no válido',
+  'archive.unknownTool': 'Herramienta {key}: tipo de herramienta desconocido o ausente',
+  'archive.missingBlobs': '{tool} ({key}): falta {blobs}',
+  'archive.invalidNote': 'Nota {key}: datos de nota no válidos',
+
+  // Command palette
+  'palette.label': 'Paleta de comandos',
+  'palette.placeholder': 'Buscar herramientas, notas y acciones...',
+  'palette.empty': 'Ningún comando coincide.',
+  'palette.groupTools': 'Herramientas',
+  'palette.groupNotes': 'Notas',
+  'palette.groupActions': 'Acciones',
+  'palette.groupShortcuts': 'Atajos',
+  'palette.openTool': 'Abrir {title}',
+  'palette.closeTool': 'Cerrar {title}',
+  'palette.newInstance': 'Nueva instancia de {tool}',
+  'palette.applyTheme': 'Aplicar tema: {name}',
+  'palette.editTheme': 'Editar tema',
+  'palette.editThemeSubtitle': 'Elegir colores propios de fondo, pestañas y acento',
+  'palette.undo': 'Deshacer',
+  'palette.redo': 'Rehacer',
+  'palette.closeAllTools': 'Cerrar todas las herramientas',
+  'palette.panelLayout': 'Disposición de paneles: {layout}',
+  'palette.switchWorkspace': 'Cambiar de espacio de trabajo: {name}',
+  'palette.newWorkspace': 'Nuevo espacio de trabajo',
+  'palette.changeShortcut': 'Cambiar atajo: {tool}',
+  'palette.notesIndex': 'Explorar todas las notas',
+  'palette.exportNotes': 'Exportar notas como Markdown',
+  'palette.importNotes': 'Importar notas Markdown',
+  'palette.language': 'Idioma: {language}',
+  'shortcut.prompt': 'Pulsa la nueva combinación de teclas',
+  'shortcut.cancelHint': 'Esc para cancelar',
+
+  // Theme editor
+  'theme.editorLabel': 'Editor de temas',
+  'theme.editorTitle': 'Editor de temas',
+  'theme.close': 'Cerrar el editor de temas',
+  'theme.previewInactive': 'Pestaña inactiva',
+  'theme.previewActive': 'Pestaña activa',
+  'theme.accent': 'Acento',
+  'theme.accentHint': 'Pestañas activas y botones principales',
+  'theme.surface': 'Superficie de pestaña',
+  'theme.surfaceHint': 'Pestañas de herramientas inactivas',
+  'theme.background': 'Fondo',
+  'theme.backgroundHint': 'Detrás de la cuadrícula',
+  'theme.colorLabel': 'Color: {label}',
+  'theme.hexLabel': 'Valor hexadecimal: {label}',
+  'theme.contrastHint': 'Contraste del texto sobre este color (WCAG AA exige {ratio}:1)',
+  'theme.surfaceWarning': 'Ni el texto negro ni el blanco se leen bien sobre este color de superficie.',
+  'theme.accentWarning': 'Ni el texto negro ni el blanco se leen bien sobre este color de acento.',
+  'theme.namePlaceholder': 'Nombre del tema',
+  'theme.save': 'Guardar',
+  'theme.update': 'Actualizar',
+  'theme.list': 'Temas',
+  'theme.builtIn': 'integrado',
+  'theme.deleteLabel': 'Eliminar el tema {name}',
+
+  // Side bar dashboard and jobs
+  'dashboard.jobs': 'Tareas',
+  'dashboard.noJobs': 'No hay tareas recientes.',
+  'dashboard.openTools': 'Herramientas abiertas',
+  'dashboard.noOpenTools': 'No hay paneles de herramientas abiertos.',
+  'dashboard.recentNotes': 'Notas recientes',
+  'dashboard.noNotes': 'Todavía no hay notas.',
+  'dashboard.allNotes': 'Todas las notas',
+  'dashboard.recentOutputs': 'Resultados recientes',
+  'dashboard.noOutputs': 'Aquí aparecen las imágenes procesadas y los fotogramas extraídos.',
+  'dashboard.removedTool': 'Herramienta eliminada',
+  'jobs.working': 'Trabajando…',
+  'jobs.done': 'Hecho',
+  'jobs.cancelled': 'Cancelada',
+  'jobs.failed': 'Error',
+  'jobs.itemsFailed': { one: '{count} elemento falló', other: '{count} elementos fallaron' },
+  'jobs.cancelLabel': 'Cancelar {title}',
+  'jobs.retry': 'Reintentar',
+  'jobs.retryLabel': 'Reintentar {title}',
+  'jobs.retrying': 'Reintentando…',
+  'jobs.dismiss': 'Descartar',
+  'jobs.dismissLabel': 'Descartar {title}',
+  'jobs.failedItems': 'Elementos fallidos de {title}',
+  'jobs.show': 'Mostrar',
+
+  // Dropped files and handoff
+  'files.count': { one: '{count} archivo', other: '{count} archivos' },
+  'files.readFailed': 'No se pudo leer {files}.',
+  'files.unsupported': 'Ninguna herramienta abre {files}.',
+  'files.skipped': {
+    one: 'Solo se puede cargar un vídeo a la vez, así que se omitió {files}.',
+    other: 'Solo se puede cargar un vídeo a la vez, así que se omitieron {files}.',
+  },
+  'fileChooser.title': '¿Adónde deben ir?',
+  'fileChooser.openTab': 'Pestaña {number} · abierta',
+  'fileChooser.newInstance': 'Nueva instancia de {tool}',
+  'drop.title': 'Suelta archivos para abrirlos',
+  'drop.notes': 'texto, Markdown → nueva nota',
+  'handoff.sendTo': 'Enviar a {tool}',
+  'handoff.failed': 'No se pudo enviar {items} a {tool}.',
+
+  // Tools
+  'tools.imageResizer.title': 'Redimensionador de imágenes por lotes',
+  'tools.imageResizer.description': 'Redimensiona, renombra y comprime varias imágenes. Convierte a JPG/PNG.',
+  'tools.imageResizer.handoff': 'Enviar al redimensionador',
+  'tools.videoExtractor.title': 'Capturador de fotogramas',
+  'tools.videoExtractor.description': 'Extrae rápidamente varios fotogramas de archivos de vídeo. Renombra o redimensiona por lotes los fotogramas extraídos.',
+  'tools.gitManager.title': 'Gestor de Git',
+  'tools.gitManager.description': 'Previsualiza archivos y copia enlaces de cualquier repositorio público de GitHub Pages.',
+  'tools.screenSizeChecker.title': 'Comprobador de tamaños de pantalla',
+  'tools.screenSizeChecker.description': 'Prueba la adaptabilidad de sitios web en distintos tamaños de pantalla.',
+
+  // Shared by the media tools
+  'tool.reset': 'Restablecer',
+  'tool.baseNamePlaceholder': 'Nuevo nombre base (opcional)',
+  'tool.compressionOn': 'Compresión: Sí',
+  'tool.compressionOff': 'Compresión: No',
+  'tool.process': 'Procesar',
+  'tool.cancelProgress': 'Cancelar ({percent})',
+  'tool.download': 'Descargar',
+  'tool.dragToReorder': 'Arrastra para reordenar',
+  'tool.jobZip': 'Comprimir {name}',
+  'tool.encodeNoCanvas': 'No se pudo obtener un lienzo para dibujar la imagen',
+  'tool.encodeNoBlob': 'No se pudo convertir la imagen en un archivo',
+  'tool.encodeFailed': 'No se pudo codificar la imagen',
+
+  // Batch Image Resizer
+  'resizer.upload': 'Subir imágenes',
+  'resizer.empty': 'Aquí aparecerán las vistas previas de las imágenes.',
+  'resizer.count': { one: '{count} imagen', other: '{count} imágenes' },
+  'resizer.previewAlt': 'vista previa',
+  'resizer.original': 'Original: {width}x{height}, {size}',
+  'resizer.processed': 'Procesada: {width}x{height}, {size}',
+  'resizer.jobResize': { one: 'Redimensionar {count} imagen', other: 'Redimensionar {count} imágenes' },
+
+  // Video Frame Grabber
+  'extractor.upload': 'Subir vídeo',
+  'extractor.changeSettings': 'Cambiar ajustes',
+  'extractor.addMarker': 'Añadir marcador',
+  'extractor.hidePreview': 'Ocultar vista previa',
+  'extractor.removeMarker': 'Quitar el marcador en {time}',
+  'extractor.empty': 'Sube un vídeo para empezar.',
+  'extractor.emptyWithVideo': 'Añade marcadores y procesa el vídeo para ver los fotogramas.',
+  'extractor.count': { one: '{count} fotograma', other: '{count} fotogramas' },
+  'extractor.frameAt': 'Fotograma en {time}',
+  'extractor.timestamp': 'Marca de tiempo: {time}',
+  'extractor.output': 'Salida: {width}x{height}, {size}',
+  'extractor.jobExtract': { one: 'Extraer {count} fotograma', other: 'Extraer {count} fotogramas' },
+  'extractor.loadFailed': 'No se pudo cargar {name}',
+
+  // Git Manager
+  'git.urlPlaceholder': 'URL del repositorio de GitHub',
+  'git.root': 'raíz',
+  'git.loadingInitial': 'Cargando el repositorio inicial...',
+  'git.empty': 'Aquí aparecerá el contenido del repositorio.',
+  'git.copyPath': 'Copiar ruta',
+  'git.copyPathTitle': 'Copiar la ruta de {name}',
+  'git.copyAllPaths': 'Copiar todas las rutas',
+  'git.copied': '¡Copiado!',
+  'git.sending': 'Enviando...',
+  'git.previewUnavailable': 'No hay vista previa para este tipo de archivo.',
+  'git.invalidUrl': 'Formato de URL de GitHub Pages o de repositorio no válido.',
+  'git.notFound': 'No se encontró el repositorio o la ruta no es válida. Comprueba la URL.',
+  'git.rateLimited': 'Se superó el límite de la API o el repositorio es privado. Espera e inténtalo de nuevo.',
+  'git.apiError': 'Error de la API de GitHub: {status}',
+  'git.invalidResponse': 'Respuesta no válida de la API de GitHub. Se esperaba una lista de archivos.',
+  'git.fetchContentFailed': 'No se pudo obtener el contenido: {status}',
+  'git.fetchFileFailed': 'No se pudo obtener {name}: {status}',
+  'git.jobLoad': 'Cargar {path}',
+  'git.jobSend': 'Enviar {name}',
+
+  // Screen Size Checker
+  'screen.urlPlaceholder': 'Introduce la URL del sitio web',
+  'screen.loadLabel': 'Cargar el sitio web en la vista previa',
+  'screen.deviceLabel': 'Elegir el dispositivo de la vista previa',
+  'screen.toggleOrientation': 'Cambiar orientación',
+  'screen.switchToLandscape': 'Cambiar a vista horizontal',
+  'screen.switchToPortrait': 'Cambiar a vista vertical',
+  'screen.loading': 'Cargando la vista previa del sitio web',
+  'screen.previewTitle': 'Vista previa del sitio web',
+};
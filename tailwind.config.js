@@ -0,0 +1,12 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './tools/**/*.{ts,tsx}', './utils/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      scale: {
+        '103': '1.03',
+      },
+    },
+  },
+  plugins: [],
+};
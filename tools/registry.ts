@@ -0,0 +1,196 @@
+import React from 'react';
+import type { JobRunner } from '../utils/jobs';
+import type { MessageKey, Translator } from '../utils/i18n';
+import { BatchImageResizer, BatchImageResizerState, defaultResizerState, restoreResizerState, getResizerOutputs, acceptResizerHandoff, acceptResizerFiles } from '../components/BatchImageResizer';
+import { VideoFrameExtractor, VideoFrameExtractorState, defaultExtractorState, restoreExtractorState, getExtractorOutputs, acceptExtractorFiles } from '../components/VideoFrameExtractor';
+import { GitManager, GitManagerState, defaultGitManagerState, restoreGitManagerState } from '../components/GitManager';
+import { ScreenSizeChecker, ScreenSizeCheckerState, defaultScreenSizeCheckerState, restoreScreenSizeCheckerState, linkScreenSizeCheckerState } from '../components/ScreenSizeChecker';
+
+// --- Tool Contract ---
+// Every tool panel receives the same props from the app shell.
+export interface ToolComponentProps<S> {
+  state: Partial<S> | undefined;
+  // A function update is applied to the tool's latest state, for results that arrive
+  // after the panel's props have moved on (background jobs)
+  onChangeState: (newState: ToolStateUpdate<S>) => void;
+  accentColor: string;
+  primaryButtonTextColor: string;
+  // Other tools this one can send blobs to, and the callback that delivers them
+  handoffTargets: HandoffTarget[];
+  onHandoff: (targetToolId: string, items: HandoffItem[]) => void;
+  // Runs long operations as jobs tracked by the app shell
+  jobs: JobRunner;
+}
+
+export type ToolStateUpdate<S> = Partial<S> | ((state: Partial<S>) => Partial<S>);
+
+// A finished file a tool has produced
+export interface ToolOutput {
+  id: string;
+  name: string;
+  blob: Blob;
+  previewUrl?: string;
+  // When the output was made; missing on outputs saved before it was tracked
+  createdAt?: number;
+}
+
+// A named blob passed from one tool to another, e.g. an extracted frame sent to the resizer
+export interface HandoffItem {
+  name: string;
+  blob: Blob;
+}
+
+export interface HandoffTarget {
+  id: string;
+  label: string;
+}
+
+export interface ToolDefinition<S extends { type: string }> {
+  id: S['type'];
+  // Message keys, translated wherever the tool is named
+  title: MessageKey;
+  description: MessageKey;
+  defaultState: Omit<S, 'type'>;
+  component: React.FC<ToolComponentProps<S>>;
+  // Recreates runtime-only fields (object URLs, in-flight flags) after loading from storage
+  restoreState?: (state: Partial<S>) => Partial<S>;
+  // String-valued state fields that are encoded in shareable deep links
+  linkFields?: (keyof Omit<S, 'type'> & string)[];
+  // Validates and completes linked fields decoded from a URL before they are applied
+  fromLink?: (state: Partial<S>) => Partial<S>;
+  // Fields tracking runtime activity (loading flags, progress, fetched data) rather than
+  // user edits; updates that only touch these don't create undo steps
+  transientFields?: (keyof Omit<S, 'type'> & string)[];
+  // Files shown on the side bar dashboard
+  getOutputs?: (state: Partial<S>) => ToolOutput[];
+  // Turns blobs handed over by another tool into inputs. Preparing them may be async
+  // (decoding images); the returned function merges them into the tool's latest state.
+  acceptHandoff?: (items: HandoffItem[]) => Promise<(state: Partial<S>) => Partial<S>>;
+  // Button text on the sending side, defaults to "Send to <title>"
+  handoffLabel?: MessageKey;
+  // MIME types (`image/*` wildcards allowed) of files dropped or pasted onto the app that
+  // should be routed to this tool, and how to turn them into inputs (like acceptHandoff)
+  fileTypes?: string[];
+  acceptFiles?: (files: File[]) => Promise<(state: Partial<S>) => Partial<S>>;
+  // Takes one file at a time (a video); the rest of a multi-file drop is skipped
+  singleFile?: boolean;
+}
+
+const defineTool = <S extends { type: string }>(definition: ToolDefinition<S>): ToolDefinition<S> => definition;
+
+// --- Registry ---
+// Order matters: a tool's position here is its default grid slot (first entry = slot 01).
+export const toolRegistry = [
+  defineTool<BatchImageResizerState>({
+    id: 'image-resizer',
+    title: 'tools.imageResizer.title',
+    description: 'tools.imageResizer.description',
+    defaultState: defaultResizerState,
+    component: BatchImageResizer,
+    restoreState: restoreResizerState,
+    transientFields: ['isProcessing', 'progress'],
+    getOutputs: getResizerOutputs,
+    acceptHandoff: acceptResizerHandoff,
+    handoffLabel: 'tools.imageResizer.handoff',
+    fileTypes: ['image/*'],
+    acceptFiles: acceptResizerFiles,
+  }),
+  defineTool<VideoFrameExtractorState>({
+    id: 'video-extractor',
+    title: 'tools.videoExtractor.title',
+    description: 'tools.videoExtractor.description',
+    defaultState: defaultExtractorState,
+    component: VideoFrameExtractor,
+    restoreState: restoreExtractorState,
+    transientFields: ['isProcessing', 'progress', 'videoDuration', 'isPreviewCollapsed'],
+    getOutputs: getExtractorOutputs,
+    fileTypes: ['video/*'],
+    acceptFiles: acceptExtractorFiles,
+    singleFile: true,
+  }),
+  defineTool<GitManagerState>({
+    id: 'git-manager',
+    title: 'tools.gitManager.title',
+    description: 'tools.gitManager.description',
+    defaultState: defaultGitManagerState,
+    component: GitManager,
+    restoreState: restoreGitManagerState,
+    transientFields: ['isLoading', 'error', 'files', 'repoInfo', 'baseUrl', 'expandedFilePath', 'closingFilePath'],
+    linkFields: ['repoUrl', 'currentPath'],
+  }),
+  defineTool<ScreenSizeCheckerState>({
+    id: 'screen-size-checker',
+    title: 'tools.screenSizeChecker.title',
+    description: 'tools.screenSizeChecker.description',
+    defaultState: defaultScreenSizeCheckerState,
+    component: ScreenSizeChecker,
+    restoreState: restoreScreenSizeCheckerState,
+    transientFields: ['isLoading'],
+    linkFields: ['displayUrl', 'selectedDevice', 'orientation'],
+    fromLink: linkScreenSizeCheckerState,
+  }),
+];
+
+type StateOf<T> = T extends ToolDefinition<infer S> ? S : never;
+
+export type RegisteredTool = (typeof toolRegistry)[number];
+export type ToolState = StateOf<RegisteredTool>;
+export type ToolId = ToolState['type'];
+
+export const getToolDefinition = (id: string): RegisteredTool | undefined => {
+  return toolRegistry.find(tool => tool.id === id);
+};
+
+export const restoreToolState = (state: ToolState): ToolState => {
+  const tool = getToolDefinition(state.type) as ToolDefinition<ToolState> | undefined;
+  if (!tool?.restoreState) return state;
+  return { ...tool.restoreState(state), type: state.type } as ToolState;
+};
+
+export const isTransientUpdate = (toolId: string, update: Partial<ToolState>): boolean => {
+  const tool = getToolDefinition(toolId) as ToolDefinition<ToolState> | undefined;
+  const transient = (tool?.transientFields ?? []) as string[];
+  return Object.keys(update).every(field => field === 'type' || transient.includes(field));
+};
+
+export const getToolOutputs = (state: ToolState): ToolOutput[] => {
+  const tool = getToolDefinition(state.type) as ToolDefinition<ToolState> | undefined;
+  return tool?.getOutputs?.(state) ?? [];
+};
+
+export const getHandoffTargets = (t: Translator['t']): HandoffTarget[] => (toolRegistry as ToolDefinition<ToolState>[])
+  .filter(tool => tool.acceptHandoff)
+  .map(tool => ({ id: tool.id, label: tool.handoffLabel ? t(tool.handoffLabel) : t('handoff.sendTo', { tool: t(tool.title) }) }));
+
+const matchesFileType = (mimeType: string, patterns: string[]) => {
+  return patterns.some(pattern => (pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern));
+};
+
+// The tool a dropped or pasted file is routed to, if any
+export const getFileTargetTool = (file: File): RegisteredTool | undefined => {
+  return (toolRegistry as ToolDefinition<ToolState>[]).find(tool => tool.acceptFiles && matchesFileType(file.type, tool.fileTypes ?? [])) as RegisteredTool | undefined;
+};
+
+// Picks a tool's linked fields out of its state, omitting values equal to the default
+export const getLinkState = (tool: RegisteredTool, state: Partial<ToolState> | undefined): Record<string, string> => {
+  const linked: Record<string, string> = {};
+  const defaults = tool.defaultState as Record<string, unknown>;
+  const current = { ...defaults, ...state } as Record<string, unknown>;
+  ((tool.linkFields ?? []) as string[]).forEach(field => {
+    const value = current[field];
+    if (typeof value === 'string' && value !== defaults[field]) linked[field] = value;
+  });
+  return linked;
+};
+
+// Inverse of getLinkState: missing fields fall back to their defaults
+export const applyLinkState = (tool: RegisteredTool, linked: Record<string, string>): Partial<ToolState> => {
+  const defaults = tool.defaultState as Record<string, unknown>;
+  const state: Record<string, unknown> = {};
+  ((tool.linkFields ?? []) as string[]).forEach(field => {
+    state[field] = linked[field] ?? defaults[field];
+  });
+  const definition = tool as ToolDefinition<ToolState>;
+  const normalised = definition.fromLink ? definition.fromLink(state as Partial<ToolState>) : state;
+  return { ...normalised, type: tool.id } as Partial<ToolState>;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getChecklistProgress, moveChecklistItem, toggleChecklistItem } from './checklist';
+
+describe('getChecklistProgress', () => {
+  it('counts checklist items, including quoted ones, but not those in code', () => {
+    expect(getChecklistProgress('- [x] a\n- [ ] b\n> - [X] c\n\n```\n- [ ] d\n```')).toEqual({ done: 2, total: 3 });
+    expect(getChecklistProgress('- plain item')).toEqual({ done: 0, total: 0 });
+  });
+});
+
+describe('toggleChecklistItem', () => {
+  it('flips only the given line', () => {
+    expect(toggleChecklistItem('- [ ] a\n1. [x] b', 0)).toBe('- [x] a\n1. [x] b');
+    expect(toggleChecklistItem('- [ ] a\n1. [x] b', 1)).toBe('- [ ] a\n1. [ ] b');
+    expect(toggleChecklistItem('> - [ ] quoted', 0)).toBe('> - [x] quoted');
+  });
+
+  it('leaves the body alone for lines that are not checklist items', () => {
+    expect(toggleChecklistItem('text [ ] here', 0)).toBe('text [ ] here');
+    expect(toggleChecklistItem('- [ ] a', 5)).toBe('- [ ] a');
+  });
+});
+
+describe('moveChecklistItem', () => {
+  const body = '- [ ] a\n  more about a\n- [ ] b\n- [x] c';
+
+  it('moves an item with its continuation lines', () => {
+    expect(moveChecklistItem(body, 0, 3)).toBe('- [ ] b\n- [x] c\n- [ ] a\n  more about a');
+    expect(moveChecklistItem(body, 3, 2)).toBe('- [ ] a\n  more about a\n- [x] c\n- [ ] b');
+    expect(moveChecklistItem(body, 2, 0)).toBe('- [ ] b\n- [ ] a\n  more about a\n- [x] c');
+  });
+
+  it('ignores moves from a line that is not an item or to a line past the end', () => {
+    expect(moveChecklistItem(body, 1, 3)).toBe(body);
+    expect(moveChecklistItem(body, 0, 9)).toBe(body);
+    expect(moveChecklistItem(body, 2, 2)).toBe(body);
+  });
+});
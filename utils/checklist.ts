@@ -0,0 +1,61 @@
+import { parseMarkdown, MarkdownBlock } from './markdown';
+
+// --- Checklists ---
+// Checklist items are Markdown list items starting with `[ ]` or `[x]`, so a to-do list stays
+// readable plain text in the note body. Items are addressed by the line index the parser
+// records for them; ticking or moving one rewrites only those lines of the body.
+
+export type ChecklistProgress = { done: number; total: number };
+
+const TASK_LINE = /^((?:\s*>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\]/;
+const LIST_LINE = /^\s*(?:[-*+]|\d{1,9}[.)])\s+/;
+const QUOTE_PREFIX = /^(?:\s*>\s?)*/;
+
+const splitLines = (body: string) => body.replace(/\r\n?/g, '\n').split('\n');
+
+const countTasks = (blocks: MarkdownBlock[], progress: ChecklistProgress) => {
+  blocks.forEach(block => {
+    if (block.type === 'quote') countTasks(block.children, progress);
+    if (block.type !== 'list') return;
+    block.items.forEach(item => {
+      if (item.checked === undefined) return;
+      progress.total++;
+      if (item.checked) progress.done++;
+    });
+  });
+  return progress;
+};
+
+export const getChecklistProgress = (body: string): ChecklistProgress => countTasks(parseMarkdown(body), { done: 0, total: 0 });
+
+export const toggleChecklistItem = (body: string, line: number): string => {
+  const lines = splitLines(body);
+  const match = lines[line]?.match(TASK_LINE);
+  if (!match) return body;
+  lines[line] = match[1] + (match[2] === ' ' ? 'x' : ' ') + ']' + lines[line].slice(match[0].length);
+  return lines.join('\n');
+};
+
+// End (exclusive) of the item starting at `start`, including its indented continuation lines
+const itemEnd = (lines: string[], start: number): number => {
+  let end = start + 1;
+  while (end < lines.length) {
+    const content = lines[end].replace(QUOTE_PREFIX, '');
+    if (content.trim() === '' || !/^\s/.test(content) || LIST_LINE.test(content)) break;
+    end++;
+  }
+  return end;
+};
+
+// Moves the item at `from` to the place of the item at `to`, before it when moving up and after it when moving down
+export const moveChecklistItem = (body: string, from: number, to: number): string => {
+  const lines = splitLines(body);
+  if (from === to || !TASK_LINE.test(lines[from] ?? '') || to < 0 || to >= lines.length) return body;
+  const fromEnd = itemEnd(lines, from);
+  const moved = lines.slice(from, fromEnd);
+  if (to > from) {
+    const toEnd = itemEnd(lines, to);
+    return [...lines.slice(0, from), ...lines.slice(fromEnd, toEnd), ...moved, ...lines.slice(toEnd)].join('\n');
+  }
+  return [...lines.slice(0, to), ...moved, ...lines.slice(to, from), ...lines.slice(fromEnd)].join('\n');
+};
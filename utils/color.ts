@@ -0,0 +1,116 @@
+// --- Color Utilities ---
+// Shades are generated in OKLCH, a perceptual color space, so lightening a color
+// keeps its hue and reads as evenly lighter regardless of the starting color.
+// Text contrast follows the WCAG 2.x relative luminance and contrast ratio formulas.
+
+type RGB = { r: number; g: number; b: number }; // 0-255 channels
+type OKLCH = { l: number; c: number; h: number };
+
+// WCAG AA minimum for normal-size text
+export const MIN_TEXT_CONTRAST = 4.5;
+
+export const isHexColor = (value: string): boolean => /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+export const hexToRgb = (hex: string): RGB | null => {
+  if (!isHexColor(hex)) return null;
+  let color = hex.substring(1);
+  if (color.length === 3) {
+    color = color.split('').map(char => char + char).join('');
+  }
+  return {
+    r: parseInt(color.substring(0, 2), 16),
+    g: parseInt(color.substring(2, 4), 16),
+    b: parseInt(color.substring(4, 6), 16),
+  };
+};
+
+export const rgbToHex = ({ r, g, b }: RGB): string => {
+  const toHex = (channel: number) => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+};
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (c: number) => {
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return v * 255;
+};
+
+const rgbToOklch = ({ r, g, b }: RGB): OKLCH => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+  return { l: L, c: Math.sqrt(A * A + B * B), h: Math.atan2(B, A) };
+};
+
+// Returns linear-light channels, which may fall outside [0, 1] for out-of-gamut colors
+const oklchToLinearRgb = ({ l: L, c, h }: OKLCH) => {
+  const A = c * Math.cos(h);
+  const B = c * Math.sin(h);
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.2914855480 * B, 3);
+  return {
+    r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  };
+};
+
+const isInGamut = ({ r, g, b }: { r: number; g: number; b: number }) => {
+  const epsilon = 0.0001;
+  return [r, g, b].every(channel => channel >= -epsilon && channel <= 1 + epsilon);
+};
+
+// Reduces chroma (keeping lightness and hue) until the color fits in sRGB
+const oklchToRgb = (color: OKLCH): RGB => {
+  let linear = oklchToLinearRgb(color);
+  if (!isInGamut(linear)) {
+    let low = 0, high = color.c;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (isInGamut(oklchToLinearRgb({ ...color, c: mid }))) low = mid; else high = mid;
+    }
+    linear = oklchToLinearRgb({ ...color, c: low });
+  }
+  return { r: fromLinear(linear.r), g: fromLinear(linear.g), b: fromLinear(linear.b) };
+};
+
+// Moves a color `amount` (0-1) of the way towards white in OKLCH, softening chroma as it goes
+export const tint = (hex: string, amount: number): string => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return '#FFFFFF';
+  const { l, c, h } = rgbToOklch(rgb);
+  return rgbToHex(oklchToRgb({ l: l + (1 - l) * amount, c: c * (1 - amount * 0.6), h }));
+};
+
+// Generates a moderately light shade for active tabs
+export const generateActiveTabShade = (hex: string): string => tint(hex, 0.35);
+
+// Generates a very light shade for inactive tabs
+export const generateEvenLighterShade = (hex: string): string => tint(hex, 0.65);
+
+export const relativeLuminance = (hex: string): number => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return 0;
+  return 0.2126 * toLinear(rgb.r) + 0.7152 * toLinear(rgb.g) + 0.0722 * toLinear(rgb.b);
+};
+
+export const contrastRatio = (foreground: string, background: string): number => {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+};
+
+// Picks whichever of black or white text has the higher WCAG contrast on the given background
+export const getContrastingTextColor = (hex: string): string => {
+  if (!isHexColor(hex)) return '#000000'; // Default to black
+  return contrastRatio('#000000', hex) >= contrastRatio('#FFFFFF', hex) ? '#000000' : '#FFFFFF';
+};
@@ -0,0 +1,48 @@
+// --- Deep Link Routing ---
+// The open tools and a shareable subset of their state are encoded in the URL hash:
+//
+//   #tools=screen-size-checker,git-manager&screen-size-checker.orientation=landscape
+//
+// `tools` lists open tools in panel order; `<toolId>.<field>` entries carry that
+// tool's linked state fields. Only string values are supported.
+
+export interface Route {
+  tools: string[];
+  state: Record<string, Record<string, string>>;
+}
+
+const TOOLS_PARAM = 'tools';
+
+export const parseRoute = (hash: string): Route => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const route: Route = { tools: [], state: {} };
+  const tools = params.get(TOOLS_PARAM);
+  if (tools) route.tools = tools.split(',').filter(Boolean);
+
+  params.forEach((value, name) => {
+    const separator = name.indexOf('.');
+    if (separator <= 0) return;
+    const toolId = name.slice(0, separator);
+    const field = name.slice(separator + 1);
+    if (!field) return;
+    route.state[toolId] = { ...route.state[toolId], [field]: value };
+  });
+  return route;
+};
+
+export const buildRoute = (route: Route): string => {
+  if (route.tools.length === 0) return '';
+  const params = new URLSearchParams();
+  params.set(TOOLS_PARAM, route.tools.join(','));
+  route.tools.forEach(toolId => {
+    Object.entries(route.state[toolId] ?? {}).forEach(([field, value]) => {
+      params.set(`${toolId}.${field}`, value);
+    });
+  });
+  // Commas in the tool list are safe in a fragment and far more readable unescaped
+  return `#${params.toString().replace(/%2C/g, ',')}`;
+};
+
+export const isSameToolList = (a: Route, b: Route): boolean => {
+  return a.tools.length === b.tools.length && a.tools.every((tool, index) => tool === b.tools[index]);
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, toSideBySide, countChanges } from './diff';
+
+const summary = (before: string, after: string) =>
+  diffLines(before, after).map(line => `${line.type === 'same' ? ' ' : line.type === 'added' ? '+' : '-'}${line.text}`);
+
+describe('diffLines', () => {
+  it('lists removed lines before the added lines replacing them', () => {
+    expect(summary('a\nb\nc\nd', 'a\nx\nc\nd\ne')).toEqual([' a', '-b', '+x', ' c', ' d', '+e']);
+  });
+
+  it('numbers lines from 1 on both sides', () => {
+    expect(diffLines('x\ny', 'y\nz')).toEqual([
+      { type: 'removed', text: 'x', beforeLine: 1 },
+      { type: 'same', text: 'y', beforeLine: 2, afterLine: 1 },
+      { type: 'added', text: 'z', afterLine: 2 },
+    ]);
+  });
+
+  it('treats empty text as no lines and ignores line ending style', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(summary('', 'one')).toEqual(['+one']);
+    expect(countChanges(diffLines('a\r\nb', 'a\nb'))).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('falls back to one replaced block for very large changes', () => {
+    const before = Array.from({ length: 3000 }, (_, index) => `old ${index}`);
+    const after = Array.from({ length: 3000 }, (_, index) => `new ${index}`);
+    const lines = diffLines(['top', ...before, 'bottom'].join('\n'), ['top', ...after, 'bottom'].join('\n'));
+    expect(lines).toHaveLength(6002);
+    expect(lines[0]).toEqual({ type: 'same', text: 'top', beforeLine: 1, afterLine: 1 });
+    expect(lines.slice(1, 3001).every(line => line.type === 'removed')).toBe(true);
+    expect(lines.slice(3001, 6001).every(line => line.type === 'added')).toBe(true);
+    expect(lines[6001]).toEqual({ type: 'same', text: 'bottom', beforeLine: 3002, afterLine: 3002 });
+  });
+});
+
+describe('toSideBySide', () => {
+  it('pairs removed lines with the added lines that follow them', () => {
+    const rows = toSideBySide(diffLines('a\nb\nc', 'a\nx\ny\nc'));
+    expect(rows).toEqual([
+      { before: { text: 'a', line: 1, changed: false }, after: { text: 'a', line: 1, changed: false } },
+      { before: { text: 'b', line: 2, changed: true }, after: { text: 'x', line: 2, changed: true } },
+      { before: undefined, after: { text: 'y', line: 3, changed: true } },
+      { before: { text: 'c', line: 3, changed: false }, after: { text: 'c', line: 4, changed: false } },
+    ]);
+  });
+});
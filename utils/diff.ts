@@ -0,0 +1,99 @@
+// --- Line Diff ---
+// A longest-common-subsequence diff over lines, which is plenty for notes: the table is
+// (before lines × after lines) and lines shared at either end are trimmed off first.
+// Past `maxTableCells` the changed middle is shown as one removed block and one added block.
+
+export type DiffLine =
+  | { type: 'same'; text: string; beforeLine: number; afterLine: number }
+  | { type: 'removed'; text: string; beforeLine: number }
+  | { type: 'added'; text: string; afterLine: number };
+
+// One row of a side-by-side view; a missing side is blank on that row
+export type DiffRow = {
+  before?: { text: string; line: number; changed: boolean };
+  after?: { text: string; line: number; changed: boolean };
+};
+
+// 4M cells of 4 bytes each, about 16 MB
+const maxTableCells = 4_000_000;
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n'));
+
+// Line numbers in the result are 1-based
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const lines: DiffLine[] = [];
+  const same = (i: number, j: number) => lines.push({ type: 'same', text: a[i], beforeLine: i + 1, afterLine: j + 1 });
+  const removed = (i: number) => lines.push({ type: 'removed', text: a[i], beforeLine: i + 1 });
+  const added = (j: number) => lines.push({ type: 'added', text: b[j], afterLine: j + 1 });
+  for (let i = 0; i < start; i++) same(i, i);
+
+  if ((rows + 1) * (cols + 1) > maxTableCells) {
+    for (let i = start; i < endA; i++) removed(i);
+    for (let j = start; j < endB; j++) added(j);
+  } else {
+    // lengths[i][j] is the LCS length of a[start + i..endA) and b[start + j..endB)
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i][j] = a[start + i] === b[start + j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        same(start + i++, start + j++);
+      } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+  }
+  for (let k = 0; endA + k < a.length; k++) same(endA + k, endB + k);
+  return lines;
+};
+
+// Pairs each run of removed lines with the added lines that follow it, so edited lines sit side by side
+export const toSideBySide = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === 'same') {
+      rows.push({
+        before: { text: line.text, line: line.beforeLine, changed: false },
+        after: { text: line.text, line: line.afterLine, changed: false },
+      });
+      index++;
+      continue;
+    }
+    const removed: { text: string; line: number; changed: boolean }[] = [];
+    const added: { text: string; line: number; changed: boolean }[] = [];
+    while (index < lines.length && lines[index].type !== 'same') {
+      const change = lines[index++];
+      if (change.type === 'removed') removed.push({ text: change.text, line: change.beforeLine, changed: true });
+      else if (change.type === 'added') added.push({ text: change.text, line: change.afterLine, changed: true });
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) rows.push({ before: removed[k], after: added[k] });
+  }
+  return rows;
+};
+
+export const countChanges = (lines: DiffLine[]): { added: number; removed: number } => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length,
+});
@@ -0,0 +1,28 @@
+import { NoteState } from '../components/QuickNote';
+import type { Translator } from './i18n';
+import { parseNoteFile } from './noteFiles';
+
+// --- Dropped & Pasted Files ---
+// Files dropped anywhere on the app or pasted from the clipboard go to the tool that
+// declares their type (`fileTypes` in tools/registry); plain text and Markdown become notes.
+
+const textFileTypes = ['text/plain', 'text/markdown', 'text/x-markdown'];
+const textFileExtension = /\.(txt|md|markdown)$/i;
+
+// Browsers often leave `type` empty for Markdown files, so the extension counts too
+export const isTextFile = (file: File): boolean => {
+  return textFileTypes.includes(file.type) || textFileExtension.test(file.name);
+};
+
+// Front-matter and a leading heading are read the same way as by the notes import
+export const noteFromTextFile = async (file: File): Promise<NoteState> => parseNoteFile(await file.text(), file.name);
+
+// Pasting into these keeps its native behaviour
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const describeFiles = (files: File[], t: Translator['t']): string => {
+  return files.length === 1 ? files[0].name : t('files.count', { count: files.length });
+};
@@ -0,0 +1,40 @@
+// --- Fuzzy Matching ---
+// Scores `text` against `query` as a case-insensitive subsequence match.
+// Returns null when not every query character can be found in order.
+// Consecutive runs and matches at word starts score higher.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+  for (const char of q) {
+    if (char === ' ') continue;
+    const found = t.indexOf(char, textIndex);
+    if (found === -1) return null;
+    score += 1;
+    if (found === previousMatch + 1) score += 3;
+    if (found === 0 || /[\s\-_/#.]/.test(t[found - 1])) score += 2;
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+  // Prefer shorter haystacks when the match quality is otherwise equal
+  return score - t.length / 1000;
+};
+
+// Filters and sorts items by their best score across the given fields
+export const fuzzyFilter = <T>(items: T[], query: string, fields: (item: T) => string[]): T[] => {
+  if (!query.trim()) return items;
+  const scored: { item: T; score: number }[] = [];
+  items.forEach(item => {
+    let best: number | null = null;
+    fields(item).forEach(field => {
+      const score = fuzzyScore(query, field);
+      if (score !== null && (best === null || score > best)) best = score;
+    });
+    if (best !== null) scored.push({ item, score: best });
+  });
+  return scored.sort((a, b) => b.score - a.score).map(entry => entry.item);
+};
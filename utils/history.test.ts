@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, recordChange, redo, undo } from './history';
+
+describe('undo history', () => {
+  it('coalesces quick changes from the same source into one step', () => {
+    let history = createHistory<string>();
+    history = recordChange(history, 'a', 'note:1', 1000);
+    history = recordChange(history, 'ab', 'note:1', 1500);
+    history = recordChange(history, 'abc', 'note:1', 2000);
+    expect(history.past).toEqual(['a']);
+  });
+
+  it('starts a new step after a pause or when the source changes', () => {
+    let history = createHistory<string>();
+    history = recordChange(history, 'a', 'note:1', 1000);
+    history = recordChange(history, 'b', 'note:1', 2000);
+    history = recordChange(history, 'c', 'tool:1', 2100);
+    expect(history.past).toEqual(['a', 'b', 'c']);
+  });
+
+  it('undoes and redoes through the recorded states', () => {
+    let history = recordChange(createHistory<string>(), 'before', 'note:1', 0);
+    const undone = undo(history, 'after');
+    expect(undone?.state).toBe('before');
+    history = undone!.history;
+    expect(undo(history, 'before')).toBeNull();
+    const redone = redo(history, 'before');
+    expect(redone?.state).toBe('after');
+    expect(redo(redone!.history, 'after')).toBeNull();
+  });
+
+  it('drops the redo stack on a new change and does not coalesce across an undo', () => {
+    let history = recordChange(createHistory<string>(), 'a', 'note:1', 0);
+    history = undo(history, 'b')!.history;
+    expect(history.future).toEqual(['b']);
+    history = recordChange(history, 'a', 'note:1', 100);
+    expect(history.future).toEqual([]);
+    expect(history.past).toEqual(['a']);
+  });
+
+  it('keeps at most 100 steps', () => {
+    let history = createHistory<number>();
+    for (let step = 0; step < 150; step++) history = recordChange(history, step, `source:${step}`, step);
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0]).toBe(50);
+  });
+});
@@ -0,0 +1,45 @@
+// --- Undo History ---
+// Entries are snapshots of the whole workspace state. State updates never mutate, so
+// consecutive snapshots share every object that didn't change, including Files and
+// Blobs: an entry costs a handful of references, not a copy of the binary data.
+
+const HISTORY_LIMIT = 100;
+// Changes from the same source closer together than this become one undo step
+const COALESCE_WINDOW_MS = 1000;
+
+export interface UndoHistory<T> {
+  past: T[];
+  future: T[];
+  // Source and time of the most recent change, used for coalescing
+  lastKey: string | null;
+  lastChangeAt: number;
+}
+
+export const createHistory = <T>(): UndoHistory<T> => ({ past: [], future: [], lastKey: null, lastChangeAt: 0 });
+
+// Records `before` as the state preceding a change made by `key` (a note, a tool panel)
+export const recordChange = <T>(history: UndoHistory<T>, before: T, key: string, now = Date.now()): UndoHistory<T> => {
+  const isContinuation = key === history.lastKey && now - history.lastChangeAt < COALESCE_WINDOW_MS;
+  return {
+    past: isContinuation ? history.past : [...history.past, before].slice(-HISTORY_LIMIT),
+    future: [],
+    lastKey: key,
+    lastChangeAt: now,
+  };
+};
+
+export const undo = <T>(history: UndoHistory<T>, current: T): { history: UndoHistory<T>; state: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    state: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastKey: null, lastChangeAt: 0 },
+  };
+};
+
+export const redo = <T>(history: UndoHistory<T>, current: T): { history: UndoHistory<T>; state: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    state: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1), lastKey: null, lastChangeAt: 0 },
+  };
+};
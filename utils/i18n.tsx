@@ -0,0 +1,136 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { en, Message, MessageKey } from '../locales/en';
+import { de } from '../locales/de';
+import { es } from '../locales/es';
+import { ar } from '../locales/ar';
+
+// --- Internationalization ---
+// UI strings live in per-locale message catalogs (locales/), keyed by the English catalog.
+// Like themes and shortcuts, the chosen locale is a per-browser preference in localStorage.
+// A message is either a plain string or a set of plural forms chosen by the `count` param;
+// `{name}` placeholders are filled from params, with numbers formatted for the locale.
+
+const STORAGE_KEY = 'digital-toolbox.locale';
+
+export type Locale = 'en' | 'de' | 'es' | 'ar';
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Record<MessageKey, Message>> = { en, de, es, ar };
+
+// Each language is named in itself, so it can be found by someone who can't read the current one
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  es: 'Español',
+  ar: 'العربية',
+};
+
+const rtlLocales: Locale[] = ['ar'];
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in catalogs;
+
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  const preferred = navigator.languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale);
+  return preferred ?? 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export interface Translator {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatBytes: (bytes: number) => string;
+  // `ratio` is 0 to 1
+  formatPercent: (ratio: number) => string;
+  // "now", "5 min ago" and "3 hr ago" style for the last day, a plain date before that
+  formatRelativeTime: (timestamp: number, now?: number) => string;
+}
+
+const byteUnits = ['byte', 'kilobyte', 'megabyte', 'gigabyte'];
+
+export const createTranslator = (locale: Locale): Translator => {
+  const pluralRules = new Intl.PluralRules(locale);
+  const relativeTime = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' });
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) => new Intl.NumberFormat(locale, options).format(value);
+
+  const t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = catalogs[locale][key] ?? en[key];
+    const template = typeof message === 'string'
+      ? message
+      : message[pluralRules.select(Number(params.count ?? 0)) as keyof typeof message] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+  };
+
+  const formatBytes = (bytes: number): string => {
+    const exponent = bytes > 0 ? Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), byteUnits.length - 1) : 0;
+    return formatNumber(bytes / Math.pow(1024, exponent), {
+      style: 'unit',
+      unit: byteUnits[exponent],
+      unitDisplay: 'short',
+      maximumFractionDigits: exponent === 0 ? 0 : 1,
+    });
+  };
+
+  const formatPercent = (ratio: number) => formatNumber(ratio, { style: 'percent', maximumFractionDigits: 0 });
+
+  const formatRelativeTime = (timestamp: number, now = Date.now()): string => {
+    const minutes = Math.floor((now - timestamp) / 60000);
+    if (minutes < 1) return relativeTime.format(0, 'second');
+    if (minutes < 60) return relativeTime.format(-minutes, 'minute');
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return relativeTime.format(-hours, 'hour');
+    return new Date(timestamp).toLocaleDateString(locale);
+  };
+
+  return {
+    locale,
+    dir: rtlLocales.includes(locale) ? 'rtl' : 'ltr',
+    t,
+    formatNumber,
+    formatBytes,
+    formatPercent,
+    formatRelativeTime,
+  };
+};
+
+// --- Context ---
+type I18nContextValue = Translator & { setLocale: (locale: Locale) => void };
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = translator.dir;
+  }, [locale, translator]);
+
+  const value = useMemo(() => ({
+    ...translator,
+    setLocale: (next: Locale) => {
+      saveLocale(next);
+      setLocaleState(next);
+    },
+  }), [translator]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside I18nProvider');
+  return context;
+};
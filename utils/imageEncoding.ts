@@ -0,0 +1,72 @@
+// --- Image Encoding ---
+// The one place a decoded image becomes a JPEG or PNG file. Runs inside the media
+// workers, or on the main thread where OffscreenCanvas isn't available.
+
+export type OutputFormat = 'jpeg' | 'png';
+
+export interface EncodeOptions {
+  // Taller images are scaled down to this height, keeping their aspect ratio
+  maxHeight: number;
+  format: OutputFormat;
+  // Lossy JPEG; PNG is always lossless
+  compression: boolean;
+}
+
+export interface EncodedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Encoding runs in workers, away from the translator, so its failures carry a message key
+// instead of text; the app shell translates it where the job reports the failure
+export type EncodeFailure = 'tool.encodeNoCanvas' | 'tool.encodeNoBlob' | 'tool.encodeFailed';
+
+export class EncodeError extends Error {
+  readonly key: EncodeFailure;
+
+  constructor(key: EncodeFailure) {
+    super(key);
+    this.name = 'EncodeError';
+    this.key = key;
+  }
+}
+
+const compressedJpegQuality = 0.7;
+
+export const outputExtension = (format: OutputFormat) => (format === 'jpeg' ? '.jpg' : '.png');
+
+const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  return Object.assign(document.createElement('canvas'), { width, height });
+};
+
+const canvasToBlob = (canvas: OffscreenCanvas | HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new EncodeError('tool.encodeNoBlob'))), type, quality);
+  });
+};
+
+export const encodeBitmap = async (bitmap: ImageBitmap, { maxHeight, format, compression }: EncodeOptions): Promise<EncodedImage> => {
+  const ratio = Math.min(1, maxHeight / bitmap.height);
+  const width = Math.round(bitmap.width * ratio);
+  const height = Math.round(bitmap.height * ratio);
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new EncodeError('tool.encodeNoCanvas');
+
+  // JPEG has no alpha channel; transparent areas would otherwise turn black
+  if (format === 'jpeg') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
+  // PNG quality is ignored (lossless), so it's only passed for JPEG
+  const quality = format === 'jpeg' ? (compression ? compressedJpegQuality : 1.0) : undefined;
+  const blob = await canvasToBlob(canvas, mimeType, quality);
+  return { blob, width, height };
+};
@@ -0,0 +1,76 @@
+import type { Translator } from './i18n';
+
+// --- Background Jobs ---
+// Long operations (processing batches, building zips, fetching from GitHub) run as jobs
+// owned by the app shell rather than by the tool panel that started them, so they keep
+// running, and stay cancellable and retryable, after the panel is closed. The shell lists
+// them in the side bar's job center and raises a toast when one finishes out of sight.
+
+export type JobStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+// One item of a job that failed while the rest carried on, e.g. an image that wouldn't encode
+export interface JobFailure {
+  id: string;
+  item: string;
+  message: string;
+  canRetry: boolean;
+  isRetrying: boolean;
+}
+
+export interface Job {
+  id: string;
+  // Tool tab that started the job
+  tabId: string;
+  title: string;
+  status: JobStatus;
+  // 0 to 1, or null when unknown
+  progress: number | null;
+  failures: JobFailure[];
+  // Set when the job as a whole failed; such a job can be rerun
+  error?: string;
+  finishedAt?: number;
+}
+
+// Handed to the work function of a running job
+export interface JobContext {
+  signal: AbortSignal;
+  setProgress: (progress: number | null) => void;
+  // Records a failed item; `retry` redoes just that item and throws if it fails again
+  reportFailure: (item: string, error: unknown, retry?: () => Promise<void>) => void;
+}
+
+// Jobs store their own results (through the tool's state updates), so a job that is
+// retried from the job center after its panel has closed still lands in the tool
+export type JobWork = (job: JobContext) => Promise<void>;
+
+// What each tool panel gets from the shell
+export interface JobRunner {
+  run: (title: string, work: JobWork) => Promise<void>;
+  // Cancels every running job started by this tool tab
+  cancel: () => void;
+}
+
+// Finished jobs kept in the job center besides the running ones
+export const finishedJobLimit = 10;
+
+export const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Drops the oldest finished jobs beyond the limit
+export const pruneJobs = (jobs: Job[]): Job[] => {
+  let finished = 0;
+  return jobs.filter(job => job.status === 'running' || ++finished <= finishedJobLimit);
+};
+
+export const describeJobStatus = (job: Job, { t, formatPercent }: Translator): string => {
+  switch (job.status) {
+    case 'running':
+      return job.progress === null ? t('jobs.working') : formatPercent(job.progress);
+    case 'done':
+      return t('jobs.done');
+    case 'cancelled':
+      return t('jobs.cancelled');
+    case 'failed':
+      if (job.error) return t('jobs.failed');
+      return t('jobs.itemsFailed', { count: job.failures.length });
+  }
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToPlainText, parseInline, parseMarkdown, sanitizeUrl } from './markdown';
+
+describe('sanitizeUrl', () => {
+  it('allows web and mail links and relative targets', () => {
+    expect(sanitizeUrl('https://example.com')).toBe('https://example.com');
+    expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(sanitizeUrl('docs/page')).toBe('docs/page');
+  });
+
+  it('rejects scripting schemes, also when hidden with whitespace or case', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl(' JaVa\tScript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('data:text/html,<b>')).toBeNull();
+    expect(sanitizeUrl('')).toBeNull();
+  });
+});
+
+describe('parseInline', () => {
+  it('parses code, emphasis and links', () => {
+    expect(parseInline('a `b*` **c** _d_ [e](https://x.y/f_(g))')).toEqual([
+      { type: 'text', text: 'a ' },
+      { type: 'code', text: 'b*' },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'text', text: 'c' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'd' }] },
+      { type: 'text', text: ' ' },
+      { type: 'link', href: 'https://x.y/f_(g)', children: [{ type: 'text', text: 'e' }] },
+    ]);
+  });
+
+  it('keeps the label of unsafe links without a target', () => {
+    expect(parseInline('[x](javascript:alert(1))')).toEqual([{ type: 'link', href: null, children: [{ type: 'text', text: 'x' }] }]);
+  });
+
+  it('leaves escaped markers and intraword underscores as text', () => {
+    expect(parseInline('\\*not em\\* snake_case_name')).toEqual([{ type: 'text', text: '*not em* snake_case_name' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits headings, paragraphs, quotes, rules and code', () => {
+    const blocks = parseMarkdown('# Title\n\nText\n> quoted\n\n---\n```js\nconst a = 1;\n```');
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'quote', 'rule', 'code']);
+    expect(blocks[4]).toEqual({ type: 'code', language: 'js', text: 'const a = 1;' });
+  });
+
+  it('records checklist items with their line, depth and state', () => {
+    const [list] = parseMarkdown('- [ ] one\n  - [x] two\n- three');
+    expect(list).toMatchObject({
+      type: 'list',
+      ordered: false,
+      items: [
+        { line: 0, depth: 0, checked: false },
+        { line: 1, depth: 1, checked: true },
+        { line: 2, depth: 0 },
+      ],
+    });
+    expect(list.type === 'list' && list.items[2].checked).toBeUndefined();
+  });
+
+  it('keeps the start number of ordered lists', () => {
+    expect(parseMarkdown('3. c\n4. d')[0]).toMatchObject({ type: 'list', ordered: true, start: 3 });
+  });
+
+  it('does not read checklist items inside code fences', () => {
+    expect(parseMarkdown('```\n- [ ] not a task\n```')).toEqual([{ type: 'code', language: '', text: '- [ ] not a task' }]);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('drops markup but keeps the words', () => {
+    expect(markdownToPlainText('# Title\n- [x] **done** [link](https://x.y)')).toBe('Title\ndone link');
+  });
+});
@@ -0,0 +1,308 @@
+// --- Markdown ---
+// Notes support a small Markdown subset: ATX headings, paragraphs, bullet and numbered lists
+// (including `- [ ]` / `- [x]` checklist items), block quotes, rules, fenced code blocks,
+// and inline code, emphasis and links.
+// Parsing yields a tree that components/MarkdownView renders as React elements, never as an
+// HTML string, so markup typed into a note shows up as text. Link targets go through
+// sanitizeUrl, which drops scripting schemes like `javascript:`.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  // `href` is null when the target was not a safe URL; the label is still shown
+  | { type: 'link'; href: string | null; children: MarkdownInline[] };
+
+export type MarkdownListItem = {
+  // Line index of the item in the note body, used to tick and move checklist items
+  line: number;
+  // Nesting depth from the item's indentation, two spaces per level
+  depth: number;
+  // Set only on checklist items
+  checked?: boolean;
+  children: MarkdownInline[];
+};
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BULLET = /^(\s*)[-*+]\s+(.*)$/;
+const ORDERED = /^(\s*)(\d{1,9})[.)]\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const TASK = /^\[([ xX])\](?:\s+|$)/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BULLET.test(line) || ORDERED.test(line) || QUOTE.test(line);
+
+const matchListItem = (line: string): { ordered: boolean; start: number; depth: number; text: string } | null => {
+  if (RULE.test(line)) return null;
+  const bullet = line.match(BULLET);
+  if (bullet) return { ordered: false, start: 1, depth: Math.floor(bullet[1].length / 2), text: bullet[2] };
+  const ordered = line.match(ORDERED);
+  if (ordered) return { ordered: true, start: Number(ordered[2]), depth: Math.floor(ordered[1].length / 2), text: ordered[3] };
+  return null;
+};
+
+// --- URLs ---
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+export const sanitizeUrl = (url: string): string | null => {
+  // Browsers ignore control characters and whitespace inside a scheme, so strip them before checking it
+  const cleaned = url.trim().replace(/^<|>$/g, '').replace(/[\u0000-\u0020\u007F]/g, '');
+  if (!cleaned) return null;
+  const scheme = cleaned.match(/^([a-z][a-z0-9+.-]*:)/i);
+  if (!scheme) return cleaned;
+  return SAFE_SCHEMES.includes(scheme[1].toLowerCase()) ? cleaned : null;
+};
+
+// --- Inline Parsing ---
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!>~|]/;
+const AUTOLINK = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_]/;
+
+// Index of the `]` closing the bracket at `open`, allowing nested brackets
+const findClosingBracket = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '[') depth++;
+    else if (text[i] === ']' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Index of the `)` closing the parenthesis at `open`, so targets like wiki/Foo_(bar) stay whole
+const findClosingParen = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+    else if (text[i] === '\n') return -1;
+  }
+  return -1;
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+export const parseInline = (text: string, allowLinks = true): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        flush();
+        const code = text.slice(i + run.length, close);
+        nodes.push({ type: 'code', text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (char === '[' && allowLinks) {
+      const close = findClosingBracket(text, i);
+      if (close !== -1 && text[close + 1] === '(') {
+        const end = findClosingParen(text, close + 1);
+        if (end !== -1) {
+          flush();
+          const target = text.slice(close + 2, end).trim().split(/\s+/)[0] ?? '';
+          nodes.push({ type: 'link', href: sanitizeUrl(target), children: parseInline(text.slice(i + 1, close), false) });
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    if (allowLinks && char === 'h' && !isWordChar(text[i - 1])) {
+      const url = text.slice(i).match(AUTOLINK);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: sanitizeUrl(url[0]), children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const delimiter = text[i + 1] === char ? char + char : char;
+      const opensWord = !/\s/.test(text[i + delimiter.length] ?? ' ');
+      // Underscores inside words, as in snake_case, are not emphasis
+      const canOpen = opensWord && !(char === '_' && isWordChar(text[i - 1]));
+      if (canOpen) {
+        let close = text.indexOf(delimiter, i + delimiter.length);
+        while (close !== -1 && (/\s/.test(text[close - 1]) || (char === '_' && isWordChar(text[close + delimiter.length])))) {
+          close = text.indexOf(delimiter, close + 1);
+        }
+        if (close !== -1 && close > i + delimiter.length) {
+          flush();
+          const children = parseInline(text.slice(i + delimiter.length, close), allowLinks);
+          nodes.push(delimiter.length === 2 ? { type: 'strong', children } : { type: 'em', children });
+          i = close + delimiter.length;
+          continue;
+        }
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// --- Block Parsing ---
+// `lineOffset` is where `source` starts in the note body, for the contents of block quotes
+export const parseMarkdown = (source: string, lineOffset = 0): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      // Skip the closing fence; an unclosed block runs to the end of the note
+      i++;
+      blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoteStart = i;
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n'), lineOffset + quoteStart) });
+      continue;
+    }
+
+    const first = matchListItem(line);
+    if (first) {
+      const items: MarkdownListItem[] = [];
+      let text = first.text;
+      let depth = first.depth;
+      let itemLine = i;
+      const pushItem = () => {
+        const task = text.match(TASK);
+        items.push(task
+          ? { line: lineOffset + itemLine, depth, checked: task[1] !== ' ', children: parseInline(text.slice(task[0].length)) }
+          : { line: lineOffset + itemLine, depth, children: parseInline(text) });
+      };
+      i++;
+      while (i < lines.length) {
+        const item = matchListItem(lines[i]);
+        if (item && item.ordered === first.ordered) {
+          pushItem();
+          ({ text, depth } = item);
+          itemLine = i;
+          i++;
+        } else if (!item && !isBlank(lines[i]) && /^\s/.test(lines[i])) {
+          // Indented lines continue the item above
+          text += '\n' + lines[i].trim();
+          i++;
+        } else if (isBlank(lines[i]) && matchListItem(lines[i + 1] ?? '')?.ordered === first.ordered) {
+          i++;
+        } else {
+          break;
+        }
+      }
+      pushItem();
+      blocks.push({ type: 'list', ordered: first.ordered, start: first.start, items });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+// --- Plain Text ---
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => (node.type === 'text' || node.type === 'code' ? node.text : inlineText(node.children))).join('');
+
+const blockText = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(item => inlineText(item.children)).join('\n');
+    case 'quote':
+      return block.children.map(blockText).join('\n');
+    case 'code':
+      return block.text;
+    case 'rule':
+      return '';
+  }
+};
+
+// The note without its markup, for one-line summaries like command palette subtitles
+export const markdownToPlainText = (source: string): string =>
+  parseMarkdown(source).map(blockText).filter(Boolean).join('\n');
@@ -0,0 +1,131 @@
+import { EncodeError, EncodeOptions, EncodedImage, encodeBitmap } from './imageEncoding';
+import type { MediaWorkerRequest, MediaWorkerResponse } from './mediaWorker';
+
+// --- Media Pipeline ---
+// Image encoding for the resizer and the frame grabber runs in a small pool of workers,
+// so big batches don't freeze the UI. Jobs wait in a queue until a worker is free. An
+// aborted job is dropped from the queue, or its result ignored if a worker has it already.
+
+const poolSize = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+const supportsWorkers = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+type Job = {
+  id: number;
+  source: Blob | ImageBitmap;
+  options: EncodeOptions;
+  resolve: (result: EncodedImage) => void;
+  reject: (error: unknown) => void;
+};
+
+type PoolWorker = { worker: Worker; job: Job | null };
+
+let nextJobId = 1;
+const queue: Job[] = [];
+const pool: PoolWorker[] = [];
+
+export const createAbortError = () => new DOMException('Processing was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+const finishJob = (poolWorker: PoolWorker) => {
+  const job = poolWorker.job;
+  poolWorker.job = null;
+  runQueue();
+  return job;
+};
+
+const createPoolWorker = (): PoolWorker => {
+  const poolWorker: PoolWorker = {
+    worker: new Worker(new URL('./mediaWorker.ts', import.meta.url), { type: 'module' }),
+    job: null,
+  };
+  poolWorker.worker.onmessage = (event: MessageEvent<MediaWorkerResponse>) => {
+    const job = finishJob(poolWorker);
+    if (!job || job.id !== event.data.id) return;
+    if (event.data.result) job.resolve(event.data.result);
+    else if (event.data.error) job.reject(new Error(event.data.error));
+    else job.reject(new EncodeError(event.data.failure ?? 'tool.encodeFailed'));
+  };
+  poolWorker.worker.onerror = (event: ErrorEvent) => {
+    console.error('Media worker error:', event.message);
+    finishJob(poolWorker)?.reject(new Error(event.message));
+  };
+  return poolWorker;
+};
+
+const runQueue = () => {
+  while (queue.length > 0) {
+    let poolWorker = pool.find(candidate => !candidate.job);
+    if (!poolWorker && pool.length < poolSize) {
+      poolWorker = createPoolWorker();
+      pool.push(poolWorker);
+    }
+    if (!poolWorker) return;
+    const job = queue.shift() as Job;
+    poolWorker.job = job;
+    const request: MediaWorkerRequest = { id: job.id, source: job.source, options: job.options };
+    // Captured frames are transferred rather than copied
+    poolWorker.worker.postMessage(request, job.source instanceof ImageBitmap ? [job.source] : []);
+  }
+};
+
+const encodeOnMainThread = async (source: Blob | ImageBitmap, options: EncodeOptions): Promise<EncodedImage> => {
+  const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+  try {
+    return await encodeBitmap(bitmap, options);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Encodes an image file, or a frame captured with `createImageBitmap`, which is consumed
+export const encodeImage = (source: Blob | ImageBitmap, options: EncodeOptions, signal?: AbortSignal): Promise<EncodedImage> => {
+  if (signal?.aborted) {
+    if (source instanceof ImageBitmap) source.close();
+    return Promise.reject(createAbortError());
+  }
+  if (!supportsWorkers) return encodeOnMainThread(source, options);
+
+  return new Promise((resolve, reject) => {
+    const job: Job = { id: nextJobId++, source, options, resolve, reject };
+    signal?.addEventListener('abort', () => {
+      const index = queue.indexOf(job);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        if (source instanceof ImageBitmap) source.close();
+      }
+      reject(createAbortError());
+    }, { once: true });
+    queue.push(job);
+    runQueue();
+  });
+};
+
+export interface BatchCallbacks<T> {
+  signal: AbortSignal;
+  onProgress: (progress: number) => void;
+  onItemError: (item: T, index: number, error: unknown) => void;
+}
+
+// Runs one task per item, all at once (the pool bounds the real parallelism), and reports
+// progress as items finish. Failed items are reported and skipped; an abort ends the whole
+// batch with an AbortError once the running tasks have settled.
+export const runBatch = async <T>(
+  items: T[],
+  task: (item: T, index: number) => Promise<void>,
+  { signal, onProgress, onItemError }: BatchCallbacks<T>
+): Promise<void> => {
+  let finished = 0;
+  await Promise.all(items.map(async (item, index) => {
+    try {
+      await task(item, index);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(`Failed to process item ${index + 1}`, error);
+      onItemError(item, index, error);
+    }
+    finished++;
+    if (!signal.aborted) onProgress(finished / items.length);
+  }));
+  if (signal.aborted) throw createAbortError();
+};
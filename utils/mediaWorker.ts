@@ -0,0 +1,27 @@
+import { EncodeError, EncodeFailure, EncodeOptions, EncodedImage, encodeBitmap } from './imageEncoding';
+
+// --- Media Worker ---
+// One worker of the pool in utils/mediaPipeline: decodes a Blob (or takes a frame the
+// main thread already captured) and encodes it.
+
+export type MediaWorkerRequest = { id: number; source: Blob | ImageBitmap; options: EncodeOptions };
+// `failure` is set for the encoder's own errors, which can't cross to the main thread as EncodeErrors
+export type MediaWorkerResponse = { id: number; result?: EncodedImage; error?: string; failure?: EncodeFailure };
+
+self.onmessage = async (event: MessageEvent<MediaWorkerRequest>) => {
+  const { id, source, options } = event.data;
+  let response: MediaWorkerResponse;
+  try {
+    const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+    try {
+      response = { id, result: await encodeBitmap(bitmap, options) };
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    response = error instanceof EncodeError
+      ? { id, failure: error.key }
+      : { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import type { NoteState } from '../components/QuickNote';
+import { exportNotesArchive, findTitleCollisions, noteFileName, noteToMarkdown, parseNoteFile, readNoteFiles } from './noteFiles';
+
+const note: NoteState = {
+  title: 'Groceries "weekly"',
+  body: '- [ ] Milk\n',
+  tags: ['home', 'weekly'],
+  createdAt: Date.UTC(2024, 4, 1, 9, 30),
+  editedAt: Date.UTC(2024, 4, 2, 18, 12),
+  pinned: true,
+  color: '#FEF3C7',
+};
+
+describe('noteToMarkdown and parseNoteFile', () => {
+  it('round-trips a note with all its metadata', () => {
+    expect(parseNoteFile(noteToMarkdown(note), 'ignored.md')).toEqual(note);
+  });
+
+  it('reads block lists, alternative keys and quoted values', () => {
+    const text = "---\ntitle: 'It''s here'\nkeywords:\n  - a\n  - '#b'\ndate: 2024-01-01\nmodified: not a date\ncolor: '#123456'\n---\nBody";
+    expect(parseNoteFile(text, 'file.md')).toEqual({ title: "It's here", body: 'Body', tags: ['a', 'b'], createdAt: Date.UTC(2024, 0, 1) });
+  });
+
+  it('takes the title from a leading heading, else from the file name', () => {
+    expect(parseNoteFile('# Plan\n\nShip it', 'x.md')).toEqual({ title: 'Plan', body: 'Ship it' });
+    expect(parseNoteFile('\uFEFF---\ntags: [a]\n---\n# Plan\nShip it', 'x.md')).toEqual({ title: 'Plan', body: 'Ship it', tags: ['a'] });
+    expect(parseNoteFile('Just text', 'Ideas.txt')).toEqual({ title: 'Ideas', body: 'Just text' });
+  });
+});
+
+describe('file names', () => {
+  it('strips characters file systems reject and falls back for untitled notes', () => {
+    expect(noteFileName({ title: 'a/b: c?', body: '' }, 'Note 1')).toBe('a-b- c-.md');
+    expect(noteFileName({ title: '  ', body: '' }, 'Note 1')).toBe('Note 1.md');
+  });
+
+  it('numbers notes that would share a name inside the archive', async () => {
+    const archive = await exportNotesArchive(
+      [{ tabId: 'a', note: { title: 'Same', body: '1' } }, { tabId: 'b', note: { title: 'same', body: '2' } }],
+      tabId => tabId
+    );
+    const zip = await JSZip.loadAsync(archive);
+    expect(Object.keys(zip.files).sort()).toEqual(['Same.md', 'same (2).md']);
+  });
+});
+
+describe('readNoteFiles', () => {
+  it('reads loose files and the Markdown files inside zips', async () => {
+    const zip = new JSZip();
+    zip.file('b.md', '# B');
+    zip.file('a.txt', 'A body');
+    zip.file('image.png', 'not a note');
+    zip.file('__MACOSX/._b.md', 'metadata');
+    const archive = new File([await zip.generateAsync({ type: 'blob' })], 'notes.zip', { type: 'application/zip' });
+    const notes = await readNoteFiles([new File(['Loose'], 'loose.md'), archive]);
+    expect(notes).toEqual([
+      { title: 'loose', body: 'Loose' },
+      { title: 'a', body: 'A body' },
+      { title: 'B', body: '' },
+    ]);
+  });
+});
+
+describe('findTitleCollisions', () => {
+  it('finds titles already in use or repeated within the import, ignoring case', () => {
+    const incoming = [{ title: 'Plan', body: '' }, { title: 'New', body: '' }, { title: 'new', body: '' }, { title: '', body: '' }];
+    expect(findTitleCollisions(incoming, [{ title: 'plan', body: '' }])).toEqual(['Plan', 'new']);
+  });
+});
@@ -0,0 +1,164 @@
+import JSZip from 'jszip';
+import type { NoteState } from '../components/QuickNote';
+import { NoteEntry, noteColors, parseTags } from './notes';
+
+// --- Markdown Note Files ---
+// A note exports as a Markdown file whose YAML front-matter holds the title and metadata,
+// followed by the body unchanged. Importing reads that front-matter back, and otherwise
+// takes the title from a leading `# Heading` or, failing that, from the file name.
+//
+//   ---
+//   title: "Groceries"
+//   tags: [home, weekly]
+//   created: 2024-05-01T09:30:00.000Z
+//   updated: 2024-05-02T18:12:00.000Z
+//   ---
+//
+//   - [ ] Milk
+
+const noteFileExtension = /\.(md|markdown|txt)$/i;
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const LEADING_HEADING = /^\s*#[ \t]+(.+?)[ \t]*#*[ \t]*(?:\r?\n|$)/;
+
+// --- Export ---
+const yamlString = (value: string) => JSON.stringify(value);
+
+export const noteToMarkdown = (note: NoteState): string => {
+  const lines = ['---', `title: ${yamlString(note.title)}`];
+  if (note.tags && note.tags.length > 0) lines.push(`tags: [${note.tags.map(yamlString).join(', ')}]`);
+  if (note.createdAt !== undefined) lines.push(`created: ${new Date(note.createdAt).toISOString()}`);
+  if (note.editedAt !== undefined) lines.push(`updated: ${new Date(note.editedAt).toISOString()}`);
+  if (note.pinned) lines.push('pinned: true');
+  if (note.color) lines.push(`color: ${yamlString(note.color)}`);
+  lines.push('---', '');
+  return `${lines.join('\n')}\n${note.body}${note.body.endsWith('\n') ? '' : '\n'}`;
+};
+
+// File names keep the title readable but drop characters that file systems reject
+export const noteFileName = (note: NoteState, fallback: string): string => {
+  const base = note.title.replace(/[\\/:*?"<>|\u0000-\u001F]+/g, '-').replace(/\s+/g, ' ').trim().slice(0, 80) || fallback;
+  return `${base}.md`;
+};
+
+// Notes that would share a file name get " (2)", " (3)", ... appended
+export const exportNotesArchive = async (entries: NoteEntry[], fallbackName: (tabId: string) => string): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  entries.forEach(({ tabId, note }) => {
+    const fileName = noteFileName(note, fallbackName(tabId));
+    let unique = fileName;
+    for (let copy = 2; used.has(unique.toLowerCase()); copy++) unique = fileName.replace(/\.md$/, ` (${copy}).md`);
+    used.add(unique.toLowerCase());
+    zip.file(unique, noteToMarkdown(note));
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// --- Import ---
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'") && trimmed.length >= 2) return trimmed.slice(1, -1).replace(/''/g, "'");
+  return trimmed;
+};
+
+// Reads the flat `key: value` subset of YAML that note front-matter uses, with lists
+// written inline (`[a, b]`) or as `- item` lines under their key
+const parseFrontMatter = (yaml: string): Record<string, string | string[]> => {
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  yaml.split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s+(.*)$|^-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1] ?? item[2]));
+      return;
+    }
+    const field = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (!field) return;
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    listKey = null;
+    if (value === '') {
+      fields[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      fields[key] = unquote(value);
+    }
+  });
+  return fields;
+};
+
+const parseDate = (value: string | string[] | undefined): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const parseNoteFile = (text: string, fileName: string): NoteState => {
+  const note: NoteState = { title: fileName.replace(noteFileExtension, ''), body: text };
+  const frontMatter = text.match(FRONT_MATTER);
+  if (frontMatter) {
+    const fields = parseFrontMatter(frontMatter[1]);
+    note.body = text.slice(frontMatter[0].length).replace(/^\r?\n/, '');
+    if (typeof fields.title === 'string') note.title = fields.title;
+    const tags = fields.tags ?? fields.keywords;
+    if (tags) note.tags = parseTags(Array.isArray(tags) ? tags.join(',') : tags);
+    const createdAt = parseDate(fields.created ?? fields.date);
+    const editedAt = parseDate(fields.updated ?? fields.modified);
+    if (createdAt !== undefined) note.createdAt = createdAt;
+    if (editedAt !== undefined) note.editedAt = editedAt;
+    if (fields.pinned === 'true') note.pinned = true;
+    const colorField = fields.color;
+    const color = typeof colorField === 'string' ? noteColors.find(option => option.value.toLowerCase() === colorField.toLowerCase()) : undefined;
+    if (color && color !== noteColors[0]) note.color = color.value;
+    if (typeof fields.title === 'string') return note;
+  }
+  const heading = note.body.match(LEADING_HEADING);
+  if (heading) {
+    note.title = heading[1];
+    note.body = note.body.slice(heading[0].length).replace(/^\r?\n/, '');
+  }
+  return note;
+};
+
+export const isNoteFileName = (name: string): boolean => noteFileExtension.test(name);
+
+// Notes from loose Markdown and text files, and from the Markdown files inside zips like the ones exportNotesArchive makes
+export const readNoteFiles = async (files: File[]): Promise<NoteState[]> => {
+  const notes: NoteState[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name) || file.type === 'application/zip') {
+      const zip = await JSZip.loadAsync(file);
+      const entries = Object.values(zip.files)
+        .filter(entry => !entry.dir && isNoteFileName(entry.name) && !entry.name.startsWith('__MACOSX/'))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        notes.push(parseNoteFile(await entry.async('string'), entry.name.split('/').pop() ?? entry.name));
+      }
+    } else {
+      notes.push(parseNoteFile(await file.text(), file.name));
+    }
+  }
+  return notes;
+};
+
+// Titles of incoming notes that match, ignoring case, an existing note or an earlier incoming one
+export const findTitleCollisions = (incoming: NoteState[], existing: NoteState[]): string[] => {
+  const titles = new Set(existing.map(note => note.title.trim().toLowerCase()).filter(Boolean));
+  const collisions: string[] = [];
+  incoming.forEach(note => {
+    const title = note.title.trim();
+    if (!title) return;
+    if (titles.has(title.toLowerCase())) collisions.push(title);
+    titles.add(title.toLowerCase());
+  });
+  return collisions;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { NoteRevision, NoteHistoryPrefs, parseNoteHistoryPrefs, parseNoteRevisions, pruneAllRevisions, pruneRevisions, snapshotNotes } from './noteHistory';
+
+const day = 24 * 60 * 60 * 1000;
+const prefs: NoteHistoryPrefs = { maxRevisions: 3, maxAgeDays: 1 };
+const revision = (body: string, savedAt: number): NoteRevision => ({ id: body, savedAt, title: '', body });
+
+describe('snapshotNotes', () => {
+  it('adds a revision for changed notes only and keeps the record when nothing changed', () => {
+    const first = snapshotNotes({}, { a: { title: 'A', body: '1', editedAt: 10 }, empty: { title: '', body: '' } }, prefs, 20);
+    expect(Object.keys(first)).toEqual(['a']);
+    expect(first.a).toMatchObject([{ title: 'A', body: '1', savedAt: 10 }]);
+    expect(snapshotNotes(first, { a: { title: 'A', body: '1' } }, prefs, 30)).toBe(first);
+    const second = snapshotNotes(first, { a: { title: 'A', body: '2' } }, prefs, 30);
+    expect(second.a.map(entry => entry.body)).toEqual(['1', '2']);
+    expect(second.a[1].savedAt).toBe(30);
+  });
+});
+
+describe('pruneRevisions', () => {
+  it('keeps the newest revisions up to the limit', () => {
+    const list = ['1', '2', '3', '4'].map((body, index) => revision(body, index));
+    expect(pruneRevisions(list, prefs, 10).map(entry => entry.body)).toEqual(['2', '3', '4']);
+  });
+
+  it('drops old revisions but always keeps the latest', () => {
+    const list = [revision('old', 0), revision('latest', 1)];
+    expect(pruneRevisions(list, prefs, 5 * day).map(entry => entry.body)).toEqual(['latest']);
+    expect(pruneRevisions(list, { ...prefs, maxAgeDays: 0 }, 5 * day)).toHaveLength(2);
+  });
+
+  it('leaves notes without revisions out of the record', () => {
+    expect(pruneAllRevisions({ a: [], b: [revision('1', 0)] }, prefs, 0)).toEqual({ b: [revision('1', 0)] });
+  });
+});
+
+describe('parsing', () => {
+  it('clamps stored retention settings', () => {
+    expect(parseNoteHistoryPrefs({ maxRevisions: 0, maxAgeDays: -4 })).toEqual({ maxRevisions: 1, maxAgeDays: 0 });
+    expect(parseNoteHistoryPrefs({ maxRevisions: 'many' })).toEqual({ maxRevisions: 50, maxAgeDays: 30 });
+  });
+
+  it('drops malformed revisions', () => {
+    expect(parseNoteRevisions({ a: [revision('1', 0), { id: 'x' }], b: 'nope' })).toEqual({ a: [revision('1', 0)] });
+    expect(parseNoteRevisions(null)).toEqual({});
+  });
+});
@@ -0,0 +1,109 @@
+import type { NoteState } from '../components/QuickNote';
+
+// --- Note Revisions ---
+// Once typing pauses for `noteSnapshotIdleMs`, every note whose title or body differs from its
+// latest revision gets a new one. Revisions are kept per note tab, oldest first, and saved
+// with the workspace. How many are kept is a per-browser preference in localStorage.
+
+const STORAGE_KEY = 'digital-toolbox.note-history';
+
+export const noteSnapshotIdleMs = 10_000;
+
+export interface NoteRevision {
+  id: string;
+  savedAt: number;
+  title: string;
+  body: string;
+}
+
+export type NoteRevisions = Record<string, NoteRevision[]>;
+
+export interface NoteHistoryPrefs {
+  // Revisions kept per note; the oldest go first
+  maxRevisions: number;
+  // Revisions older than this are dropped, except each note's latest; 0 keeps them regardless of age
+  maxAgeDays: number;
+}
+
+export const defaultNoteHistoryPrefs: NoteHistoryPrefs = { maxRevisions: 50, maxAgeDays: 30 };
+const maxRevisionsLimit = 500;
+const maxAgeDaysLimit = 3650;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const clampWhole = (value: unknown, min: number, max: number, fallback: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.round(value), min), max) : fallback;
+};
+
+export const parseNoteHistoryPrefs = (value: Partial<Record<keyof NoteHistoryPrefs, unknown>>): NoteHistoryPrefs => ({
+  maxRevisions: clampWhole(value.maxRevisions, 1, maxRevisionsLimit, defaultNoteHistoryPrefs.maxRevisions),
+  maxAgeDays: clampWhole(value.maxAgeDays, 0, maxAgeDaysLimit, defaultNoteHistoryPrefs.maxAgeDays),
+});
+
+export const loadNoteHistoryPrefs = (): NoteHistoryPrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return parseNoteHistoryPrefs(typeof stored === 'object' && stored !== null ? stored : {});
+  } catch (e) {
+    return defaultNoteHistoryPrefs;
+  }
+};
+
+export const saveNoteHistoryPrefs = (prefs: NoteHistoryPrefs) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+};
+
+const createRevisionId = (): string => `revision-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The latest revision outlives the age limit so a note left alone for a while still has one to diff against
+export const pruneRevisions = (revisions: NoteRevision[], prefs: NoteHistoryPrefs, now = Date.now()): NoteRevision[] => {
+  const isFresh = (revision: NoteRevision, index: number) => index === revisions.length - 1 || now - revision.savedAt <= prefs.maxAgeDays * dayMs;
+  const kept = prefs.maxAgeDays > 0 ? revisions.filter(isFresh) : revisions;
+  return kept.length > prefs.maxRevisions ? kept.slice(-prefs.maxRevisions) : kept;
+};
+
+// Notes without revisions are left out so the record doesn't grow with every empty tab
+export const pruneAllRevisions = (revisions: NoteRevisions, prefs: NoteHistoryPrefs, now = Date.now()): NoteRevisions => {
+  const pruned: NoteRevisions = {};
+  Object.entries(revisions).forEach(([tabId, list]) => {
+    const kept = pruneRevisions(list, prefs, now);
+    if (kept.length > 0) pruned[tabId] = kept;
+  });
+  return pruned;
+};
+
+export const isSameAsRevision = (note: NoteState, revision: NoteRevision | undefined): boolean =>
+  !!revision && revision.title === note.title && revision.body === note.body;
+
+// Adds a revision for each note with content that changed since its latest one. Returns
+// `revisions` itself when nothing changed, so callers can skip the state update.
+export const snapshotNotes = (revisions: NoteRevisions, notes: Record<string, NoteState>, prefs: NoteHistoryPrefs, now = Date.now()): NoteRevisions => {
+  let next = revisions;
+  Object.entries(notes).forEach(([tabId, note]) => {
+    const list = revisions[tabId] ?? [];
+    if (!(note.title || note.body) || isSameAsRevision(note, list[list.length - 1])) return;
+    const revision: NoteRevision = { id: createRevisionId(), savedAt: note.editedAt ?? now, title: note.title, body: note.body };
+    if (next === revisions) next = { ...revisions };
+    next[tabId] = pruneRevisions([...list, revision], prefs, now);
+  });
+  return next;
+};
+
+const parseNoteRevision = (value: unknown): NoteRevision | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, savedAt, title, body } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof savedAt !== 'number' || typeof title !== 'string' || typeof body !== 'string') return null;
+  return { id, savedAt, title, body };
+};
+
+// Drops malformed entries from revisions read back from storage or an archive
+export const parseNoteRevisions = (value: unknown): NoteRevisions => {
+  const revisions: NoteRevisions = {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return revisions;
+  Object.entries(value as Record<string, unknown>).forEach(([tabId, list]) => {
+    if (!Array.isArray(list)) return;
+    const valid = list.map(parseNoteRevision).filter((revision): revision is NoteRevision => revision !== null);
+    if (valid.length > 0) revisions[tabId] = valid;
+  });
+  return revisions;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { NoteEntry, collectTags, hasNoteContent, matchesNoteQuery, parseTags, sortNoteEntries } from './notes';
+
+describe('hasNoteContent', () => {
+  it('counts metadata alone as content', () => {
+    expect(hasNoteContent(undefined)).toBe(false);
+    expect(hasNoteContent({ title: '', body: '' })).toBe(false);
+    expect(hasNoteContent({ title: '', body: '', tags: [] })).toBe(false);
+    expect(hasNoteContent({ title: '', body: '', hideCompleted: true })).toBe(false);
+    expect(hasNoteContent({ title: '', body: '', tags: ['work'] })).toBe(true);
+    expect(hasNoteContent({ title: '', body: '', pinned: true })).toBe(true);
+    expect(hasNoteContent({ title: '', body: '', color: '#FEF3C7' })).toBe(true);
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and spaces, strips # and drops case-insensitive duplicates', () => {
+    expect(parseTags('#work, home  Work,,##ideas')).toEqual(['work', 'home', 'ideas']);
+    expect(parseTags('  ')).toEqual([]);
+  });
+});
+
+describe('notes index', () => {
+  const entries: NoteEntry[] = [
+    { tabId: 'a', note: { title: 'Groceries', body: 'milk', tags: ['Home'], editedAt: 3, createdAt: 1 } },
+    { tabId: 'b', note: { title: 'Plan', body: 'ship it', tags: ['work'], editedAt: 1, createdAt: 3 } },
+    { tabId: 'c', note: { title: 'Pinned', body: '', pinned: true, editedAt: 0 } },
+    { tabId: 'd', note: { title: 'Old', body: '' } },
+  ];
+  const order = (sorted: NoteEntry[]) => sorted.map(entry => entry.tabId);
+
+  it('puts pinned notes first and untimed notes last', () => {
+    expect(order(sortNoteEntries(entries, 'updated-desc'))).toEqual(['c', 'a', 'b', 'd']);
+    expect(order(sortNoteEntries(entries, 'created-desc'))).toEqual(['c', 'b', 'a', 'd']);
+    expect(order(sortNoteEntries(entries, 'updated-asc'))).toEqual(['c', 'd', 'b', 'a']);
+  });
+
+  it('matches every query word against title, body or tags', () => {
+    expect(matchesNoteQuery(entries[0].note, 'groc MILK')).toBe(true);
+    expect(matchesNoteQuery(entries[0].note, '#home')).toBe(true);
+    expect(matchesNoteQuery(entries[0].note, 'milk work')).toBe(false);
+    expect(matchesNoteQuery(entries[0].note, '')).toBe(true);
+  });
+
+  it('collects tags once each, sorted', () => {
+    expect(collectTags([...entries, { tabId: 'e', note: { title: '', body: '', tags: ['home'] } }])).toEqual(['Home', 'work']);
+  });
+});
@@ -0,0 +1,73 @@
+import type { NoteState } from '../components/QuickNote';
+import type { MessageKey } from './i18n';
+
+// --- Note Metadata ---
+// Tags, pins and colors are optional fields on NoteState, so notes saved before they existed
+// load unchanged. Colors are light tints that keep black text readable on collapsed tabs.
+
+export const noteColors: { name: MessageKey; value: string }[] = [
+  { name: 'noteColor.white', value: '#FFFFFF' },
+  { name: 'noteColor.yellow', value: '#FEF3C7' },
+  { name: 'noteColor.green', value: '#DCFCE7' },
+  { name: 'noteColor.blue', value: '#DBEAFE' },
+  { name: 'noteColor.pink', value: '#FCE7F3' },
+  { name: 'noteColor.purple', value: '#EDE9FE' },
+  { name: 'noteColor.orange', value: '#FFEDD5' },
+];
+
+export const defaultNoteColor = noteColors[0].value;
+
+// Tags, a pin or a color alone also keep a note, so its tab isn't handed out as a free slot
+export const hasNoteContent = (note: NoteState | undefined): note is NoteState =>
+  !!note && !!(note.title || note.body || note.tags?.length || note.pinned || note.color);
+
+// Tags are typed as a comma or space separated list; a leading # is optional and duplicates
+// differing only in case are dropped
+export const parseTags = (input: string): string[] => {
+  const tags: string[] = [];
+  input.split(/[,\s]+/).forEach(part => {
+    const tag = part.replace(/^#+/, '').trim();
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+};
+
+// --- Notes Index ---
+export type NoteEntry = { tabId: string; note: NoteState };
+
+export type NoteSort = 'updated-desc' | 'updated-asc' | 'created-desc' | 'created-asc';
+
+export const noteSortLabels: Record<NoteSort, MessageKey> = {
+  'updated-desc': 'notesIndex.sortUpdatedDesc',
+  'updated-asc': 'notesIndex.sortUpdatedAsc',
+  'created-desc': 'notesIndex.sortCreatedDesc',
+  'created-asc': 'notesIndex.sortCreatedAsc',
+};
+
+export const collectTags = (entries: NoteEntry[]): string[] => {
+  const tags = new Map<string, string>();
+  entries.forEach(({ note }) => note.tags?.forEach(tag => {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }));
+  return [...tags.values()].sort((a, b) => a.localeCompare(b));
+};
+
+// Every word of the query has to appear in the title, body or tags
+export const matchesNoteQuery = (note: NoteState, query: string): boolean => {
+  const haystack = [note.title, note.body, ...(note.tags ?? [])].join('\n').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word.replace(/^#/, '')));
+};
+
+export const hasNoteTag = (note: NoteState, tag: string): boolean =>
+  !!note.tags?.some(noteTag => noteTag.toLowerCase() === tag.toLowerCase());
+
+// Pinned notes come first; notes without a recorded time sort as the oldest
+export const sortNoteEntries = (entries: NoteEntry[], sort: NoteSort): NoteEntry[] => {
+  const [field, direction] = sort.split('-');
+  const timeOf = (note: NoteState) => (field === 'created' ? note.createdAt ?? note.editedAt : note.editedAt) ?? 0;
+  return [...entries].sort((a, b) => {
+    if (!!a.note.pinned !== !!b.note.pinned) return a.note.pinned ? -1 : 1;
+    const difference = timeOf(a.note) - timeOf(b.note);
+    return direction === 'asc' ? difference : -difference;
+  });
+};
@@ -0,0 +1,51 @@
+// --- Tool Panel Layout (desktop) ---
+// Open panels sit in a horizontal strip before the grid. In strip mode each panel has
+// its own width, remembered per tool (not per instance); the tiling modes size panels
+// to the viewport instead. Like themes and shortcuts, this is a per-browser preference
+// stored in localStorage rather than part of a workspace.
+
+import type { MessageKey } from './i18n';
+
+const STORAGE_KEY = 'digital-toolbox.panel-layout';
+
+export type PanelTiling = 'strip' | 'side-by-side' | 'stacked';
+
+export interface PanelLayoutPrefs {
+  tiling: PanelTiling;
+  // Tool id -> panel width in px, for tools the user has resized
+  widths: Record<string, number>;
+}
+
+export const panelTilingLabels: Record<PanelTiling, MessageKey> = {
+  'strip': 'panelLayout.strip',
+  'side-by-side': 'panelLayout.sideBySide',
+  'stacked': 'panelLayout.stacked',
+};
+
+export const minPanelWidthPx = 320;
+
+export const defaultPanelLayoutPrefs: PanelLayoutPrefs = { tiling: 'strip', widths: {} };
+
+export const clampPanelWidth = (width: number, maxWidth: number): number => {
+  return Math.round(Math.min(Math.max(width, minPanelWidthPx), Math.max(minPanelWidthPx, maxWidth)));
+};
+
+export const loadPanelLayoutPrefs = (): PanelLayoutPrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const tiling = Object.keys(panelTilingLabels).includes(stored.tiling) ? stored.tiling as PanelTiling : 'strip';
+    const widths: Record<string, number> = {};
+    if (typeof stored.widths === 'object' && stored.widths !== null) {
+      Object.entries(stored.widths).forEach(([toolId, width]) => {
+        if (typeof width === 'number' && width > 0) widths[toolId] = width;
+      });
+    }
+    return { tiling, widths };
+  } catch (e) {
+    return defaultPanelLayoutPrefs;
+  }
+};
+
+export const savePanelLayoutPrefs = (prefs: PanelLayoutPrefs) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+};
@@ -0,0 +1,21 @@
+/// <reference types="vite-plugin-pwa/vanillajs" />
+import { registerSW } from 'virtual:pwa-register';
+import { createTranslator, loadLocale } from './i18n';
+
+// --- Service Worker ---
+// The build precaches the app shell and its assets, so the local-file tools (resizer,
+// frame extractor, notes) keep working offline. A new version waits for the user's
+// go-ahead instead of reloading underneath unsaved edits.
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  const updateServiceWorker = registerSW({
+    onNeedRefresh() {
+      if (window.confirm(createTranslator(loadLocale()).t('app.updateAvailable'))) {
+        updateServiceWorker(true);
+      }
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    },
+  });
+};
@@ -0,0 +1,60 @@
+// --- Keyboard Shortcuts ---
+// Shortcuts are stored as normalised combo strings like "Alt+1" or "Ctrl+Shift+K",
+// keyed by the command they trigger. User overrides live in localStorage.
+
+const STORAGE_KEY = 'digital-toolbox.shortcuts';
+
+export type ShortcutMap = Record<string, string>;
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+export const isMacPlatform = () => /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Uses `code` rather than `key` so Alt/Option combos aren't turned into symbols on macOS
+const keyFromEvent = (e: KeyboardEvent): string => {
+  if (e.code.startsWith('Digit')) return e.code.slice(5);
+  if (e.code.startsWith('Key')) return e.code.slice(3);
+  return e.key.length === 1 ? e.key.toUpperCase() : e.key;
+};
+
+// Returns null for bare modifier presses, which can't form a shortcut on their own
+export const comboFromEvent = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.metaKey) parts.push('Meta');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(keyFromEvent(e));
+  return parts.join('+');
+};
+
+// "Mod" is Cmd on macOS and Ctrl elsewhere
+export const matchesCombo = (e: KeyboardEvent, combo: string): boolean => {
+  const resolved = combo.replace('Mod', isMacPlatform() ? 'Meta' : 'Ctrl');
+  return comboFromEvent(e) === resolved;
+};
+
+export const formatCombo = (combo: string): string => {
+  if (!isMacPlatform()) return combo.replace('Mod', 'Ctrl');
+  return combo
+    .replace('Mod', '⌘')
+    .replace('Meta', '⌘')
+    .replace('Ctrl', '⌃')
+    .replace('Alt', '⌥')
+    .replace('Shift', '⇧')
+    .replace(/\+/g, '');
+};
+
+export const loadShortcuts = (defaults: ShortcutMap): ShortcutMap => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...defaults, ...stored };
+  } catch (e) {
+    return defaults;
+  }
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shortcuts));
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { TabLayout, addToolInstance, createDefaultLayout, getToolInstanceIds, removeToolInstance, setTabLabel, getSlotOfTab, getTabAt, keyForSlot, migrateLegacyKeys, parseTabLayout, slotNumberOfKey, swapSlots } from './tabLayout';
+
+const emptyLayout: TabLayout = { slots: {}, tools: { 'tab-1': 'image-resizer' }, labels: {} };
+
+describe('slot keys', () => {
+  it('numbers slots from 1 down each column', () => {
+    expect(slotNumberOfKey('item-0-0')).toBe(1);
+    expect(slotNumberOfKey('item-1-2')).toBe(6);
+    expect(slotNumberOfKey('not-a-key')).toBe(0);
+    expect(keyForSlot(6)).toBe('item-1-2');
+  });
+
+  it('puts the registered tools in the first slots', () => {
+    const layout = createDefaultLayout();
+    expect(getTabAt(layout, 'item-0-0')).toBe('tab-1');
+    expect(layout.tools['tab-1']).toBeDefined();
+  });
+});
+
+describe('swapSlots', () => {
+  it('moves tabs between slots and back to their defaults', () => {
+    const swapped = swapSlots(emptyLayout, 'item-0-0', 'item-0-2');
+    expect(getTabAt(swapped, 'item-0-0')).toBe('tab-3');
+    expect(getTabAt(swapped, 'item-0-2')).toBe('tab-1');
+    expect(getSlotOfTab(swapped, 'tab-1')).toBe('item-0-2');
+    expect(getSlotOfTab(swapped, 'tab-3')).toBe('item-0-0');
+    expect(swapSlots(swapped, 'item-0-2', 'item-0-0').slots).toEqual({});
+  });
+
+  it('finds no slot for a default tab whose slot went to another tab', () => {
+    const layout: TabLayout = { ...emptyLayout, slots: { 'item-0-1': 'instance-x' } };
+    expect(getSlotOfTab(layout, 'tab-2')).toBeNull();
+    expect(getSlotOfTab(layout, 'instance-x')).toBe('item-0-1');
+  });
+});
+
+describe('stored layouts', () => {
+  it('rekeys slot-keyed states by default tab id', () => {
+    expect(migrateLegacyKeys({ 'item-0-1': 'note', 'tab-9': 'kept' })).toEqual({ 'tab-2': 'note', 'tab-9': 'kept' });
+  });
+
+  it('accepts only string maps and defaults missing labels', () => {
+    expect(parseTabLayout({ slots: {}, tools: { 'tab-1': 'image-resizer' } })).toEqual({ slots: {}, tools: { 'tab-1': 'image-resizer' }, labels: {} });
+    expect(parseTabLayout({ slots: { 'item-0-0': 3 }, tools: {} })).toBeNull();
+    expect(parseTabLayout(null)).toBeNull();
+  });
+});
+
+describe('tool instances', () => {
+  it('puts a new instance into the given slot and removes it back to a note tab', () => {
+    const { layout, tabId } = addToolInstance(emptyLayout, 'image-resizer', 'item-0-1');
+    expect(getTabAt(layout, 'item-0-1')).toBe(tabId);
+    expect(getToolInstanceIds(layout, 'image-resizer')).toEqual(['tab-1', tabId]);
+    const labelled = setTabLabel(layout, tabId, 'Thumbnails');
+    expect(labelled.labels[tabId]).toBe('Thumbnails');
+    expect(setTabLabel(labelled, tabId, '').labels).toEqual({});
+    const removed = removeToolInstance(labelled, tabId);
+    expect(removed).toEqual(emptyLayout);
+  });
+
+  it('gives the freed slot a fresh note tab when its default tab lives elsewhere', () => {
+    const swapped = swapSlots(emptyLayout, 'item-0-1', 'item-0-2');
+    const { layout, tabId } = addToolInstance(swapped, 'image-resizer', 'item-0-1');
+    const removed = removeToolInstance(layout, tabId);
+    const freed = getTabAt(removed, 'item-0-1');
+    expect(freed).toMatch(/^note-/);
+    expect(getTabAt(removed, 'item-0-2')).toBe('tab-2');
+  });
+});
@@ -0,0 +1,140 @@
+import { toolRegistry } from '../tools/registry';
+
+// --- Grid Slots vs. Tabs ---
+// A *slot* is a position in the grid, keyed `item-${col}-${row}`. A *tab* is the
+// content shown in a slot (a tool or a note) and has a stable id that survives
+// being dragged to another slot. Tool and note states are keyed by tab id.
+//
+// Every slot starts out holding a default tab `tab-${slotNumber}`; the layout only
+// records slots whose tab has been moved, plus which tabs are tools. Extra instances
+// of a tool get generated ids and take over a slot that held an empty note.
+
+export const itemsPerColumn = 3;
+
+export interface TabLayout {
+  // Slot key -> tab id, for slots that don't hold their default tab
+  slots: Record<string, string>;
+  // Tab id -> tool id, for tabs that host a tool rather than a note
+  tools: Record<string, string>;
+  // Tab id -> user-given label, for telling tool instances apart
+  labels: Record<string, string>;
+}
+
+export const parseKey = (key: string): { col: number; row: number } | null => {
+  const parts = key.split('-');
+  if (parts.length === 3 && parts[0] === 'item') {
+    const col = parseInt(parts[1], 10);
+    const row = parseInt(parts[2], 10);
+    if (!isNaN(col) && !isNaN(row)) {
+      return { col, row };
+    }
+  }
+  return null;
+};
+
+// Slots are numbered from 1, matching the `NN#` labels shown on each tab
+export const slotNumberOfKey = (key: string): number => {
+  const pos = parseKey(key);
+  return pos ? (pos.col * itemsPerColumn + pos.row + 1) : 0;
+};
+
+// Inverse of slotNumberOfKey: slot N (1-based) lives at column/row
+export const keyForSlot = (switchNumber: number): string => {
+  const index = switchNumber - 1;
+  return `item-${Math.floor(index / itemsPerColumn)}-${index % itemsPerColumn}`;
+};
+
+export const defaultTabIdForSlot = (slotKey: string): string => `tab-${slotNumberOfKey(slotKey)}`;
+
+// Tools start in the first slots, in registry order
+export const createDefaultLayout = (): TabLayout => ({
+  slots: {},
+  tools: Object.fromEntries(toolRegistry.map((tool, index) => [`tab-${index + 1}`, tool.id])),
+  labels: {},
+});
+
+const uniqueSuffix = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getTabAt = (layout: TabLayout, slotKey: string): string => {
+  return layout.slots[slotKey] ?? defaultTabIdForSlot(slotKey);
+};
+
+export const getSlotOfTab = (layout: TabLayout, tabId: string): string | null => {
+  const moved = Object.entries(layout.slots).find(([, id]) => id === tabId);
+  if (moved) return moved[0];
+  const match = /^tab-(\d+)$/.exec(tabId);
+  if (!match) return null;
+  const slotKey = keyForSlot(parseInt(match[1], 10));
+  // The default slot may since have been given to another tab
+  return layout.slots[slotKey] === undefined ? slotKey : null;
+};
+
+export const getToolTabId = (layout: TabLayout, toolId: string): string | undefined => {
+  return Object.keys(layout.tools).find(tabId => layout.tools[tabId] === toolId);
+};
+
+export const getToolInstanceIds = (layout: TabLayout, toolId: string): string[] => {
+  return Object.keys(layout.tools).filter(tabId => layout.tools[tabId] === toolId);
+};
+
+// Puts a new instance of a tool into `slotKey`, replacing the (empty) note tab there
+export const addToolInstance = (layout: TabLayout, toolId: string, slotKey: string): { layout: TabLayout; tabId: string } => {
+  const tabId = `instance-${uniqueSuffix()}`;
+  return {
+    tabId,
+    layout: {
+      slots: { ...layout.slots, [slotKey]: tabId },
+      tools: { ...layout.tools, [tabId]: toolId },
+      labels: layout.labels,
+    },
+  };
+};
+
+// Turns a tool tab back into an empty note tab in the same slot
+export const removeToolInstance = (layout: TabLayout, tabId: string): TabLayout => {
+  const { [tabId]: _tool, ...tools } = layout.tools;
+  const { [tabId]: _label, ...labels } = layout.labels;
+  const slots = { ...layout.slots };
+  const slotKey = getSlotOfTab(layout, tabId);
+  if (slotKey && slots[slotKey] === tabId) {
+    // The slot's default tab may have been dragged elsewhere, in which case it needs a fresh id
+    const defaultTabId = defaultTabIdForSlot(slotKey);
+    if (Object.values(slots).includes(defaultTabId)) slots[slotKey] = `note-${uniqueSuffix()}`;
+    else delete slots[slotKey];
+  }
+  return { slots, tools, labels };
+};
+
+export const setTabLabel = (layout: TabLayout, tabId: string, label: string): TabLayout => {
+  const labels = { ...layout.labels, [tabId]: label };
+  if (!label) delete labels[tabId];
+  return { ...layout, labels };
+};
+
+// Exchanges the tabs held by two slots, dropping entries that are back at their default
+export const swapSlots = (layout: TabLayout, slotA: string, slotB: string): TabLayout => {
+  const tabA = getTabAt(layout, slotA);
+  const tabB = getTabAt(layout, slotB);
+  const slots = { ...layout.slots, [slotA]: tabB, [slotB]: tabA };
+  [slotA, slotB].forEach(slotKey => {
+    if (slots[slotKey] === defaultTabIdForSlot(slotKey)) delete slots[slotKey];
+  });
+  return { ...layout, slots };
+};
+
+// Workspaces saved before tab ids existed keyed states by slot (`item-c-r`)
+export const migrateLegacyKeys = <T>(states: Record<string, T>): Record<string, T> => {
+  return Object.fromEntries(
+    Object.entries(states).map(([key, value]) => [parseKey(key) ? defaultTabIdForSlot(key) : key, value])
+  );
+};
+
+// Validates an untrusted value (storage, imported archives) as a layout
+export const parseTabLayout = (value: unknown): TabLayout | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { slots, tools, labels = {} } = value as Record<string, unknown>;
+  const isStringMap = (map: unknown): map is Record<string, string> =>
+    typeof map === 'object' && map !== null && Object.values(map).every(v => typeof v === 'string');
+  if (!isStringMap(slots) || !isStringMap(tools) || !isStringMap(labels)) return null;
+  return { slots: { ...slots }, tools: { ...tools }, labels: { ...labels } };
+};
@@ -0,0 +1,57 @@
+import { isHexColor, generateEvenLighterShade } from './color';
+
+// --- Themes ---
+// A theme colors three layers: the app background behind the grid, the surface of
+// inactive tool tabs, and the accent used for active tabs and primary buttons.
+
+export interface Theme {
+  name: string;
+  accent: string;
+  background: string;
+  surface: string;
+}
+
+const STORAGE_KEY = 'digital-toolbox.themes';
+
+const presetTheme = (name: string, accent: string): Theme => ({
+  name,
+  accent,
+  background: '#000000',
+  surface: generateEvenLighterShade(accent),
+});
+
+export const presetThemes: Theme[] = [
+  presetTheme('Yellow', '#FBBF24'),
+  presetTheme('Blue', '#3B82F6'),
+  presetTheme('Green', '#22C55E'),
+  presetTheme('Pink', '#EC4899'),
+  presetTheme('Purple', '#8B5CF6'),
+];
+
+export const defaultTheme = presetThemes[0];
+
+// Builds a full theme from a bare accent color (older workspaces only stored `baseColor`)
+export const themeFromAccent = (accent: string): Theme => presetTheme('Custom', accent);
+
+// Validates an untrusted value (storage, imported archives) as a theme
+export const parseTheme = (value: unknown): Theme | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, accent, background, surface } = value as Record<string, unknown>;
+  if (typeof name !== 'string') return null;
+  if (![accent, background, surface].every(color => typeof color === 'string' && isHexColor(color))) return null;
+  return { name, accent: accent as string, background: background as string, surface: surface as string };
+};
+
+export const loadSavedThemes = (): Theme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.map(parseTheme).filter((theme): theme is Theme => theme !== null);
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveSavedThemes = (themes: Theme[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ArchivedWorkspace, exportWorkspaceArchive, importWorkspaceArchive } from './workspaceArchive';
+import { createDefaultLayout } from './tabLayout';
+import { defaultTheme } from './themes';
+import { createTranslator } from './i18n';
+import type { ToolState } from '../tools/registry';
+import type { NoteState } from '../components/QuickNote';
+import { BatchImageResizerState, defaultResizerState } from '../components/BatchImageResizer';
+
+const { t } = createTranslator('en');
+
+const roundTrip = async (noteStates: Record<string, NoteState>, toolStates: Record<string, ToolState> = {}) => {
+  const workspace: ArchivedWorkspace = { toolStates, noteStates, theme: defaultTheme, layout: createDefaultLayout() };
+  return importWorkspaceArchive(await exportWorkspaceArchive(workspace), t);
+};
+
+describe('workspace archive notes', () => {
+  it('keeps note metadata through export and import', async () => {
+    const note: NoteState = {
+      title: 'Groceries',
+      body: '- [ ] Milk',
+      createdAt: 1700000000000,
+      editedAt: 1700000500000,
+      tags: ['home', 'weekly'],
+      pinned: true,
+      color: '#FEF3C7',
+      hideCompleted: true,
+    };
+    const { workspace, failures } = await roundTrip({ 'note-1': note });
+    expect(failures).toEqual([]);
+    expect(workspace.noteStates['note-1']).toEqual(note);
+  });
+
+  it('drops metadata that the app would not have stored', async () => {
+    const { workspace } = await roundTrip({
+      // Deliberately not a valid NoteState, as a hand-edited archive might hold
+      'note-1': { title: 'A', body: '', createdAt: 'yesterday', tags: ['#ok', 3, 'OK'], pinned: 'yes', color: '#123456', hideCompleted: 1 } as unknown as NoteState,
+    });
+    expect(workspace.noteStates['note-1']).toEqual({ title: 'A', body: '', tags: ['ok'] });
+  });
+
+  it('reports notes without a title or body', async () => {
+    const { workspace, failures } = await roundTrip({ 'note-1': { title: 'A' } as NoteState });
+    expect(workspace.noteStates['note-1']).toBeUndefined();
+    expect(failures).toHaveLength(1);
+  });
+});
+
+describe('workspace archive tool states', () => {
+  it('stores files inside tool states as their own entries', async () => {
+    const file = new File(['pixels'], 'photo.png', { type: 'image/png', lastModified: 1700000000000 });
+    const resizer: BatchImageResizerState = {
+      ...defaultResizerState,
+      type: 'image-resizer',
+      files: [{ id: 'file-1', originalFile: file, previewUrl: '', displayName: 'photo.png' }],
+    };
+    const { workspace, failures } = await roundTrip({}, { 'instance-1': resizer });
+    expect(failures).toEqual([]);
+    const restored = (workspace.toolStates['instance-1'] as BatchImageResizerState).files[0].originalFile;
+    expect(restored).toBeInstanceOf(File);
+    expect(restored.name).toBe('photo.png');
+    expect(restored.type).toBe('image/png');
+    expect(restored.lastModified).toBe(1700000000000);
+    expect(await restored.text()).toBe('pixels');
+  });
+
+  it('reports tool states of unknown tools', async () => {
+    const { workspace, failures } = await roundTrip({}, { 'instance-1': { type: 'no-such-tool' } as unknown as ToolState });
+    expect(workspace.toolStates['instance-1']).toBeUndefined();
+    expect(failures).toHaveLength(1);
+  });
+});
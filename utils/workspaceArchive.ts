@@ -0,0 +1,205 @@
+import JSZip from 'jszip';
+import { ToolState, getToolDefinition } from '../tools/registry';
+import { NoteState } from '../components/QuickNote';
+import { Theme, parseTheme, themeFromAccent } from './themes';
+import { isHexColor } from './color';
+import { TabLayout, createDefaultLayout, migrateLegacyKeys, parseTabLayout } from './tabLayout';
+import { NoteRevisions, parseNoteRevisions } from './noteHistory';
+import { noteColors, parseTags } from './notes';
+import type { Translator } from './i18n';
+
+// --- Workspace Archive Format ---
+// A workspace archive is a zip with a `manifest.json` describing tool and note
+// states. Every File/Blob inside a state is stored as its own `blobs/N` entry and
+// replaced in the manifest by a `{ $blob: N, ... }` reference.
+
+const ARCHIVE_FORMAT = 'digital-toolbox-workspace';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+type BlobReference = {
+  $blob: number;
+  type: string;
+  name?: string;
+  lastModified?: number;
+};
+
+interface WorkspaceManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  exportedAt: number;
+  theme: Theme;
+  layout: TabLayout;
+  toolStates: Record<string, unknown>;
+  noteStates: Record<string, unknown>;
+  noteRevisions?: NoteRevisions;
+}
+
+export interface ArchivedWorkspace {
+  toolStates: Record<string, ToolState>;
+  noteStates: Record<string, NoteState>;
+  noteRevisions?: NoteRevisions;
+  // null when the archive's theme couldn't be read; the current theme is kept
+  theme: Theme | null;
+  layout: TabLayout;
+}
+
+export interface ImportResult {
+  workspace: ArchivedWorkspace;
+  // Human-readable descriptions of entries that had to be dropped
+  failures: string[];
+}
+
+const blobPath = (index: number) => `blobs/${index}`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isBlobReference = (value: unknown): value is BlobReference => {
+  return isPlainObject(value) && typeof value.$blob === 'number';
+};
+
+const encodeValue = (value: unknown, blobs: Blob[]): unknown => {
+  if (value instanceof Blob) {
+    const reference: BlobReference = { $blob: blobs.push(value) - 1, type: value.type };
+    if (value instanceof File) {
+      reference.name = value.name;
+      reference.lastModified = value.lastModified;
+    }
+    return reference;
+  }
+  if (Array.isArray(value)) return value.map(item => encodeValue(item, blobs));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item, blobs)]));
+  }
+  return value;
+};
+
+// Resolves blob references back into File/Blob objects. Missing entries are
+// collected in `missing` rather than thrown so the caller can report them all.
+const decodeValue = async (value: unknown, zip: JSZip, missing: string[]): Promise<unknown> => {
+  if (isBlobReference(value)) {
+    const entry = zip.file(blobPath(value.$blob));
+    if (!entry) {
+      missing.push(blobPath(value.$blob));
+      return undefined;
+    }
+    const data: Blob = await entry.async('blob');
+    return value.name !== undefined
+      ? new File([data], value.name, { type: value.type, lastModified: value.lastModified })
+      : new Blob([data], { type: value.type });
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(item => decodeValue(item, zip, missing)));
+  if (isPlainObject(value)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await decodeValue(item, zip, missing)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+// Optional note fields are copied across only when they hold what the app would have stored
+const parseArchivedNote = (note: Record<string, unknown> & Pick<NoteState, 'title' | 'body'>): NoteState => {
+  const parsed: NoteState = { title: note.title, body: note.body };
+  if (typeof note.createdAt === 'number') parsed.createdAt = note.createdAt;
+  if (typeof note.editedAt === 'number') parsed.editedAt = note.editedAt;
+  if (Array.isArray(note.tags)) {
+    const tags = parseTags(note.tags.filter((tag): tag is string => typeof tag === 'string').join(','));
+    if (tags.length > 0) parsed.tags = tags;
+  }
+  if (typeof note.pinned === 'boolean') parsed.pinned = note.pinned;
+  const color = noteColors.find(option => option.value === note.color);
+  if (color) parsed.color = color.value;
+  if (typeof note.hideCompleted === 'boolean') parsed.hideCompleted = note.hideCompleted;
+  return parsed;
+};
+
+export const exportWorkspaceArchive = async (workspace: ArchivedWorkspace): Promise<Blob> => {
+  const blobs: Blob[] = [];
+  const manifest: WorkspaceManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    theme: workspace.theme as Theme,
+    layout: workspace.layout,
+    toolStates: encodeValue(workspace.toolStates, blobs) as Record<string, unknown>,
+    noteStates: workspace.noteStates,
+    noteRevisions: workspace.noteRevisions,
+  };
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  blobs.forEach((blob, index) => zip.file(blobPath(index), blob));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const importWorkspaceArchive = async (file: Blob, t: Translator['t']): Promise<ImportResult> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestEntry = zip.file(MANIFEST_PATH);
+  if (!manifestEntry) throw new Error(t('archive.manifestMissing', { path: MANIFEST_PATH }));
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestEntry.async('string'));
+  } catch (e) {
+    throw new Error(t('archive.invalidJson', { path: MANIFEST_PATH }));
+  }
+  if (!isPlainObject(manifest) || manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error(t('archive.unknownFormat'));
+  }
+  if (manifest.version !== ARCHIVE_VERSION) {
+    throw new Error(t('archive.unsupportedVersion', { version: String(manifest.version) }));
+  }
+  if (!isPlainObject(manifest.toolStates) || !isPlainObject(manifest.noteStates)) {
+    throw new Error(t('archive.missingStates'));
+  }
+
+  const failures: string[] = [];
+  const layout = parseTabLayout(manifest.layout);
+  const workspace: ArchivedWorkspace = {
+    toolStates: {},
+    noteStates: {},
+    theme: parseTheme(manifest.theme),
+    layout: layout ?? createDefaultLayout(),
+  };
+  // Archives exported before themes existed only carry an accent color
+  if (!workspace.theme && typeof manifest.baseColor === 'string' && isHexColor(manifest.baseColor)) {
+    workspace.theme = themeFromAccent(manifest.baseColor);
+  }
+  if (!workspace.theme) failures.push(t('archive.invalidTheme'));
+  if (manifest.layout !== undefined && !layout) failures.push(t('archive.invalidLayout'));
+  // Archives exported before tabs could move key states by grid slot
+  const toolStates = layout ? manifest.toolStates : migrateLegacyKeys(manifest.toolStates);
+  const noteStates = layout ? manifest.noteStates : migrateLegacyKeys(manifest.noteStates);
+
+  for (const [key, state] of Object.entries(toolStates)) {
+    const tool = isPlainObject(state) && typeof state.type === 'string' ? getToolDefinition(state.type) : undefined;
+    if (!tool) {
+      failures.push(t('archive.unknownTool', { key }));
+      continue;
+    }
+    const missing: string[] = [];
+    const decoded = await decodeValue(state, zip, missing);
+    if (missing.length > 0) {
+      failures.push(t('archive.missingBlobs', { tool: t(tool.title), key, blobs: missing.join(', ') }));
+      continue;
+    }
+    workspace.toolStates[key] = decoded as ToolState;
+  }
+
+  for (const [key, note] of Object.entries(noteStates)) {
+    if (!isPlainObject(note) || typeof note.title !== 'string' || typeof note.body !== 'string') {
+      failures.push(t('archive.invalidNote', { key }));
+      continue;
+    }
+    workspace.noteStates[key] = parseArchivedNote(note as Record<string, unknown> & Pick<NoteState, 'title' | 'body'>);
+  }
+
+  // Revisions are only kept for notes that survived the checks above
+  const noteRevisions = parseNoteRevisions(manifest.noteRevisions);
+  workspace.noteRevisions = Object.fromEntries(Object.entries(noteRevisions).filter(([key]) => workspace.noteStates[key]));
+
+  return { workspace, failures };
+};
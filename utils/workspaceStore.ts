@@ -0,0 +1,113 @@
+// --- IndexedDB-backed workspace persistence ---
+// localStorage can only hold strings, so it can't keep the File/Blob payloads
+// the media tools carry around. IndexedDB stores them natively via structured clone.
+//
+// Each named workspace is one record keyed by its id; an index record lists them
+// and remembers which one was last active.
+
+const DB_NAME = 'digital-toolbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspace';
+const INDEX_KEY = 'index';
+// Workspaces saved before named workspaces existed live under this id
+const LEGACY_WORKSPACE_ID = 'current';
+
+export interface PersistedWorkspace {
+  version: 1;
+  toolStates: Record<string, unknown>;
+  noteStates: Record<string, unknown>;
+  // Note tab id -> revisions, oldest first; absent in workspaces saved before notes kept history
+  noteRevisions?: Record<string, unknown>;
+  theme?: unknown;
+  // Which tab occupies which grid slot; absent in workspaces saved before tabs could move
+  layout?: unknown;
+  // Tab ids of the tool panels that were open
+  openTools?: string[];
+  // Accent color saved before themes existed; superseded by `theme`
+  baseColor?: string;
+  savedAt: number;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  // Empty for the workspace created on first run, which is shown under a translated default name
+  name: string;
+}
+
+export interface WorkspaceIndex {
+  activeId: string;
+  workspaces: WorkspaceSummary[];
+}
+
+export const defaultWorkspaceIndex: WorkspaceIndex = {
+  activeId: LEGACY_WORKSPACE_ID,
+  workspaces: [{ id: LEGACY_WORKSPACE_ID, name: '' }],
+};
+
+export const createWorkspaceId = (): string => {
+  return `workspace-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadWorkspaceIndex = async (): Promise<WorkspaceIndex> => {
+  const stored = await runTransaction<WorkspaceIndex | undefined>('readonly', store => store.get(INDEX_KEY));
+  if (!stored || !Array.isArray(stored.workspaces) || stored.workspaces.length === 0) return defaultWorkspaceIndex;
+  // The first-run workspace was stored as 'Default' before its name was translated
+  const workspaces = stored.workspaces.map(workspace => (
+    workspace.id === LEGACY_WORKSPACE_ID && workspace.name === 'Default' ? { ...workspace, name: '' } : workspace
+  ));
+  if (!workspaces.some(workspace => workspace.id === stored.activeId)) {
+    return { activeId: workspaces[0].id, workspaces };
+  }
+  return { ...stored, workspaces };
+};
+
+export const saveWorkspaceIndex = async (index: WorkspaceIndex): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(index, INDEX_KEY));
+};
+
+export const loadWorkspace = async (id: string): Promise<PersistedWorkspace | null> => {
+  const stored = await runTransaction<PersistedWorkspace | undefined>('readonly', store => store.get(id));
+  if (!stored || stored.version !== 1) return null;
+  return stored;
+};
+
+export const saveWorkspace = async (id: string, workspace: Omit<PersistedWorkspace, 'version' | 'savedAt'>): Promise<void> => {
+  const record: PersistedWorkspace = { ...workspace, version: 1, savedAt: Date.now() };
+  await runTransaction('readwrite', store => store.put(record, id));
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,29 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        VitePWA({
+          registerType: 'prompt',
+          injectRegister: false,
+          includeAssets: ['icon.svg'],
+          manifest: {
+            name: 'Digital Toolbox',
+            short_name: 'Toolbox',
+            description: 'A set of handy tools for everyday internet life.',
+            start_url: '/',
+            display: 'standalone',
+            background_color: '#000000',
+            theme_color: '#000000',
+            icons: [
+              { src: 'icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,svg}'],
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
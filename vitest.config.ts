@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests only cover plain modules, so the app's plugins (React, PWA) are left out
+export default defineConfig({
+  test: {
+    environment: 'happy-dom',
+  },
+});